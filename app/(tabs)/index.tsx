@@ -1,13 +1,25 @@
 import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
-import { Dimensions, Image, ScrollView, StyleSheet, Text, TouchableOpacity, View, SafeAreaView, Platform, StatusBar, useColorScheme, Linking, RefreshControl } from 'react-native';
-import MaterialIcons from '@expo/vector-icons/MaterialIcons';
+import { Dimensions, Image, ScrollView, StyleSheet, Text, TouchableOpacity, View, SafeAreaView, Platform, StatusBar, useColorScheme, RefreshControl } from 'react-native';
 import Constants from 'expo-constants';
 import { router, type Href } from 'expo-router';
+import { useIsFocused } from '@react-navigation/native';
 import { useAuth } from '@/hooks/useAuth';
-import { getSlides, subscribeSlides, type Slide, getOffers, subscribeOffers, type OfferItem } from '../../lib/content';
-import { subscribeTransactionsForUser, type Transaction } from '@/lib/transactions';
-import { getProfile } from '@/lib/profile';
-import { supabase } from '../../lib/supabase';
+import { slidesCacheKey, offersCacheKey, isOfferLive, isSlideLive, OFFER_CATEGORIES, localizeOffer } from '../../lib/content';
+import { isOfferCompleted, isTransactionComplete, transactionsCacheKey } from '@/lib/transactions';
+import { getHomeFilter, setHomeFilter } from '@/lib/preferences';
+import { isOfferTargeted } from '@/lib/targeting';
+import { isOfferEligible } from '@/lib/eligibility';
+import { getDeviceLocale } from '@/lib/locale';
+import { openLink } from '@/lib/links';
+import { IMPRESSION_MIN_VISIBLE_MS, trackSlideClick, trackSlideImpression } from '@/lib/slideAnalytics';
+import { useNow } from '@/hooks/useNow';
+import { useOffers } from '@/hooks/useOffers';
+import { useSlides } from '@/hooks/useSlides';
+import { useTransactions } from '@/hooks/useTransactions';
+import { useEligibilityContext } from '@/hooks/useEligibility';
+import { useIsAdmin } from '@/hooks/useProfile';
+import { OfferCard } from '@/components/OfferCard';
+import { CacheHint } from '@/components/CacheHint';
 
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
 
@@ -16,112 +28,123 @@ export default function HomeScreen() {
   const isDark = colorScheme === 'dark';
   const { user } = useAuth();
   const [activeCarousel, setActiveCarousel] = useState(0);
-  const [allOffers, setAllOffers] = useState<OfferItem[]>(getOffers());
-  const [loadingOffers, setLoadingOffers] = useState(false);
-  const [slides, setSlides] = useState<Slide[]>(getSlides());
-  const [isAdmin, setIsAdmin] = useState(false);
-  const [paidOfferIds, setPaidOfferIds] = useState<Set<string>>(new Set());
+  const { data: allOffers, loading: loadingOffers, refetch: refetchOffers } = useOffers();
+  const { data: slides, refetch: refetchSlides } = useSlides();
+  const { data: transactions, refetch: refetchTransactions } = useTransactions(user?.id);
+  const { isAdmin } = useIsAdmin();
+  const eligibility = useEligibilityContext();
   const carouselRef = useRef<ScrollView | null>(null);
   const [refreshing, setRefreshing] = useState(false);
+  // Coarse clock so scheduled offers appear/disappear without a refetch
+  const now = useNow(30 * 1000);
+  // Chip filter: 'all', 'cat:<category>' or 'tag:<tag>'; persisted per user
+  const [filter, setFilter] = useState('all');
+  const locale = useMemo(() => getDeviceLocale(), []);
+  // Lists this screen may serve from the offline cache
+  const userId = user?.id;
+  const cacheKeys = useMemo(
+    () => [slidesCacheKey(), offersCacheKey(), ...(userId ? [transactionsCacheKey(userId)] : [])],
+    [userId]
+  );
 
-  useEffect(() => {
-    // Subscribe to content store so Admin additions reflect immediately
-    const unsubSlides = subscribeSlides(setSlides);
-    const unsubOffers = subscribeOffers((items) => {
-      // store all; we'll filter by paid in a memo
-      setAllOffers(items);
-      setLoadingOffers(false);
-    });
-    // Optionally simulate loading state on first mount
-    setLoadingOffers(false);
-    return () => {
-      unsubSlides();
-      unsubOffers();
-    };
-  }, []);
+  // Offers the user has been fully approved or paid for are hidden (all milestones, for multi-stage offers)
+  const completedTransactions = useMemo(() => transactions.filter((t) => isTransactionComplete(t) && !!t.offer_id), [transactions]);
 
-  // Track user's paid transactions to hide those offers on Home
+  // Restore the last chosen filter for this user
   useEffect(() => {
-    if (!user) { setPaidOfferIds(new Set()); return; }
-    const unsub = subscribeTransactionsForUser(user.id, (items: Transaction[]) => {
-      const paid = new Set(items.filter((t) => t.status === 'paid' && !!t.offer_id).map((t) => String(t.offer_id)));
-      setPaidOfferIds(paid);
+    let cancelled = false;
+    getHomeFilter(user?.id).then((saved) => {
+      if (!cancelled) setFilter(saved || 'all');
     });
-    return unsub;
+    return () => { cancelled = true; };
   }, [user?.id]);
 
-  // Load profile to determine admin flag
-  useEffect(() => {
-    let cancelled = false;
-    async function loadAdmin() {
-      try {
-        if (!user) {
-          if (!cancelled) setIsAdmin(false);
-          return;
-        }
-        const p = await getProfile(user.id);
-        if (!cancelled) setIsAdmin(!!p?.is_admin);
-      } catch {
-        if (!cancelled) setIsAdmin(false);
-      }
-    }
-    loadAdmin();
-    return () => { cancelled = true; };
-  }, [user]);
+  const selectFilter = useCallback((next: string) => {
+    setFilter(next);
+    setHomeFilter(user?.id, next);
+  }, [user?.id]);
 
-  // Compute visible offers: active and not already paid by the user
+  // Offers the user is already on stay listed even if an eligibility rule would now exclude them
+  const startedOfferIds = useMemo(() => new Set(transactions.map((t) => t.offer_id)), [transactions]);
+
+  // Compute visible offers: active, inside their schedule window, targeted at this device,
+  // eligible for the user and not already completed
   const visibleOffers = useMemo(() => {
-    const active = allOffers.filter((o) => o.active !== false);
-    if (!paidOfferIds.size) return active;
-    return active.filter((o) => !paidOfferIds.has(String(o.id)));
-  }, [allOffers, paidOfferIds]);
+    const active = allOffers.filter((o) => (
+      isOfferLive(o, now) &&
+      isOfferTargeted(o) &&
+      (!eligibility || startedOfferIds.has(o.id) || isOfferEligible(o, eligibility))
+    ));
+    if (!completedTransactions.length) return active;
+    return active.filter((o) => !isOfferCompleted(o, completedTransactions));
+  }, [allOffers, completedTransactions, now, eligibility, startedOfferIds]);
+
+  // Chips: categories and tags that have at least one visible offer, plus the saved selection
+  const filterChips = useMemo(() => {
+    const cats = new Set(visibleOffers.map((o) => o.category).filter(Boolean));
+    const tags = Array.from(new Set(visibleOffers.flatMap((o) => o.tags ?? []))).sort();
+    const chips = [{ key: 'all', label: 'All' }];
+    for (const c of OFFER_CATEGORIES) {
+      if (cats.has(c.id) || filter === `cat:${c.id}`) chips.push({ key: `cat:${c.id}`, label: c.label });
+    }
+    for (const t of tags) chips.push({ key: `tag:${t}`, label: `#${t}` });
+    if (filter.startsWith('tag:') && !tags.includes(filter.slice(4))) chips.push({ key: filter, label: `#${filter.slice(4)}` });
+    return chips;
+  }, [visibleOffers, filter]);
+
+  const filteredOffers = useMemo(() => {
+    if (filter.startsWith('cat:')) return visibleOffers.filter((o) => o.category === filter.slice(4));
+    if (filter.startsWith('tag:')) return visibleOffers.filter((o) => o.tags?.includes(filter.slice(4)));
+    return visibleOffers;
+  }, [visibleOffers, filter]);
+
+  const sectionTitle = useMemo(() => {
+    if (filter === 'all') return 'All Offers';
+    return `${filterChips.find((c) => c.key === filter)?.label ?? 'Filtered'} Offers`;
+  }, [filter, filterChips]);
 
   const MIN_VISIBLE = 8;
-  const dummyCount = useMemo(() => Math.max(0, MIN_VISIBLE - visibleOffers.length), [visibleOffers.length]);
+  // Placeholders only pad the unfiltered feed
+  const dummyCount = useMemo(
+    () => (filter === 'all' ? Math.max(0, MIN_VISIBLE - filteredOffers.length) : 0),
+    [filter, filteredOffers.length]
+  );
+
+  // Carousel shows slides in their admin order, skipping those outside their schedule
+  const liveSlides = useMemo(() => slides.filter((s) => isSlideLive(s, now)), [slides, now]);
 
   // Autoplay carousel every 3 seconds
   useEffect(() => {
-    if (!slides.length || !carouselRef.current) return;
+    if (!liveSlides.length || !carouselRef.current) return;
     const interval = setInterval(() => {
       setActiveCarousel((prev) => {
-        const next = (prev + 1) % Math.max(slides.length, 1);
+        const next = (prev + 1) % Math.max(liveSlides.length, 1);
         const x = next * SCREEN_WIDTH;
         carouselRef.current?.scrollTo({ x, y: 0, animated: true });
         return next;
       });
     }, 3000);
     return () => clearInterval(interval);
-  }, [slides.length]);
+  }, [liveSlides.length]);
+
+  // Count an impression once the active slide has been on screen long enough
+  const isFocused = useIsFocused();
+  const activeSlideId = liveSlides[activeCarousel]?.id;
+  useEffect(() => {
+    if (!activeSlideId || !isFocused) return;
+    const t = setTimeout(() => trackSlideImpression(activeSlideId), IMPRESSION_MIN_VISIBLE_MS);
+    return () => clearTimeout(t);
+  }, [activeSlideId, isFocused]);
 
-  // Pull-to-refresh handler: refetch slides and offers now
+  // Pull-to-refresh handler: refetch slides, offers and paid state now
   const onRefresh = useCallback(async () => {
     setRefreshing(true);
     try {
-      const [{ data: slideRows }, { data: offerRows }] = await Promise.all([
-        supabase.from('slides').select('*').order('created_at', { ascending: false }),
-        supabase.from('offers').select('*').order('created_at', { ascending: false }),
-      ]);
-      const nextSlides: Slide[] = ((slideRows as any[]) || []).map((r: any) => ({ id: r.id, image: r.image, link: r.link ?? undefined }));
-      const nextOffers: OfferItem[] = ((offerRows as any[]) || []).map((r: any) => ({
-        id: r.id,
-        title: r.title,
-        amount: r.amount,
-        icon: r.icon ?? undefined,
-        label: r.label ?? undefined,
-        description: r.description ?? undefined,
-        steps: r.steps ?? undefined,
-        storeUrl: r.store_url ?? undefined,
-        active: r.active ?? undefined,
-        requiresProof: r.requires_proof ?? undefined,
-      }));
-      setSlides(nextSlides);
-      setAllOffers(nextOffers);
-    } catch (e) {
-      // No-op: retain previous content on error
+      await Promise.all([refetchSlides(), refetchOffers(), refetchTransactions()]);
     } finally {
       setRefreshing(false);
     }
-  }, []);
+  }, [refetchSlides, refetchOffers, refetchTransactions]);
 
   return (
     <SafeAreaView style={[styles.safeArea, isDark && { backgroundColor: '#0B0F14' }] }>
@@ -145,8 +168,29 @@ export default function HomeScreen() {
 
       {/* Tagline */}
       <Text style={[styles.tagline, { color: isDark ? '#9CA3AF' : '#6B7280' }]}>India's Largest Earning App</Text>
+      <CacheHint keys={cacheKeys} isDark={isDark} />
 
-      {/* (Tabs removed as requested) */}
+      {/* Category / tag filter chips */}
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        contentContainerStyle={styles.chipRow}
+        style={styles.chipScroller}
+      >
+        {filterChips.map((c) => {
+          const selected = c.key === filter;
+          return (
+            <TouchableOpacity
+              key={c.key}
+              activeOpacity={0.8}
+              onPress={() => selectFilter(c.key)}
+              style={[styles.chip, isDark ? styles.chipDark : styles.chipLight, selected && styles.chipActive]}
+            >
+              <Text style={[styles.chipText, isDark && { color: '#D1D5DB' }, selected && { color: '#FFFFFF' }]}>{c.label}</Text>
+            </TouchableOpacity>
+          );
+        })}
+      </ScrollView>
 
       {/* Carousel (image-based with autoplay) */}
       <ScrollView
@@ -160,16 +204,15 @@ export default function HomeScreen() {
         }}
         style={styles.carousel}
       >
-        {slides.map((slide) => {
+        {liveSlides.map((slide) => {
           const onPress = async () => {
             if (!slide.link) return;
+            trackSlideClick(slide.id);
             try {
-              if (slide.link.startsWith('/')) {
-                router.push(slide.link as any);
-              } else {
-                await Linking.openURL(slide.link);
-              }
-            } catch {}
+              await openLink(slide.link);
+            } catch (e: any) {
+              console.warn('[carousel] open link error', e?.message || e);
+            }
           };
           return (
             <TouchableOpacity
@@ -192,20 +235,20 @@ export default function HomeScreen() {
 
       {/* Dots */}
       <View style={styles.dotsRow}>
-        {slides.map((_, i) => (
+        {liveSlides.map((_, i) => (
           <View key={i} style={[styles.dot, i === activeCarousel && styles.dotActive]} />
         ))}
       </View>
 
       {/* Section Title */}
-      <Text style={[styles.sectionTitle, isDark && { color: '#E5E7EB' }]}>All Offers</Text>
+      <Text style={[styles.sectionTitle, isDark && { color: '#E5E7EB' }]}>{sectionTitle}</Text>
 
       {/* Real Offers */}
       <View style={styles.offerList}>
-        {visibleOffers.map((offer, idx) => (
+        {filteredOffers.map((offer, idx) => (
           <OfferCard
             key={offer.id}
-            offer={offer}
+            offer={localizeOffer(offer, locale)}
             index={idx}
             onPress={() => router.push(`/offer/${offer.id}` as Href)}
           />
@@ -213,118 +256,20 @@ export default function HomeScreen() {
 
         {/* Dummy Offers */}
         {Array.from({ length: dummyCount }).map((_, i) => (
-          <OfferCard key={`dummy-${i}`} dummy index={visibleOffers.length + i} />
+          <OfferCard key={`dummy-${i}`} dummy index={filteredOffers.length + i} />
         ))}
 
-        {loadingOffers && <Text style={[styles.loadingText, isDark && { color: '#9CA3AF' }]}>Loading offers...</Text>}
+        {filter !== 'all' && filteredOffers.length === 0 && (
+          <Text style={[styles.loadingText, isDark && { color: '#9CA3AF' }]}>No offers here yet. Check back soon!</Text>
+        )}
+
+        {loadingOffers && !allOffers.length && <Text style={[styles.loadingText, isDark && { color: '#9CA3AF' }]}>Loading offers...</Text>}
       </View>
       </ScrollView>
     </SafeAreaView>
   );
 }
 
-// Types
-type Offer = OfferItem;
-
-// Components
-function OfferCard({ offer, dummy, index, onPress }: { offer?: Offer; dummy?: boolean; index: number; onPress?: () => void }) {
-  const colorScheme = useColorScheme();
-  const isDark = colorScheme === 'dark';
-  const label = offer?.label ?? `Offer ${index + 1}`;
-  const amount = offer?.amount ?? (index % 2 === 0 ? 5 : 7);
-  const description = offer ? (offer.description || 'Complete simple steps to earn rewards.') : '────────────── ──────────────';
-  const [ctaPressed, setCtaPressed] = useState(false);
-  return (
-    <View style={styles.offerCardWrapper}> 
-      <View style={styles.offerLabelPill}>
-        <Text style={styles.offerLabelText}>{label}</Text>
-      </View>
-      <View
-        style={[
-          styles.offerCard,
-          isDark ? styles.offerCardDark : styles.offerCardLight,
-          dummy && (isDark ? styles.offerCardMutedDark : styles.offerCardMuted),
-        ]}
-      >
-        {/* Top Row: Icon + Name + Reward Pill */}
-        <View style={styles.cardTopRow}>
-          <View style={[styles.iconPlaceholder, dummy ? styles.iconMuted : styles.iconVibrant]}>
-            {offer?.icon ? (
-              <Image source={{ uri: offer.icon }} style={{ width: 48, height: 48, borderRadius: 10 }} />
-            ) : (
-              <MaterialIcons name="apps" size={26} color={dummy ? '#9AA0A6' : '#ffffff'} />
-            )}
-          </View>
-          <View style={{ flex: 1, paddingRight: 10 }}>
-            <Text
-              numberOfLines={1}
-              style={[
-                styles.offerTitle,
-                { fontSize: 16 },
-                isDark && { color: '#E5E7EB' },
-                dummy && styles.offerTitleMuted,
-              ]}
-            >
-              {offer?.title ?? '──────────────'}
-            </Text>
-          </View>
-          <View
-            style={[
-              styles.rewardPill,
-              isDark ? styles.rewardPillDark : styles.rewardPillLight,
-              dummy && styles.rewardPillDisabled,
-            ]}
-          >
-            <Text
-              style={[
-                styles.rewardText,
-                isDark ? styles.rewardTextDark : styles.rewardTextLight,
-                dummy && styles.rewardTextDisabled,
-              ]}
-            >
-              {`₹${amount}`}
-            </Text>
-          </View>
-        </View>
-
-        {/* Description */}
-        <Text
-          numberOfLines={2}
-          style={[
-            styles.offerDesc,
-            { color: isDark ? '#D1D5DB' : '#4B5563' },
-            dummy && styles.offerTitleMuted,
-          ]}
-        >
-          {description}
-        </Text>
-
-        {/* Divider */}
-        <View style={[styles.cardDivider, { backgroundColor: isDark ? '#334155' : '#E5E7EB' }]} />
-
-        {/* Footer: Solid View Details button */}
-        <TouchableOpacity
-          disabled={dummy}
-          activeOpacity={0.9}
-          onPress={onPress}
-          onPressIn={() => setCtaPressed(true)}
-          onPressOut={() => setCtaPressed(false)}
-          style={[
-            styles.viewDetailsBtn,
-            {
-              backgroundColor: isDark
-                ? (ctaPressed ? '#4338CA' : '#4F46E5')
-                : (ctaPressed ? '#1D4ED8' : '#2563EB'),
-            },
-          ]}
-        >
-          <Text style={styles.viewDetailsBtnText}>View Details →</Text>
-        </TouchableOpacity>
-      </View>
-    </View>
-  );
-}
-
 const styles = StyleSheet.create({
   safeArea: {
     // Ensure content starts below status bar / notch across platforms
@@ -376,7 +321,24 @@ const styles = StyleSheet.create({
     fontWeight: '700',
     color: '#222',
   },
-  // tabs styles removed
+  chipScroller: {
+    marginTop: 12,
+    flexGrow: 0,
+  },
+  chipRow: {
+    paddingHorizontal: 16,
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 999,
+    borderWidth: 1,
+  },
+  chipLight: { backgroundColor: '#FFFFFF', borderColor: '#E5E7EB' },
+  chipDark: { backgroundColor: '#111827', borderColor: '#374151' },
+  chipActive: { backgroundColor: '#2563EB', borderColor: '#1E40AF' },
+  chipText: { color: '#374151', fontWeight: '800', fontSize: 13 },
   carousel: {
     marginTop: 12,
   },
@@ -413,119 +375,4 @@ const styles = StyleSheet.create({
     paddingHorizontal: 12,
     gap: 12,
   },
-  offerCardWrapper: {
-    position: 'relative',
-  },
-  offerLabelPill: {
-    position: 'absolute',
-    top: -8,
-    left: 12,
-    backgroundColor: '#2947F7',
-    paddingHorizontal: 10,
-    paddingVertical: 4,
-    borderTopLeftRadius: 8,
-    borderTopRightRadius: 8,
-    zIndex: 2,
-  },
-  offerLabelText: {
-    color: '#fff',
-    fontSize: 11,
-    fontWeight: '700',
-  },
-  offerCard: {
-    borderRadius: 16,
-    padding: 14,
-    paddingTop: 18,
-    gap: 8,
-    minHeight: 120,
-    // soft shadow
-    shadowColor: '#000',
-    shadowOpacity: 0.06,
-    shadowRadius: 8,
-    shadowOffset: { width: 0, height: 4 },
-    elevation: 2,
-  },
-  offerCardLight: {
-    backgroundColor: '#FFFFFF',
-  },
-  offerCardMuted: {
-    backgroundColor: '#F2F2F2',
-  },
-  offerCardDark: {
-    backgroundColor: '#1E293B',
-  },
-  offerCardMutedDark: {
-    backgroundColor: '#111827',
-  },
-  cardTopRow: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    gap: 12,
-  },
-  iconPlaceholder: {
-    width: 48,
-    height: 48,
-    borderRadius: 10,
-    alignItems: 'center',
-    justifyContent: 'center',
-  },
-  iconVibrant: {
-    backgroundColor: '#6C8CFF',
-  },
-  iconMuted: {
-    backgroundColor: '#E0E0E0',
-  },
-  offerTitle: {
-    fontSize: 14,
-    fontWeight: '700',
-    color: '#2E2E2E',
-    flexShrink: 1,
-  },
-  offerTitleMuted: {
-    color: '#9AA0A6',
-    fontWeight: '600',
-  },
-  rewardPill: {
-    paddingHorizontal: 10,
-    paddingVertical: 6,
-    borderRadius: 999,
-    minWidth: 56,
-    alignItems: 'center',
-    justifyContent: 'center',
-  },
-  rewardPillLight: { backgroundColor: '#FDE68A' },
-  rewardPillDark: { backgroundColor: '#F59E0B' },
-  rewardPillDisabled: { opacity: 0.6 },
-  rewardText: { fontWeight: '900' },
-  rewardTextLight: { color: '#1F2937' },
-  rewardTextDark: { color: '#FFFFFF' },
-  rewardTextDisabled: { opacity: 0.6 },
-
-  offerDesc: {
-    fontSize: 13,
-    lineHeight: 18,
-  },
-  cardDivider: {
-    height: StyleSheet.hairlineWidth,
-    width: '100%',
-    marginTop: 6,
-  },
-  cardFooterRow: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    justifyContent: 'flex-end',
-    marginTop: 6,
-  },
-  viewDetailsBtn: {
-    marginTop: 8,
-    borderRadius: 10,
-    paddingVertical: 12,
-    alignItems: 'center',
-    width: '100%',
-  },
-  viewDetailsBtnText: {
-    color: '#FFFFFF',
-    fontWeight: '900',
-  },
-  // removed external details button styles
 });
@@ -2,42 +2,48 @@ import React, { useEffect, useMemo, useState } from 'react';
 import { Image, ScrollView, StyleSheet, Text, View, SafeAreaView, Platform, StatusBar, useColorScheme } from 'react-native';
 import MaterialIcons from '@expo/vector-icons/MaterialIcons';
 import { Stack } from 'expo-router';
-import { subscribeTransactionsForUser, type Transaction } from '../../lib/transactions';
+import { isTransactionComplete, transactionsCacheKey, TRANSACTION_STATUS_LABELS, type Transaction } from '../../lib/transactions';
 import { addTransactionListener } from '@/lib/txEvents';
 import { useAuth } from '@/hooks/useAuth';
+import { useTransactions } from '@/hooks/useTransactions';
+import { CacheHint } from '@/components/CacheHint';
 
 export default function WalletScreen() {
   const colorScheme = useColorScheme();
   const isDark = colorScheme === 'dark';
   const { user } = useAuth();
-  const [txs, setTxs] = useState<Transaction[]>([]);
+  const { data: liveTxs } = useTransactions(user?.id);
+  const [localTxs, setLocalTxs] = useState<Transaction[]>([]);
 
+  // Also merge local events for instant UI, until realtime delivers the same rows
   useEffect(() => {
-    if (!user) { setTxs([]); return; }
-    const unsub = subscribeTransactionsForUser(user.id, setTxs);
-    // Also merge local events for instant UI
+    setLocalTxs([]);
+    if (!user) return;
     const removeEvt = addTransactionListener<Transaction>((tx) => {
       if (!tx || tx.user_id !== user.id) return;
-      setTxs((prev) => {
-        const without = prev.filter((p) => p.id !== tx.id);
-        return [tx, ...without];
-      });
+      setLocalTxs((prev) => [tx, ...prev.filter((p) => p.id !== tx.id)]);
     });
-    return () => { unsub(); removeEvt(); };
+    return () => { removeEvt(); };
   }, [user?.id]);
 
-  const completed = useMemo(() => txs.filter((t) => t.status === 'paid').length, [txs]);
+  const txs = useMemo(() => {
+    const liveIds = new Set(liveTxs.map((t) => t.id));
+    return [...localTxs.filter((t) => !liveIds.has(t.id)), ...liveTxs];
+  }, [liveTxs, localTxs]);
 
-  // Display rule: for each offer_id, only keep the most recent non-paid tx (pending/rejected),
-  // but include all paid transactions.
+  const completed = useMemo(() => txs.filter(isTransactionComplete).length, [txs]);
+  const earned = useMemo(() => txs.reduce((sum, t) => sum + (t.status === 'paid' ? Number(t.amount) || 0 : 0), 0), [txs]);
+
+  // Display rule: for each offer_id (and milestone), only keep the most recent unconfirmed tx
+  // (started/submitted/under review/rejected/expired/reversed), but include all approved and paid transactions.
   const displayTxs = useMemo(() => {
     const latestNonPaidByOffer = new Map<string, Transaction>();
     const paid: Transaction[] = [];
     for (const t of txs) {
-      if (t.status === 'paid') {
+      if (isTransactionComplete(t)) {
         paid.push(t);
       } else if (t.offer_id) {
-        const key = String(t.offer_id);
+        const key = t.step_id ? `${t.offer_id}:${t.step_id}` : String(t.offer_id);
         const prev = latestNonPaidByOffer.get(key);
         if (!prev || new Date(t.created_at).getTime() > new Date(prev.created_at).getTime()) {
           latestNonPaidByOffer.set(key, t);
@@ -70,10 +76,12 @@ export default function WalletScreen() {
           ]}>
             <Text style={[styles.summaryTitle, isDark && { color: '#E5E7EB' }]}>Total Tasks Completed</Text>
             <Text style={[styles.summaryNumber, isDark && { color: '#F3F4F6' }]}>{completed}</Text>
+            <Text style={[styles.summaryEarned, isDark && { color: '#CBD5E1' }]}>₹{earned} earned</Text>
           </View>
 
           {/* History header */}
           <Text style={[styles.sectionTitle, isDark && { color: '#E5E7EB' }]}>Transaction History</Text>
+          {!!user && <CacheHint keys={[transactionsCacheKey(user.id)]} isDark={isDark} />}
 
           {/* Transactions */}
           <View style={{ gap: 10 }}>
@@ -93,11 +101,19 @@ export default function WalletScreen() {
                 {/* Middle */}
                 <View style={{ flex: 1 }}>
                   <Text numberOfLines={1} style={[styles.txTitle, isDark && { color: '#E5E7EB' }]}>{t.offer_title ?? 'Task'}</Text>
+                  {!!t.step_title && (
+                    <Text numberOfLines={1} style={[styles.txStep, isDark && { color: '#CBD5E1' }]}>{t.step_title}</Text>
+                  )}
                   <Text style={[styles.txTime, isDark && { color: '#9CA3AF' }]}>{formatTs(t.created_at)}</Text>
                 </View>
                 {/* Right: status */}
-                <View style={[styles.statusBadge, statusStyle(t.status).bg]}>
-                  <Text style={[styles.statusText, statusStyle(t.status).text]}>{t.status}</Text>
+                <View style={{ alignItems: 'flex-end', gap: 4 }}>
+                  <View style={[styles.statusBadge, statusStyle(t.status).bg]}>
+                    <Text style={[styles.statusText, statusStyle(t.status).text]}>{TRANSACTION_STATUS_LABELS[t.status]}</Text>
+                  </View>
+                  {t.amount != null && (
+                    <Text style={[styles.txAmount, isDark && { color: '#E5E7EB' }]}>₹{t.amount}</Text>
+                  )}
                 </View>
               </View>
             ))}
@@ -125,9 +141,18 @@ function statusStyle(status: Transaction['status']) {
   switch (status) {
     case 'paid':
       return { text: { color: '#0F9D58' }, bg: { backgroundColor: '#E7F6EE' } };
-    case 'pending':
+    case 'approved':
+      return { text: { color: '#0B8043' }, bg: { backgroundColor: '#E6F4EA' } };
+    case 'started':
       return { text: { color: '#F4B400' }, bg: { backgroundColor: '#FFF7E1' } };
+    case 'submitted':
+      return { text: { color: '#2563EB' }, bg: { backgroundColor: '#E8EFFF' } };
+    case 'under_review':
+      return { text: { color: '#7C3AED' }, bg: { backgroundColor: '#F1EAFE' } };
+    case 'expired':
+      return { text: { color: '#6B7280' }, bg: { backgroundColor: '#F1F3F4' } };
     case 'rejected':
+    case 'reversed':
     default:
       return { text: { color: '#DB4437' }, bg: { backgroundColor: '#FDECEC' } };
   }
@@ -170,6 +195,12 @@ const styles = StyleSheet.create({
     fontWeight: '900',
     color: '#111827',
   },
+  summaryEarned: {
+    marginTop: 2,
+    fontSize: 14,
+    fontWeight: '800',
+    color: '#1F2937',
+  },
   sectionTitle: {
     marginTop: 8,
     fontSize: 18,
@@ -197,6 +228,8 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
   },
   txTitle: { fontWeight: '900', color: '#1F2937' },
+  txStep: { marginTop: 2, color: '#374151', fontSize: 12, fontWeight: '700' },
+  txAmount: { fontWeight: '900', color: '#1F2937', fontSize: 12 },
   txTime: { marginTop: 2, color: '#6B7280', fontSize: 12 },
   statusBadge: {
     paddingVertical: 6,
@@ -3,17 +3,34 @@ import { SafeAreaProvider } from 'react-native-safe-area-context';
 import { useFonts } from 'expo-font';
 import { Stack } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
+import { useEffect, useState } from 'react';
 import 'react-native-reanimated';
 
 import { useColorScheme } from '@/hooks/useColorScheme';
+import { clearUserCachedRows, hydrateOfflineCache } from '@/lib/offlineCache';
+import { supabase } from '@/lib/supabase';
 
 export default function RootLayout() {
   const colorScheme = useColorScheme();
   const [loaded] = useFonts({
     SpaceMono: require('../assets/fonts/SpaceMono-Regular.ttf'),
   });
+  // Saved content must be in memory before screens read it synchronously
+  const [cacheReady, setCacheReady] = useState(false);
 
-  if (!loaded) {
+  useEffect(() => {
+    hydrateOfflineCache().finally(() => setCacheReady(true));
+  }, []);
+
+  // A signed-out user's wallet and progress must not show for the next account on this device
+  useEffect(() => {
+    const { data: sub } = supabase.auth.onAuthStateChange((event) => {
+      if (event === 'SIGNED_OUT') clearUserCachedRows();
+    });
+    return () => sub.subscription.unsubscribe();
+  }, []);
+
+  if (!loaded || !cacheReady) {
     // Async font loading only occurs in development.
     return null;
   }
@@ -2,14 +2,46 @@ import React, { useEffect, useMemo, useState } from 'react';
 import { Alert, StyleSheet, Text, TextInput, TouchableOpacity, View, useColorScheme, ScrollView, Switch, Image, Platform } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useAuth } from '@/hooks/useAuth';
-import { getProfile } from '@/lib/profile';
-import { addSlide, deleteSlide, getSlides, subscribeSlides, updateSlide, type Slide } from '@/lib/content';
-import { getOffers, subscribeOffers, addOffer, updateOffer, deleteOffer, type OfferItem } from '@/lib/content';
-import { subscribeAllTransactions, updateTransactionStatus, type Transaction } from '@/lib/transactions';
+import { useIsAdmin } from '@/hooks/useProfile';
+import { useImageUpload, type ImageUploadState } from '@/hooks/useImageUpload';
+import { addSlide, deleteSlide, getSlides, subscribeSlides, updateSlide, setSlideStatus, type Slide } from '@/lib/content';
+import { getOffers, subscribeOffers, addOffer, updateOffer, deleteOffer, getMilestones, getOfferWindowState, hasOfferCaps, isMultiStageOffer, missingTranslations, setOfferStatus, OFFER_CATEGORIES, type OfferCategory, type OfferItem } from '@/lib/content';
+import {
+  subscribeAllTransactions,
+  updateTransactionStatus,
+  fetchOfferUsage,
+  remainingBudget,
+  canTransition,
+  TRANSACTION_STATUSES,
+  TRANSACTION_STATUS_LABELS,
+  type OfferUsage,
+  type Transaction,
+  type TransactionStatus,
+} from '@/lib/transactions';
 import { supabase } from '@/lib/supabase';
+import { validateLink, type LinkContext } from '@/lib/links';
+import { validateTrackingTemplate } from '@/lib/tracking';
 import type { UserProfile } from '@/lib/profile';
 import * as ImagePicker from 'expo-image-picker';
 import { Link } from 'expo-router';
+import { ScheduleField, isoToLocalInput, localInputToIso } from '@/components/admin/ScheduleField';
+import { CategoryTagsFields, tagsToText, textToTags } from '@/components/admin/CategoryTagsFields';
+import { TargetingFields, EMPTY_TARGETING, draftToTargeting, validateTargeting, type TargetingDraft } from '@/components/admin/TargetingFields';
+import { EligibilityFields, EMPTY_ELIGIBILITY, draftToEligibility, eligibilityToDraft, validateEligibility, type EligibilityDraft } from '@/components/admin/EligibilityFields';
+import { describeEligibilityRule } from '@/lib/eligibility';
+import { AttributionFields, EMPTY_ATTRIBUTION, attributionToDraft, draftToAttribution, validateAttribution, type AttributionDraft } from '@/components/admin/AttributionFields';
+import { getAttributionAdapter } from '@/lib/attribution';
+import { TranslationsEditor, cleanTranslations } from '@/components/admin/TranslationsEditor';
+import { RevisionHistory } from '@/components/admin/RevisionHistory';
+import { StatusBadge, WorkflowControls } from '@/components/admin/WorkflowControls';
+import { OfferPreview, SlidePreview } from '@/components/admin/ContentPreview';
+import { CapsFields, EMPTY_CAPS, capsToDraft, draftToCaps, type CapsDraft } from '@/components/admin/CapsFields';
+import { OfferImportExport } from '@/components/admin/OfferImportExport';
+import { SlideOrderList } from '@/components/admin/SlideOrderList';
+import { SlideAnalyticsPanel } from '@/components/admin/SlideAnalyticsPanel';
+import { OfferClicksPanel } from '@/components/admin/OfferClicksPanel';
+import { UploadStatus } from '@/components/admin/UploadStatus';
+import { StepsEditor, draftRewardTotal, draftToSteps, stepsToDraft, type StepDraft } from '@/components/admin/StepsEditor';
 
 // Simple Error Boundary to prevent Admin crashing due to a sub-tree error
 class TxnErrorBoundary extends React.Component<{ children: React.ReactNode }, { hasError: boolean; msg?: string }>{
@@ -67,18 +99,22 @@ export default function AdminScreen() {
   const colorScheme = useColorScheme();
   const isDark = colorScheme === 'dark';
   const { user } = useAuth();
-  const [isAdmin, setIsAdmin] = useState(false);
-  const [slides, setSlides] = useState<Slide[]>(getSlides());
-  const [offers, setOffers] = useState<OfferItem[]>(getOffers());
+  const { isAdmin } = useIsAdmin();
+  const [slides, setSlides] = useState<Slide[]>(getSlides({ includeDrafts: true }));
+  const [offers, setOffers] = useState<OfferItem[]>(getOffers({ includeDrafts: true }));
   const [txs, setTxs] = useState<Transaction[]>([]);
-  const [txFilter, setTxFilter] = useState<'all' | 'pending' | 'paid' | 'rejected'>('pending');
+  const [txFilter, setTxFilter] = useState<'all' | TransactionStatus>('started');
   const [noteDrafts, setNoteDrafts] = useState<Record<string, string>>({});
   const [profilesMap, setProfilesMap] = useState<Record<string, UserProfile>>({});
 
   // carousel add form fields
   const [image, setImage] = useState('');
   const [link, setLink] = useState('');
-  const canAdd = useMemo(() => image.trim().length > 0, [image]);
+  const [slideStartsAt, setSlideStartsAt] = useState('');
+  const [slideEndsAt, setSlideEndsAt] = useState('');
+  // Picked images upload right away; the field takes the public URL once the upload is done
+  const slideUpload = useImageUpload('banner', (img) => setImage(img.url));
+  const canAdd = useMemo(() => image.trim().length > 0 && !slideUpload.uploading, [image, slideUpload.uploading]);
 
   // offer form (with description and icon picker)
   const [title, setTitle] = useState('');
@@ -86,15 +122,31 @@ export default function AdminScreen() {
   const [icon, setIcon] = useState('');
   const [description, setDescription] = useState('');
   const [storeUrl, setStoreUrl] = useState('');
+  const [trackingUrl, setTrackingUrl] = useState('');
   const [active, setActive] = useState(true);
-  const [steps, setSteps] = useState<string[]>([]);
-  const [newStep, setNewStep] = useState('');
-  const canAddOffer = useMemo(() => title.trim().length > 0 && !!Number(amount), [title, amount]);
+  const [steps, setSteps] = useState<StepDraft[]>([]);
+  const [startsAt, setStartsAt] = useState('');
+  const [endsAt, setEndsAt] = useState('');
+  const [caps, setCaps] = useState<CapsDraft>(EMPTY_CAPS);
+  const [category, setCategory] = useState<OfferCategory | undefined>(undefined);
+  const [tagsText, setTagsText] = useState('');
+  const [targeting, setTargeting] = useState<TargetingDraft>(EMPTY_TARGETING);
+  const [eligibility, setEligibility] = useState<EligibilityDraft>(EMPTY_ELIGIBILITY);
+  const [attribution, setAttribution] = useState<AttributionDraft>(EMPTY_ATTRIBUTION);
+  const [translations, setTranslations] = useState<NonNullable<OfferItem['translations']>>({});
+  const iconUpload = useImageUpload('icon', (img) => setIcon(img.url));
+  // Milestone offers take their amount from the step rewards
+  const canAddOffer = useMemo(
+    () => title.trim().length > 0 && (!!Number(amount) || draftRewardTotal(steps) > 0) && !iconUpload.uploading,
+    [title, amount, steps, iconUpload.uploading]
+  );
 
   // edit states
   const [editingSlideId, setEditingSlideId] = useState<string | null>(null);
   const [editSlideImage, setEditSlideImage] = useState('');
   const [editSlideLink, setEditSlideLink] = useState('');
+  const [editSlideStartsAt, setEditSlideStartsAt] = useState('');
+  const [editSlideEndsAt, setEditSlideEndsAt] = useState('');
 
   const [editingOfferId, setEditingOfferId] = useState<string | null>(null);
   const [editTitle, setEditTitle] = useState('');
@@ -102,6 +154,37 @@ export default function AdminScreen() {
   const [editIcon, setEditIcon] = useState('');
   const [editDescription, setEditDescription] = useState('');
   const [editStoreUrl, setEditStoreUrl] = useState('');
+  const [editTrackingUrl, setEditTrackingUrl] = useState('');
+  const [editStartsAt, setEditStartsAt] = useState('');
+  const [editEndsAt, setEditEndsAt] = useState('');
+  const [editCaps, setEditCaps] = useState<CapsDraft>(EMPTY_CAPS);
+  const [editCategory, setEditCategory] = useState<OfferCategory | undefined>(undefined);
+  const [editTagsText, setEditTagsText] = useState('');
+  const [editTargeting, setEditTargeting] = useState<TargetingDraft>(EMPTY_TARGETING);
+  const [editEligibility, setEditEligibility] = useState<EligibilityDraft>(EMPTY_ELIGIBILITY);
+  const [editAttribution, setEditAttribution] = useState<AttributionDraft>(EMPTY_ATTRIBUTION);
+  const [editTranslations, setEditTranslations] = useState<NonNullable<OfferItem['translations']>>({});
+  const [editSteps, setEditSteps] = useState<StepDraft[]>([]);
+  const editSlideUpload = useImageUpload('banner', (img) => setEditSlideImage(img.url));
+  const editIconUpload = useImageUpload('icon', (img) => setEditIcon(img.url));
+
+  // Which row has its revision history open: 'offer:<id>' or 'slide:<id>'
+  const [historyFor, setHistoryFor] = useState<string | null>(null);
+  const toggleHistory = (key: string) => setHistoryFor((cur) => (cur === key ? null : key));
+  // Which row shows its "Preview as user" panel, same key format
+  const [previewFor, setPreviewFor] = useState<string | null>(null);
+  const togglePreview = (key: string) => setPreviewFor((cur) => (cur === key ? null : key));
+
+  // Consumed caps/budget for capped offers, shown as "remaining" in the offers list
+  const [offerUsage, setOfferUsage] = useState<Record<string, OfferUsage>>({});
+  useEffect(() => {
+    let cancelled = false;
+    const ids = offers.filter(hasOfferCaps).map((o) => o.id);
+    fetchOfferUsage(ids)
+      .then((map) => { if (!cancelled) setOfferUsage(map); })
+      .catch((e: any) => console.warn('[admin] load offer usage error', e?.message || e));
+    return () => { cancelled = true; };
+  }, [offers]);
 
   // TEMP: disable Transactions Manager entirely to isolate crashes
   const DISABLE_TX_MANAGER = true;
@@ -128,6 +211,11 @@ export default function AdminScreen() {
                 <Text style={{ color: '#FFFFFF', fontWeight: '900' }}>Open Transactions Explore</Text>
               </TouchableOpacity>
             </Link>
+            <Link href="/admin/review" asChild>
+              <TouchableOpacity style={{ marginTop: 8, backgroundColor: '#10B981', borderRadius: 10, paddingHorizontal: 12, paddingVertical: 12, alignItems: 'center' }}>
+                <Text style={{ color: '#FFFFFF', fontWeight: '900' }}>Open Proof Review</Text>
+              </TouchableOpacity>
+            </Link>
           </View>
         </AdminErrorBoundary>
       </SafeAreaView>
@@ -142,34 +230,19 @@ export default function AdminScreen() {
   const [visibleSlidesCount, setVisibleSlidesCount] = useState<number>(10);
   const [visibleOffersCount, setVisibleOffersCount] = useState<number>(10);
 
-  useEffect(() => {
-    let cancelled = false;
-    async function load() {
-      try {
-        if (!user) { setIsAdmin(false); return; }
-        const p = await getProfile(user.id);
-        if (!cancelled) setIsAdmin(!!p?.is_admin);
-      } catch {
-        if (!cancelled) setIsAdmin(false);
-      }
-    }
-    load();
-    return () => { cancelled = true; };
-  }, [user]);
-
   useEffect(() => {
     if (!isAdmin) return;
     let unsubSlides: undefined | (() => void);
     let unsubOffers: undefined | (() => void);
     if (showSlidesSection) {
-      unsubSlides = subscribeSlides(setSlides);
+      unsubSlides = subscribeSlides(setSlides, { includeDrafts: true });
     } else {
-      setSlides(getSlides());
+      setSlides(getSlides({ includeDrafts: true }));
     }
     if (showOffersSection) {
-      unsubOffers = subscribeOffers(setOffers);
+      unsubOffers = subscribeOffers(setOffers, { includeDrafts: true });
     } else {
-      setOffers(getOffers());
+      setOffers(getOffers({ includeDrafts: true }));
     }
     return () => { if (unsubSlides) unsubSlides(); if (unsubOffers) unsubOffers(); };
   }, [isAdmin, showSlidesSection, showOffersSection]);
@@ -209,9 +282,17 @@ export default function AdminScreen() {
   const onAdd = () => {
     try {
       if (!canAdd) return;
-      addSlide({ image: image.trim(), link: link.trim() || undefined });
+      if (!readLink(link, 'any')) return;
+      const schedule = readSchedule(slideStartsAt, slideEndsAt);
+      if (!schedule) return;
+      // New slides go to the end of the carousel
+      const lastPosition = slides.reduce((max, s) => Math.max(max, s.position ?? -1), -1);
+      addSlide({ image: image.trim(), thumbnail: slideUpload.thumbnailFor(image.trim()), link: link.trim() || undefined, position: lastPosition + 1, ...schedule });
       setImage('');
+      slideUpload.reset();
       setLink('');
+      setSlideStartsAt('');
+      setSlideEndsAt('');
     } catch (e: any) {
       Alert.alert('Error', e?.message || 'Failed to add slide');
     }
@@ -226,43 +307,193 @@ export default function AdminScreen() {
     setEditingSlideId(s.id);
     setEditSlideImage(s.image);
     setEditSlideLink(s.link ?? '');
+    setEditSlideStartsAt(isoToLocalInput(s.startsAt));
+    setEditSlideEndsAt(isoToLocalInput(s.endsAt));
   };
   const cancelEditSlide = () => {
     setEditingSlideId(null);
     setEditSlideImage('');
+    editSlideUpload.reset();
     setEditSlideLink('');
+    setEditSlideStartsAt('');
+    setEditSlideEndsAt('');
   };
   const saveEditSlide = () => {
-    if (!editingSlideId) return;
-    updateSlide(editingSlideId, { image: editSlideImage.trim(), link: editSlideLink.trim() || undefined });
+    if (!editingSlideId || editSlideUpload.uploading) return;
+    if (!readLink(editSlideLink, 'any')) return;
+    const schedule = readSchedule(editSlideStartsAt, editSlideEndsAt);
+    if (!schedule) return;
+    const nextImage = editSlideImage.trim();
+    // A replaced image brings its own thumbnail (or none, for a pasted URL)
+    const imageChanged = nextImage !== slides.find((s) => s.id === editingSlideId)?.image;
+    updateSlide(editingSlideId, {
+      image: nextImage,
+      link: editSlideLink.trim() || undefined,
+      ...(imageChanged ? { thumbnail: editSlideUpload.thumbnailFor(nextImage) } : {}),
+      ...schedule,
+    });
     cancelEditSlide();
   };
 
+  // Validate schedule text inputs; returns null (after alerting) when invalid
+  const readSchedule = (startText: string, endText: string) => {
+    const start = localInputToIso(startText);
+    const end = localInputToIso(endText);
+    if (start === null || end === null) {
+      Alert.alert('Invalid date', 'Use the format YYYY-MM-DD HH:mm for start and end.');
+      return null;
+    }
+    if (start && end && Date.parse(end) <= Date.parse(start)) {
+      Alert.alert('Invalid schedule', 'End must be after start.');
+      return null;
+    }
+    return { startsAt: start, endsAt: end };
+  };
+
+  // Validate a slide link or store URL with the shared link resolver
+  const readLink = (text: string, context: LinkContext) => {
+    const err = validateLink(text, context);
+    if (err) { Alert.alert('Invalid link', err); return false; }
+    return true;
+  };
+
+  const readTrackingUrl = (text: string) => {
+    const err = validateTrackingTemplate(text);
+    if (err) { Alert.alert('Invalid tracking URL', err); return false; }
+    return true;
+  };
+
+  const readCaps = (draft: CapsDraft) => {
+    const parsed = draftToCaps(draft);
+    if (!parsed) Alert.alert('Invalid caps', 'Caps and budgets must be positive numbers, and install caps whole numbers.');
+    return parsed;
+  };
+
+  const readTargeting = (draft: TargetingDraft) => {
+    const err = validateTargeting(draft);
+    if (err) { Alert.alert('Invalid targeting', err); return null; }
+    return draftToTargeting(draft);
+  };
+
+  const readEligibility = (draft: EligibilityDraft) => {
+    const err = validateEligibility(draft);
+    if (err) { Alert.alert('Invalid eligibility', err); return null; }
+    return draftToEligibility(draft);
+  };
+
+  const readAttribution = (draft: AttributionDraft, stepDrafts: StepDraft[]) => {
+    const err = validateAttribution(draft, stepDrafts);
+    if (err) { Alert.alert('Invalid attribution', err); return null; }
+    return draftToAttribution(draft, stepDrafts);
+  };
+
+  const readSteps = (draft: StepDraft[]) => {
+    const parsed = draftToSteps(draft);
+    if (!parsed) Alert.alert('Invalid steps', 'Step rewards must be positive numbers.');
+    return parsed;
+  };
+
   const onAddOffer = () => {
     try {
       if (!canAddOffer) return;
+      if (!readLink(storeUrl, 'store')) return;
+      if (!readTrackingUrl(trackingUrl)) return;
+      const offerSteps = readSteps(steps);
+      if (!offerSteps) return;
+      const schedule = readSchedule(startsAt, endsAt);
+      if (!schedule) return;
+      const offerCaps = readCaps(caps);
+      if (!offerCaps) return;
+      const offerTargeting = readTargeting(targeting);
+      if (!offerTargeting) return;
+      const offerEligibility = readEligibility(eligibility);
+      if (!offerEligibility) return;
+      const offerAttribution = readAttribution(attribution, steps);
+      if (!offerAttribution) return;
       addOffer({
         title: title.trim(),
-        amount: Number(amount),
+        amount: draftRewardTotal(steps) || Number(amount),
         icon: icon.trim() || undefined,
+        iconThumb: iconUpload.thumbnailFor(icon.trim()),
         description: description.trim() || undefined,
         storeUrl: storeUrl.trim() || undefined,
+        trackingUrl: trackingUrl.trim() || undefined,
         active,
-        steps: steps.length ? steps : undefined,
+        steps: offerSteps.length ? offerSteps : undefined,
+        startsAt: schedule.startsAt,
+        endsAt: schedule.endsAt,
+        ...offerCaps,
+        category,
+        tags: textToTags(tagsText),
+        ...offerTargeting,
+        ...offerEligibility,
+        ...offerAttribution,
+        translations: cleanTranslations(translations),
       });
       setTitle('');
       setAmount('');
       setIcon('');
+      iconUpload.reset();
       setDescription('');
       setStoreUrl('');
+      setTrackingUrl('');
       setActive(true);
       setSteps([]);
-      setNewStep('');
+      setStartsAt('');
+      setEndsAt('');
+      setCaps(EMPTY_CAPS);
+      setCategory(undefined);
+      setTagsText('');
+      setTargeting(EMPTY_TARGETING);
+      setEligibility(EMPTY_ELIGIBILITY);
+      setAttribution(EMPTY_ATTRIBUTION);
+      setTranslations({});
     } catch (e: any) {
       Alert.alert('Error', e?.message || 'Failed to add offer');
     }
   };
 
+  // offer edit helpers
+  const beginEditOffer = (o: OfferItem) => {
+    setEditingOfferId(o.id);
+    setEditTitle(o.title);
+    setEditAmount(String(o.amount));
+    setEditIcon(o.icon || '');
+    setEditDescription(o.description || '');
+    setEditStoreUrl(o.storeUrl || '');
+    setEditTrackingUrl(o.trackingUrl || '');
+    setEditStartsAt(isoToLocalInput(o.startsAt));
+    setEditEndsAt(isoToLocalInput(o.endsAt));
+    setEditCaps(capsToDraft(o));
+    setEditCategory(o.category);
+    setEditTagsText(tagsToText(o.tags));
+    setEditTargeting({ platforms: o.platforms ?? [], minAppVersion: o.minAppVersion ?? '', maxAppVersion: o.maxAppVersion ?? '' });
+    setEditEligibility(eligibilityToDraft(o.eligibility));
+    setEditAttribution(attributionToDraft(o.attribution));
+    setEditTranslations(o.translations ?? {});
+    setEditSteps(stepsToDraft(o.steps));
+  };
+  const cancelEditOffer = () => {
+    setEditingOfferId(null);
+    setEditTitle('');
+    setEditAmount('');
+    setEditIcon('');
+    editIconUpload.reset();
+    setEditDescription('');
+    setEditStoreUrl('');
+    setEditTrackingUrl('');
+    setEditStartsAt('');
+    setEditEndsAt('');
+    setEditCaps(EMPTY_CAPS);
+    setEditCategory(undefined);
+    setEditTagsText('');
+    setEditTargeting(EMPTY_TARGETING);
+    setEditEligibility(EMPTY_ELIGIBILITY);
+    setEditAttribution(EMPTY_ATTRIBUTION);
+    setEditTranslations({});
+    setEditSteps([]);
+  };
+
   const onDeleteOffer = (id: string) => {
     deleteOffer(id);
   };
@@ -284,7 +515,7 @@ export default function AdminScreen() {
       if (!result.canceled) {
         const uri = result.assets?.[0]?.uri ?? '';
         if (!uri) return;
-        if (forEdit) setEditSlideImage(uri); else setImage(uri);
+        if (forEdit) editSlideUpload.start(uri); else slideUpload.start(uri);
       }
     } catch (e: any) {
       Alert.alert('Error', e?.message || 'Failed to pick image');
@@ -305,7 +536,7 @@ export default function AdminScreen() {
       });
       if (!result.canceled) {
         const uri = result.assets?.[0]?.uri ?? '';
-        if (uri) setIcon(uri);
+        if (uri) iconUpload.start(uri);
       }
     } catch (e: any) {
       Alert.alert('Error', e?.message || 'Failed to pick icon');
@@ -318,22 +549,17 @@ export default function AdminScreen() {
       const result = await ImagePicker.launchImageLibraryAsync({ mediaTypes: ImagePicker.MediaTypeOptions.Images, allowsEditing: true, aspect: [1,1], quality: 0.8 });
       if (!result.canceled) {
         const uri = result.assets?.[0]?.uri ?? '';
-        if (uri) setEditIcon(uri);
+        if (uri) editIconUpload.start(uri);
       }
     } catch (e: any) {
       Alert.alert('Error', e?.message || 'Failed to pick icon');
     }
   };
 
-  const addStep = () => {
-    const s = newStep.trim();
-    if (!s) return;
-    setSteps((prev: string[]) => [...prev, s]);
-    setNewStep('');
-  };
-  const removeStep = (index: number) => {
-    setSteps((prev: string[]) => prev.filter((_, i) => i !== index));
-  };
+  // While an upload runs (or after it failed) the form previews the picked file
+  const previewUri = (value: string, upload: ImageUploadState) => (
+    (upload.status === 'uploading' || upload.status === 'error') && upload.sourceUri ? upload.sourceUri : value
+  );
 
   // Helpers: safe date and image guards
   const safeFormatDate = (iso?: string | null) => {
@@ -390,6 +616,11 @@ export default function AdminScreen() {
                   <Text style={{ color: '#FFFFFF', fontWeight: '900' }}>Open Transactions Explore</Text>
                 </TouchableOpacity>
               </Link>
+              <Link href="/admin/review" asChild>
+                <TouchableOpacity style={{ marginTop: 8, backgroundColor: '#10B981', borderRadius: 10, paddingHorizontal: 12, paddingVertical: 12, alignItems: 'center' }}>
+                  <Text style={{ color: '#FFFFFF', fontWeight: '900' }}>Open Proof Review</Text>
+                </TouchableOpacity>
+              </Link>
             </View>
           </View>
         </AdminErrorBoundary>
@@ -422,6 +653,11 @@ export default function AdminScreen() {
                   <Text style={styles.btnText}>Open Transactions Explore</Text>
                 </TouchableOpacity>
               </Link>
+              <Link href="/admin/review" asChild>
+                <TouchableOpacity style={[styles.btn, { backgroundColor: '#10B981', paddingHorizontal: 12, paddingVertical: 12, marginTop: 8 }]}>
+                  <Text style={styles.btnText}>Open Proof Review</Text>
+                </TouchableOpacity>
+              </Link>
             </View>
           </View>
         </View>
@@ -439,16 +675,17 @@ export default function AdminScreen() {
             <TouchableOpacity onPress={() => pickSlideImage(false)} style={[styles.btn, { backgroundColor: '#4F46E5', paddingHorizontal: 12, paddingVertical: 10, marginRight: 12 }]}>
               <Text style={styles.btnText}>Pick</Text>
             </TouchableOpacity>
-            {!!image && isDisplayableImageUri(image) && (
+            {!!previewUri(image, slideUpload) && isDisplayableImageUri(previewUri(image, slideUpload)) && (
               <Image
-                source={{ uri: image }}
-                style={{ width: 80, height: 45, borderRadius: 8 }}
+                source={{ uri: previewUri(image, slideUpload) }}
+                style={{ width: 80, height: 45, borderRadius: 8, opacity: slideUpload.uploading ? 0.5 : 1 }}
                 onError={() => {
                   try { setImage(''); } catch {}
                 }}
               />
             )}
           </View>
+          <UploadStatus upload={slideUpload} onRetry={slideUpload.retry} isDark={isDark} />
 
           <Text style={[styles.label, isDark && { color: '#9CA3AF' }]}>Optional Link</Text>
           <TextInput
@@ -456,31 +693,38 @@ export default function AdminScreen() {
             onChangeText={setLink}
             placeholder="https://... or /offer/xyz"
             autoCapitalize="none"
-            style={[styles.input, isDark ? styles.inputDark : styles.inputLight]}
+            style={[styles.input, isDark ? styles.inputDark : styles.inputLight, !!validateLink(link) && styles.inputInvalid]}
             placeholderTextColor={isDark ? '#9CA3AF' : '#9AA0A6'}
           />
 
+          <ScheduleField label="Starts at" value={slideStartsAt} onChange={setSlideStartsAt} isDark={isDark} />
+          <ScheduleField label="Ends at" value={slideEndsAt} onChange={setSlideEndsAt} isDark={isDark} />
+
           <TouchableOpacity
             disabled={!canAdd}
             onPress={onAdd}
             style={[styles.btn, { backgroundColor: canAdd ? '#2563EB' : '#9CA3AF' }]}
           >
-            <Text style={styles.btnText}>Add Slide</Text>
+            <Text style={styles.btnText}>Save Slide as Draft</Text>
           </TouchableOpacity>
         </View>
 
+        <SlideOrderList slides={slides} isDark={isDark} />
+        <SlideAnalyticsPanel slides={slides} isDark={isDark} />
+
         {/* List slides */}
         <View style={{ marginTop: 20 }}>
           <Text style={[styles.subTitle, isDark && { color: '#E5E7EB' }]}>Existing Slides</Text>
           {slides.slice(0, visibleSlidesCount).map((s) => (
-            <View key={s.id} style={[styles.slideRow, isDark ? styles.rowDark : styles.rowLight]}>
+            <React.Fragment key={s.id}>
+            <View style={[styles.slideRow, isDark ? styles.rowDark : styles.rowLight]}>
               {editingSlideId === s.id ? (
                 <View style={{ flex: 1 }}>
                   <View style={{ flexDirection: 'row', alignItems: 'center' }}>
-                    {!!editSlideImage && isDisplayableImageUri(editSlideImage) && (
+                    {!!previewUri(editSlideImage, editSlideUpload) && isDisplayableImageUri(previewUri(editSlideImage, editSlideUpload)) && (
                       <Image
-                        source={{ uri: editSlideImage }}
-                        style={{ width: 80, height: 45, borderRadius: 8, marginRight: 10 }}
+                        source={{ uri: previewUri(editSlideImage, editSlideUpload) }}
+                        style={{ width: 80, height: 45, borderRadius: 8, marginRight: 10, opacity: editSlideUpload.uploading ? 0.5 : 1 }}
                         onError={() => {
                           try { setEditSlideImage(''); } catch {}
                         }}
@@ -490,27 +734,36 @@ export default function AdminScreen() {
                       <Text style={styles.btnText}>Replace Image</Text>
                     </TouchableOpacity>
                   </View>
+                  <UploadStatus upload={editSlideUpload} onRetry={editSlideUpload.retry} isDark={isDark} />
                   <TextInput
                     value={editSlideLink}
                     onChangeText={setEditSlideLink}
                     placeholder="https://... or /offer/xyz"
                     autoCapitalize="none"
-                    style={[styles.input, isDark ? styles.inputDark : styles.inputLight, { marginTop: 8 }]}
+                    style={[styles.input, isDark ? styles.inputDark : styles.inputLight, { marginTop: 8 }, !!validateLink(editSlideLink) && styles.inputInvalid]}
                     placeholderTextColor={isDark ? '#9CA3AF' : '#9AA0A6'}
                   />
+                  <ScheduleField label="Starts at" value={editSlideStartsAt} onChange={setEditSlideStartsAt} isDark={isDark} />
+                  <ScheduleField label="Ends at" value={editSlideEndsAt} onChange={setEditSlideEndsAt} isDark={isDark} />
                 </View>
               ) : (
                 <View style={{ flex: 1 }}>
                   <Text numberOfLines={1} style={[styles.slideText, isDark && { color: '#E5E7EB' }]}>{s.image}</Text>
+                  <StatusBadge status={s.status} />
                   {!!s.link && (
                     <Text numberOfLines={1} style={[styles.slideLink, isDark && { color: '#9CA3AF' }]}>{s.link}</Text>
                   )}
+                  {(s.startsAt || s.endsAt) && (
+                    <Text style={[styles.slideLink, isDark && { color: '#9CA3AF' }]}>
+                      {safeFormatDate(s.startsAt)} → {safeFormatDate(s.endsAt)}{getOfferWindowState(s) !== 'live' ? ` • ${getOfferWindowState(s) === 'scheduled' ? 'Scheduled' : 'Ended'}` : ''}
+                    </Text>
+                  )}
                 </View>
               )}
               <View>
                 {editingSlideId === s.id ? (
                   <>
-                    <TouchableOpacity onPress={saveEditSlide} style={[styles.btn, { backgroundColor: '#10B981', paddingHorizontal: 12, paddingVertical: 8 }]}>
+                    <TouchableOpacity onPress={saveEditSlide} disabled={editSlideUpload.uploading} style={[styles.btn, { backgroundColor: editSlideUpload.uploading ? '#9CA3AF' : '#10B981', paddingHorizontal: 12, paddingVertical: 8 }]}>
                       <Text style={styles.btnText}>Save</Text>
                     </TouchableOpacity>
                     <TouchableOpacity onPress={cancelEditSlide} style={[styles.btn, { backgroundColor: '#6B7280', paddingHorizontal: 12, paddingVertical: 8, marginTop: 8 }]}>
@@ -525,10 +778,20 @@ export default function AdminScreen() {
                     <TouchableOpacity onPress={() => onDelete(s.id)} style={[styles.deleteBtn, { marginTop: 8 }]}> 
                       <Text style={{ color: '#fff', fontWeight: '800' }}>Delete</Text>
                     </TouchableOpacity>
+                    <TouchableOpacity onPress={() => toggleHistory(`slide:${s.id}`)} style={[styles.btn, { backgroundColor: '#6B7280', paddingHorizontal: 12, paddingVertical: 8, marginTop: 8 }]}>
+                      <Text style={styles.btnText}>History</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity onPress={() => togglePreview(`slide:${s.id}`)} style={[styles.btn, { backgroundColor: '#4F46E5', paddingHorizontal: 12, paddingVertical: 8, marginTop: 8 }]}>
+                      <Text style={styles.btnText}>Preview</Text>
+                    </TouchableOpacity>
+                    <WorkflowControls status={s.status} onChange={(next) => setSlideStatus(s.id, next)} />
                   </>
                 )}
               </View>
             </View>
+            {historyFor === `slide:${s.id}` && <RevisionHistory entity="slide" entityId={s.id} isDark={isDark} />}
+            {previewFor === `slide:${s.id}` && <SlidePreview slide={s} isDark={isDark} />}
+            </React.Fragment>
           ))}
           {slides.length > visibleSlidesCount && (
             <TouchableOpacity onPress={() => setVisibleSlidesCount(c => c + 10)} style={[styles.btn, { backgroundColor: '#2563EB', paddingHorizontal: 12, paddingVertical: 10 }]}> 
@@ -544,6 +807,7 @@ export default function AdminScreen() {
         <View>
         <View style={{ height: 24 }} />
         <Text style={[styles.title, isDark && { color: '#E5E7EB' }]}>Offers Manager</Text>
+        <OfferImportExport offers={offers} isDark={isDark} />
 
         {/* Add Offer form */}
         <View style={{ marginTop: 12 }}>
@@ -573,11 +837,11 @@ export default function AdminScreen() {
               <Text style={styles.btnText}>Pick</Text>
             </TouchableOpacity>
           </View>
-          {!!icon && isDisplayableImageUri(icon) && (
+          {!!previewUri(icon, iconUpload) && isDisplayableImageUri(previewUri(icon, iconUpload)) && (
             <View style={{ flexDirection: 'row', alignItems: 'center' }}>
               <Image
-                source={{ uri: icon }}
-                style={{ width: 48, height: 48, borderRadius: 8 }}
+                source={{ uri: previewUri(icon, iconUpload) }}
+                style={{ width: 48, height: 48, borderRadius: 8, opacity: iconUpload.uploading ? 0.5 : 1 }}
                 onError={() => {
                   try { setIcon(''); } catch {}
                 }}
@@ -585,6 +849,7 @@ export default function AdminScreen() {
               <Text numberOfLines={1} style={[styles.slideLink, isDark && { color: '#9CA3AF' }, { marginLeft: 12 }]}>{icon}</Text>
             </View>
           )}
+          <UploadStatus upload={iconUpload} onRetry={iconUpload.retry} isDark={isDark} />
 
           <Text style={[styles.label, isDark && { color: '#9CA3AF' }]}>Description (optional)</Text>
           <TextInput
@@ -602,32 +867,32 @@ export default function AdminScreen() {
             onChangeText={setStoreUrl}
             placeholder="https://play.google.com/store/..."
             autoCapitalize="none"
-            style={[styles.input, isDark ? styles.inputDark : styles.inputLight]}
+            style={[styles.input, isDark ? styles.inputDark : styles.inputLight, !!validateLink(storeUrl, 'store') && styles.inputInvalid]}
             placeholderTextColor={isDark ? '#9CA3AF' : '#9AA0A6'}
           />
 
-          {/* Steps editor */}
-          <Text style={[styles.label, isDark && { color: '#9CA3AF' }]}>Steps to Complete</Text>
-          <View style={{ flexDirection: 'row', alignItems: 'center' }}>
-            <TextInput
-              value={newStep}
-              onChangeText={setNewStep}
-              placeholder="Add a step, e.g., Install the app"
-              style={[styles.input, { flex: 1 }, isDark ? styles.inputDark : styles.inputLight]}
-              placeholderTextColor={isDark ? '#9CA3AF' : '#9AA0A6'}
-            />
-            <TouchableOpacity onPress={addStep} style={[styles.btn, { backgroundColor: '#2563EB', paddingHorizontal: 12, paddingVertical: 12, marginLeft: 8 }]}>
-              <Text style={styles.btnText}>Add</Text>
-            </TouchableOpacity>
-          </View>
-          {steps.map((s, idx) => (
-            <View key={`${s}-${idx}`} style={[styles.slideRow, isDark ? styles.rowDark : styles.rowLight]}> 
-              <Text style={[styles.slideText, { flex: 1 }, isDark && { color: '#E5E7EB' }]} numberOfLines={2}>{idx + 1}. {s}</Text>
-              <TouchableOpacity onPress={() => removeStep(idx)} style={[styles.deleteBtn]}> 
-                <Text style={{ color: '#fff', fontWeight: '800' }}>Remove</Text>
-              </TouchableOpacity>
-            </View>
-          ))}
+          {/* Opened instead of the store link; conversions come back by postback with the click id */}
+          <Text style={[styles.label, isDark && { color: '#9CA3AF' }]}>Tracking Link (optional)</Text>
+          <TextInput
+            value={trackingUrl}
+            onChangeText={setTrackingUrl}
+            placeholder="https://tracker.example/click?sub={click_id}&uid={user_id}"
+            autoCapitalize="none"
+            style={[styles.input, isDark ? styles.inputDark : styles.inputLight, !!validateTrackingTemplate(trackingUrl) && styles.inputInvalid]}
+            placeholderTextColor={isDark ? '#9CA3AF' : '#9AA0A6'}
+          />
+
+          <StepsEditor value={steps} onChange={setSteps} isDark={isDark} />
+
+          {/* Schedule window: offer goes live/expires automatically */}
+          <ScheduleField label="Starts At" value={startsAt} onChange={setStartsAt} isDark={isDark} />
+          <ScheduleField label="Ends At" value={endsAt} onChange={setEndsAt} isDark={isDark} />
+          <CapsFields value={caps} onChange={setCaps} isDark={isDark} />
+          <CategoryTagsFields category={category} onCategoryChange={setCategory} tagsText={tagsText} onTagsTextChange={setTagsText} isDark={isDark} />
+          <TargetingFields value={targeting} onChange={setTargeting} isDark={isDark} />
+          <EligibilityFields value={eligibility} onChange={setEligibility} isDark={isDark} />
+          <AttributionFields value={attribution} onChange={setAttribution} steps={steps} isDark={isDark} />
+          <TranslationsEditor base={{ title, description, steps: draftToSteps(steps) ?? [] }} value={translations} onChange={setTranslations} isDark={isDark} />
 
           <View style={{ flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between' }}>
             <Text style={[styles.label, isDark && { color: '#9CA3AF' }]}>Active</Text>
@@ -639,15 +904,18 @@ export default function AdminScreen() {
             onPress={onAddOffer}
             style={[styles.btn, { backgroundColor: canAddOffer ? '#2563EB' : '#9CA3AF' }]}
           >
-            <Text style={styles.btnText}>Add Offer</Text>
+            <Text style={styles.btnText}>Save as Draft</Text>
           </TouchableOpacity>
         </View>
 
+        <OfferClicksPanel offers={offers} isDark={isDark} />
+
         {/* List offers */}
         <View style={{ marginTop: 20 }}>
           <Text style={[styles.subTitle, isDark && { color: '#E5E7EB' }]}>Existing Offers</Text>
           {offers.slice(0, visibleOffersCount).map((o) => (
-            <View key={o.id} style={[styles.slideRow, isDark ? styles.rowDark : styles.rowLight]}>
+            <React.Fragment key={o.id}>
+            <View style={[styles.slideRow, isDark ? styles.rowDark : styles.rowLight]}>
               {editingOfferId === o.id ? (
                 <View style={{ flex: 1 }}>
                   <TextInput value={editTitle} onChangeText={setEditTitle} placeholder="Title" style={[styles.input, isDark ? styles.inputDark : styles.inputLight]} placeholderTextColor={isDark ? '#9CA3AF' : '#9AA0A6'} />
@@ -658,22 +926,71 @@ export default function AdminScreen() {
                       <Text style={styles.btnText}>Pick</Text>
                     </TouchableOpacity>
                   </View>
-                  {!!editIcon && isDisplayableImageUri(editIcon) && (
+                  {!!previewUri(editIcon, editIconUpload) && isDisplayableImageUri(previewUri(editIcon, editIconUpload)) && (
                     <Image
-                      source={{ uri: editIcon }}
-                      style={{ width: 40, height: 40, borderRadius: 8, marginTop: 8 }}
+                      source={{ uri: previewUri(editIcon, editIconUpload) }}
+                      style={{ width: 40, height: 40, borderRadius: 8, marginTop: 8, opacity: editIconUpload.uploading ? 0.5 : 1 }}
                       onError={() => {
                         try { setEditIcon(''); } catch {}
                       }}
                     />
                   )}
+                  <UploadStatus upload={editIconUpload} onRetry={editIconUpload.retry} isDark={isDark} />
                   <TextInput value={editDescription} onChangeText={setEditDescription} placeholder="Description" multiline style={[styles.input, { minHeight: 72 }, isDark ? styles.inputDark : styles.inputLight, { marginTop: 8 }]} placeholderTextColor={isDark ? '#9CA3AF' : '#9AA0A6'} />
-                  <TextInput value={editStoreUrl} onChangeText={setEditStoreUrl} placeholder="Store URL" autoCapitalize="none" style={[styles.input, isDark ? styles.inputDark : styles.inputLight, { marginTop: 8 }]} placeholderTextColor={isDark ? '#9CA3AF' : '#9AA0A6'} />
+                  <TextInput value={editStoreUrl} onChangeText={setEditStoreUrl} placeholder="Store URL" autoCapitalize="none" style={[styles.input, isDark ? styles.inputDark : styles.inputLight, { marginTop: 8 }, !!validateLink(editStoreUrl, 'store') && styles.inputInvalid]} placeholderTextColor={isDark ? '#9CA3AF' : '#9AA0A6'} />
+                  <TextInput value={editTrackingUrl} onChangeText={setEditTrackingUrl} placeholder="Tracking URL with {click_id}" autoCapitalize="none" style={[styles.input, isDark ? styles.inputDark : styles.inputLight, { marginTop: 8 }, !!validateTrackingTemplate(editTrackingUrl) && styles.inputInvalid]} placeholderTextColor={isDark ? '#9CA3AF' : '#9AA0A6'} />
+                  <StepsEditor value={editSteps} onChange={setEditSteps} isDark={isDark} />
+                  <ScheduleField label="Starts At" value={editStartsAt} onChange={setEditStartsAt} isDark={isDark} />
+                  <ScheduleField label="Ends At" value={editEndsAt} onChange={setEditEndsAt} isDark={isDark} />
+                  <CapsFields value={editCaps} onChange={setEditCaps} isDark={isDark} />
+                  <CategoryTagsFields category={editCategory} onCategoryChange={setEditCategory} tagsText={editTagsText} onTagsTextChange={setEditTagsText} isDark={isDark} />
+                  <TargetingFields value={editTargeting} onChange={setEditTargeting} isDark={isDark} />
+                  <EligibilityFields value={editEligibility} onChange={setEditEligibility} isDark={isDark} />
+                  <AttributionFields value={editAttribution} onChange={setEditAttribution} steps={editSteps} isDark={isDark} />
+                  <TranslationsEditor base={{ title: editTitle, description: editDescription, steps: draftToSteps(editSteps) ?? [] }} value={editTranslations} onChange={setEditTranslations} isDark={isDark} />
                 </View>
               ) : (
                 <View style={{ flex: 1 }}>
                   <Text numberOfLines={1} style={[styles.slideText, isDark && { color: '#E5E7EB' }]}>{o.title}</Text>
-                  <Text style={[styles.slideLink, isDark && { color: '#9CA3AF' }]}>₹{o.amount} • {o.active !== false ? 'Active' : 'Inactive'}</Text>
+                  <StatusBadge status={o.status} />
+                  <Text style={[styles.slideLink, isDark && { color: '#9CA3AF' }]}>₹{o.amount} • {o.active !== false ? 'Active' : 'Inactive'}{o.active !== false && getOfferWindowState(o) !== 'live' ? ` • ${getOfferWindowState(o) === 'scheduled' ? 'Scheduled' : 'Ended'}` : ''}</Text>
+                  {(!!o.category || !!o.tags?.length) && (
+                    <Text style={[styles.slideLink, isDark && { color: '#9CA3AF' }]} numberOfLines={1}>
+                      {[OFFER_CATEGORIES.find((c) => c.id === o.category)?.label, ...(o.tags ?? []).map((t) => `#${t}`)].filter(Boolean).join(' • ')}
+                    </Text>
+                  )}
+                  {(!!o.platforms?.length || !!o.minAppVersion || !!o.maxAppVersion) && (
+                    <Text style={[styles.slideLink, isDark && { color: '#9CA3AF' }]} numberOfLines={1}>
+                      {[o.platforms?.length ? o.platforms.join('/') : 'All platforms', o.minAppVersion ? `≥ v${o.minAppVersion}` : '', o.maxAppVersion ? `≤ v${o.maxAppVersion}` : ''].filter(Boolean).join(' • ')}
+                    </Text>
+                  )}
+                  {!!o.eligibility?.length && (
+                    <Text style={[styles.slideLink, isDark && { color: '#9CA3AF' }]} numberOfLines={1}>
+                      {o.eligibility.map(describeEligibilityRule).join(' • ')}
+                    </Text>
+                  )}
+                  {!!o.attribution && (
+                    <Text style={[styles.slideLink, isDark && { color: '#9CA3AF' }]} numberOfLines={1}>
+                      {getAttributionAdapter(o.attribution.network)?.label ?? o.attribution.network} postbacks • {o.attribution.completionEvent || getAttributionAdapter(o.attribution.network)?.defaultEvent}
+                      {o.attribution.stepEvents ? ` • ${Object.keys(o.attribution.stepEvents).length} milestone event(s)` : ''}
+                    </Text>
+                  )}
+                  {missingTranslations(o).length > 0 && (
+                    <Text style={[styles.slideLink, { color: '#B45309' }]} numberOfLines={1}>
+                      Missing translation: {missingTranslations(o).join(', ')}
+                    </Text>
+                  )}
+                  {isMultiStageOffer(o) && (
+                    <Text style={[styles.slideLink, isDark && { color: '#9CA3AF' }]} numberOfLines={1}>
+                      Milestones: {getMilestones(o).map((m) => `₹${m.reward}`).join(' + ')}
+                    </Text>
+                  )}
+                  {hasOfferCaps(o) && (
+                    <Text style={[styles.slideLink, isDark && { color: '#9CA3AF' }]}>{formatCapsSummary(o, offerUsage[o.id])}</Text>
+                  )}
+                  {(!!o.startsAt || !!o.endsAt) && (
+                    <Text style={[styles.slideLink, isDark && { color: '#9CA3AF' }]}>{safeFormatDate(o.startsAt)} → {safeFormatDate(o.endsAt)}</Text>
+                  )}
                 </View>
               )}
               <View style={{ alignItems: 'flex-end' }}>
@@ -684,37 +1001,73 @@ export default function AdminScreen() {
                 {editingOfferId === o.id ? (
                   <>
                     <TouchableOpacity
+                      disabled={editIconUpload.uploading}
                       onPress={() => {
+                        if (!readLink(editStoreUrl, 'store')) return;
+                        if (!readTrackingUrl(editTrackingUrl)) return;
+                        const offerSteps = readSteps(editSteps);
+                        if (!offerSteps) return;
+                        const schedule = readSchedule(editStartsAt, editEndsAt);
+                        if (!schedule) return;
+                        const offerCaps = readCaps(editCaps);
+                        if (!offerCaps) return;
+                        const offerTargeting = readTargeting(editTargeting);
+                        if (!offerTargeting) return;
+                        const offerEligibility = readEligibility(editEligibility);
+                        if (!offerEligibility) return;
+                        const offerAttribution = readAttribution(editAttribution, editSteps);
+                        if (!offerAttribution) return;
                         updateOffer(o.id, {
                           title: editTitle.trim() || o.title,
-                          amount: Number(editAmount) || o.amount,
+                          amount: draftRewardTotal(editSteps) || Number(editAmount) || o.amount,
+                          steps: offerSteps,
                           icon: editIcon || o.icon,
+                          ...(editIcon && editIcon !== o.icon ? { iconThumb: editIconUpload.thumbnailFor(editIcon) } : {}),
                           description: editDescription.trim() || o.description,
                           storeUrl: editStoreUrl.trim() || o.storeUrl,
+                          trackingUrl: editTrackingUrl.trim() || undefined,
+                          startsAt: schedule.startsAt,
+                          endsAt: schedule.endsAt,
+                          ...offerCaps,
+                          category: editCategory,
+                          tags: textToTags(editTagsText),
+                          ...offerTargeting,
+                          ...offerEligibility,
+                          ...offerAttribution,
+                          translations: cleanTranslations(editTranslations),
                         });
-                        setEditingOfferId(null);
-                        setEditTitle(''); setEditAmount(''); setEditIcon(''); setEditDescription(''); setEditStoreUrl('');
+                        cancelEditOffer();
                       }}
-                      style={[styles.btn, { backgroundColor: '#10B981', paddingHorizontal: 12, paddingVertical: 8 }]}
+                      style={[styles.btn, { backgroundColor: editIconUpload.uploading ? '#9CA3AF' : '#10B981', paddingHorizontal: 12, paddingVertical: 8 }]}
                     >
                       <Text style={styles.btnText}>Save</Text>
                     </TouchableOpacity>
-                    <TouchableOpacity onPress={() => { setEditingOfferId(null); setEditTitle(''); setEditAmount(''); setEditIcon(''); setEditDescription(''); setEditStoreUrl(''); }} style={[styles.btn, { backgroundColor: '#6B7280', paddingHorizontal: 12, paddingVertical: 8, marginTop: 8 }]}>
+                    <TouchableOpacity onPress={cancelEditOffer} style={[styles.btn, { backgroundColor: '#6B7280', paddingHorizontal: 12, paddingVertical: 8, marginTop: 8 }]}>
                       <Text style={styles.btnText}>Cancel</Text>
                     </TouchableOpacity>
                   </>
                 ) : (
                   <>
-                    <TouchableOpacity onPress={() => { setEditingOfferId(o.id); setEditTitle(o.title); setEditAmount(String(o.amount)); setEditIcon(o.icon || ''); setEditDescription(o.description || ''); setEditStoreUrl(o.storeUrl || ''); }} style={[styles.btn, { backgroundColor: '#2563EB', paddingHorizontal: 12, paddingVertical: 8 }]}>
+                    <TouchableOpacity onPress={() => beginEditOffer(o)} style={[styles.btn, { backgroundColor: '#2563EB', paddingHorizontal: 12, paddingVertical: 8 }]}>
                       <Text style={styles.btnText}>Edit</Text>
                     </TouchableOpacity>
                     <TouchableOpacity onPress={() => onDeleteOffer(o.id)} style={[styles.deleteBtn, { marginTop: 8 }]}> 
                       <Text style={{ color: '#fff', fontWeight: '800' }}>Delete</Text>
                     </TouchableOpacity>
+                    <TouchableOpacity onPress={() => toggleHistory(`offer:${o.id}`)} style={[styles.btn, { backgroundColor: '#6B7280', paddingHorizontal: 12, paddingVertical: 8, marginTop: 8 }]}>
+                      <Text style={styles.btnText}>History</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity onPress={() => togglePreview(`offer:${o.id}`)} style={[styles.btn, { backgroundColor: '#4F46E5', paddingHorizontal: 12, paddingVertical: 8, marginTop: 8 }]}>
+                      <Text style={styles.btnText}>Preview</Text>
+                    </TouchableOpacity>
+                    <WorkflowControls status={o.status} onChange={(next) => setOfferStatus(o.id, next)} />
                   </>
                 )}
               </View>
             </View>
+            {historyFor === `offer:${o.id}` && <RevisionHistory entity="offer" entityId={o.id} isDark={isDark} />}
+            {previewFor === `offer:${o.id}` && <OfferPreview offer={o} isDark={isDark} />}
+            </React.Fragment>
           ))}
           {offers.length > visibleOffersCount && (
             <TouchableOpacity onPress={() => setVisibleOffersCount(c => c + 10)} style={[styles.btn, { backgroundColor: '#2563EB', paddingHorizontal: 12, paddingVertical: 10 }]}> 
@@ -739,11 +1092,11 @@ export default function AdminScreen() {
                 <Text style={[styles.slideLink, isDark && { color: '#9CA3AF' }]}>Toggle on to render transactions (disabled by default on device to prevent crashes).</Text>
               )}
               {showTxSection && (
-              <View style={{ flexDirection: 'row', alignItems: 'center' }}>
+              <View style={{ flexDirection: 'row', flexWrap: 'wrap', alignItems: 'center', rowGap: 8 }}>
                 <Text style={[styles.label, isDark && { color: '#9CA3AF' }]}>Filter</Text>
-                {(['all','pending','paid','rejected'] as const).map((f, i) => (
-                  <TouchableOpacity key={f} onPress={() => setTxFilter(f)} style={[styles.chip, { marginLeft: i === 0 ? 8 : 8 }, txFilter === f ? styles.chipActive : (isDark ? styles.chipDark : styles.chipLight)]}>
-                    <Text style={[styles.chipText, txFilter === f && { color: '#fff' }]}>{f}</Text>
+                {(['all', ...TRANSACTION_STATUSES] as const).map((f) => (
+                  <TouchableOpacity key={f} onPress={() => setTxFilter(f)} style={[styles.chip, { marginLeft: 8 }, txFilter === f ? styles.chipActive : (isDark ? styles.chipDark : styles.chipLight)]}>
+                    <Text style={[styles.chipText, txFilter === f && { color: '#fff' }]}>{f === 'all' ? 'all' : TRANSACTION_STATUS_LABELS[f]}</Text>
                   </TouchableOpacity>
                 ))}
               </View>
@@ -787,7 +1140,7 @@ export default function AdminScreen() {
                       <View key={t.id} style={[styles.slideRow, isDark ? styles.rowDark : styles.rowLight]}> 
                         <View style={{ flex: 1 }}>
                           <Text numberOfLines={1} style={[styles.slideText, isDark && { color: '#E5E7EB' }]}> 
-                            {t.offer_title ?? 'Task'} • ₹{typeof t.amount === 'number' ? t.amount : Number(t.amount) || 0} • {t.status}
+                            {t.offer_title ?? 'Task'}{t.step_title ? ` — ${t.step_title}` : ''} • ₹{typeof t.amount === 'number' ? t.amount : Number(t.amount) || 0} • {TRANSACTION_STATUS_LABELS[t.status]}
                           </Text>
                           <Text style={[styles.slideLink, isDark && { color: '#9CA3AF' }]}> 
                             {safeFormatDate(t.created_at)}
@@ -801,15 +1154,18 @@ export default function AdminScreen() {
                           />
                         </View>
                         <View style={{ alignItems: 'flex-end' }}>
-                          <TouchableOpacity onPress={() => updateTransactionStatus(t.id, 'pending', { notes: noteDrafts[t.id] ?? t.notes ?? null, reviewed_by: user?.id ?? null })} style={[styles.btn, { backgroundColor: '#6B7280', paddingHorizontal: 10, paddingVertical: 8 }]}> 
-                            <Text style={styles.btnText}>Pending</Text>
-                          </TouchableOpacity>
-                          <TouchableOpacity onPress={() => updateTransactionStatus(t.id, 'rejected', { notes: noteDrafts[t.id] ?? t.notes ?? null, reviewed_by: user?.id ?? null })} style={[styles.btn, { backgroundColor: '#EF4444', paddingHorizontal: 10, paddingVertical: 8, marginTop: 6 }]}> 
-                            <Text style={styles.btnText}>Reject</Text>
-                          </TouchableOpacity>
-                          <TouchableOpacity onPress={() => updateTransactionStatus(t.id, 'paid', { notes: noteDrafts[t.id] ?? t.notes ?? null, reviewed_by: user?.id ?? null })} style={[styles.btn, { backgroundColor: '#10B981', paddingHorizontal: 10, paddingVertical: 8, marginTop: 6 }]}> 
-                            <Text style={styles.btnText}>Mark Paid</Text>
-                          </TouchableOpacity>
+                          {TX_ACTIONS.filter((a) => a.status !== t.status && canTransition(t.status, a.status)).map((a, i) => (
+                            <TouchableOpacity
+                              key={a.status}
+                              onPress={() => {
+                                updateTransactionStatus(t.id, a.status, { notes: noteDrafts[t.id] ?? t.notes ?? null, reviewed_by: user?.id ?? null })
+                                  .catch((e: any) => Alert.alert('Error', e?.message || 'Failed to update transaction'));
+                              }}
+                              style={[styles.btn, { backgroundColor: a.color, paddingHorizontal: 10, paddingVertical: 8, marginTop: i === 0 ? 0 : 6 }]}
+                            >
+                              <Text style={styles.btnText}>{a.label}</Text>
+                            </TouchableOpacity>
+                          ))}
                         </View>
                       </View>
                     );
@@ -840,6 +1196,27 @@ export default function AdminScreen() {
     </SafeAreaView>
   );
 }
+
+// Status changes offered per transaction row, when the lifecycle allows them
+const TX_ACTIONS: { status: TransactionStatus; label: string; color: string }[] = [
+  { status: 'started', label: 'Restart', color: '#6B7280' },
+  { status: 'approved', label: 'Approve', color: '#059669' },
+  { status: 'paid', label: 'Mark Paid', color: '#10B981' },
+  { status: 'rejected', label: 'Reject', color: '#EF4444' },
+  { status: 'reversed', label: 'Reverse', color: '#B91C1C' },
+];
+
+// e.g. "Remaining ₹1200 of ₹2500 • 130/500 installs • 12/50 today"
+function formatCapsSummary(o: OfferItem, usage?: OfferUsage) {
+  const u = usage ?? { count: 0, countToday: 0, spent: 0, spentToday: 0 };
+  const parts: string[] = [];
+  const left = remainingBudget(o, u);
+  if (left !== null) parts.push(`Remaining ₹${left} of ₹${o.budgetTotal}`);
+  if (o.budgetDaily) parts.push(`₹${u.spentToday}/₹${o.budgetDaily} today`);
+  if (o.capTotal) parts.push(`${u.count}/${o.capTotal} installs`);
+  if (o.capDaily) parts.push(`${u.countToday}/${o.capDaily} today`);
+  return parts.join(' • ');
+}
 const styles = StyleSheet.create({
   safeArea: {
     flex: 1,
@@ -869,6 +1246,7 @@ const styles = StyleSheet.create({
   },
   inputLight: { backgroundColor: '#FFFFFF', borderColor: '#E5E7EB' },
   inputDark: { backgroundColor: '#111827', borderColor: '#374151', color: '#E5E7EB' },
+  inputInvalid: { borderColor: '#EF4444' },
   btn: {
     paddingVertical: 12,
     borderRadius: 10,
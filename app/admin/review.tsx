@@ -0,0 +1,363 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { ActivityIndicator, Alert, Image, ScrollView, StyleSheet, Text, TextInput, TouchableOpacity, View, useColorScheme } from 'react-native';
+import { router, useLocalSearchParams, type Href } from 'expo-router';
+import { useAuth } from '@/hooks/useAuth';
+import { useIsAdmin, useProfile } from '@/hooks/useProfile';
+import { useProofUrls } from '@/hooks/useProofUrls';
+import { subscribeOfferById, type OfferItem } from '@/lib/content';
+import {
+  fetchNextForReview,
+  fetchReviewQueueCount,
+  fetchTransactionById,
+  fetchTransactions,
+  canTransition,
+  OPEN_STATUSES,
+  TRANSACTION_STATUS_LABELS,
+  updateTransactionStatus,
+  type Transaction,
+  type TransactionStatus,
+} from '@/lib/transactions';
+import { ProofViewer } from '@/components/admin/ProofViewer';
+import { DuplicateProofNotice } from '@/components/admin/DuplicateProofNotice';
+import { fetchProofDuplicates, type ProofDuplicate } from '@/lib/proofHash';
+import { isLocalPostback, simulatePostback } from '@/lib/tracking';
+
+const STATUS_COLORS: Record<TransactionStatus, string> = {
+  started: '#6B7280',
+  submitted: '#2563EB',
+  under_review: '#7C3AED',
+  approved: '#059669',
+  paid: '#10B981',
+  rejected: '#EF4444',
+  expired: '#9CA3AF',
+  reversed: '#B91C1C',
+};
+
+// Decisions a reviewer can take, offered when the lifecycle allows them
+const DECISIONS: { status: TransactionStatus; label: string; color: string }[] = [
+  { status: 'rejected', label: 'Reject', color: '#EF4444' },
+  { status: 'approved', label: 'Approve', color: '#10B981' },
+  { status: 'reversed', label: 'Reverse', color: '#B91C1C' },
+  { status: 'paid', label: 'Mark paid', color: '#059669' },
+];
+
+function formatDate(iso?: string | null) {
+  if (!iso) return '—';
+  const ms = Date.parse(iso);
+  return Number.isNaN(ms) ? '—' : new Date(ms).toLocaleString();
+}
+
+// Proof review: one submission at a time, with the offer's steps next to the screenshots,
+// the user's payout details and history, and a queue of submissions waiting for review
+export default function ProofReviewScreen() {
+  const colorScheme = useColorScheme();
+  const isDark = colorScheme === 'dark';
+  const { id } = useLocalSearchParams<{ id?: string }>();
+  const { user } = useAuth();
+  const { isAdmin, loading: adminLoading } = useIsAdmin();
+
+  const [tx, setTx] = useState<Transaction | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [offer, setOffer] = useState<OfferItem | null>(null);
+  const [history, setHistory] = useState<Transaction[]>([]);
+  const [queueCount, setQueueCount] = useState<number | null>(null);
+  const [notes, setNotes] = useState('');
+  const [acting, setActing] = useState(false);
+  const [viewerIndex, setViewerIndex] = useState<number | null>(null);
+  const [duplicates, setDuplicates] = useState<ProofDuplicate[]>([]);
+  // Submissions skipped in this session, so "Next" does not bring them straight back
+  const skipped = useRef<string[]>([]);
+  // Id already on screen; the route param follows it without triggering another load
+  const shownId = useRef<string | null>(null);
+  const { profile } = useProfile(tx?.user_id);
+  const proofUrls = useProofUrls(tx?.proof_urls);
+
+  const refreshQueueCount = useCallback(() => {
+    fetchReviewQueueCount().then(setQueueCount).catch(() => setQueueCount(null));
+  }, []);
+
+  const show = useCallback((next: Transaction | null) => {
+    shownId.current = next?.id ?? null;
+    setTx(next);
+    setNotes(next?.notes ?? '');
+    setViewerIndex(null);
+    if (next) router.setParams({ id: next.id });
+    // Opening a submission picks it up for review
+    if (next?.status === 'submitted') {
+      updateTransactionStatus(next.id, 'under_review')
+        .then((updated) => { if (shownId.current === updated.id) setTx(updated); })
+        .catch((e: any) => console.warn('[review] pick up error', e?.message || e));
+    }
+  }, []);
+
+  // Open the requested submission, or the oldest one waiting
+  useEffect(() => {
+    if (!isAdmin) return;
+    if (id && id === shownId.current) return;
+    let cancelled = false;
+    setLoading(true);
+    (id ? fetchTransactionById(String(id)) : fetchNextForReview(skipped.current))
+      .then((next) => { if (!cancelled) show(next); })
+      .catch((e: any) => { if (!cancelled) Alert.alert('Error', e?.message || 'Failed to load transaction'); })
+      .finally(() => { if (!cancelled) setLoading(false); });
+    refreshQueueCount();
+    return () => { cancelled = true; };
+  }, [id, isAdmin, show, refreshQueueCount]);
+
+  useEffect(() => {
+    setOffer(null);
+    if (!tx?.offer_id) return;
+    return subscribeOfferById(tx.offer_id, setOffer);
+  }, [tx?.offer_id]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setHistory([]);
+    if (!tx?.user_id) return;
+    fetchTransactions({ userId: tx.user_id, pageSize: 10 })
+      .then(({ items }) => { if (!cancelled) setHistory(items); })
+      .catch((e: any) => console.warn('[review] history error', e?.message || e));
+    return () => { cancelled = true; };
+  }, [tx?.user_id, tx?.id]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setDuplicates([]);
+    if (!tx?.id || !tx.proof_urls.length) return;
+    fetchProofDuplicates([tx.id])
+      .then((map) => { if (!cancelled) setDuplicates(map[tx.id] ?? []); })
+      .catch((e: any) => console.warn('[review] duplicates error', e?.message || e));
+    return () => { cancelled = true; };
+  }, [tx?.id, tx?.proof_urls]);
+
+  const goNext = useCallback(async () => {
+    if (tx) skipped.current = [...skipped.current.filter((s) => s !== tx.id), tx.id];
+    setLoading(true);
+    try {
+      const next = await fetchNextForReview(skipped.current);
+      if (!next) {
+        Alert.alert('Queue empty', 'No more submissions are waiting for review.');
+        return;
+      }
+      show(next);
+    } catch (e: any) {
+      Alert.alert('Error', e?.message || 'Failed to load the next submission');
+    } finally {
+      setLoading(false);
+      refreshQueueCount();
+    }
+  }, [tx, show, refreshQueueCount]);
+
+  const decide = async (status: TransactionStatus) => {
+    if (!tx) return;
+    const note = notes.trim();
+    // The user sees the rejection note next to their proof, so it must say what to fix
+    if ((status === 'rejected' || status === 'reversed') && !note) {
+      Alert.alert('Add a note', `Tell the user why the conversion was ${status}.`);
+      return;
+    }
+    setActing(true);
+    try {
+      const updated = await updateTransactionStatus(tx.id, status, { notes: note || null, reviewed_by: user?.id ?? null });
+      setTx(updated);
+      await goNext();
+    } catch (e: any) {
+      Alert.alert('Error', e?.message || 'Failed to update transaction');
+    } finally {
+      setActing(false);
+    }
+  };
+
+  // Development stand-in for the advertiser's conversion call (POSTBACK_MODE=local)
+  const simulate = async () => {
+    if (!tx?.click_id) return;
+    setActing(true);
+    try {
+      const result = await simulatePostback(tx.click_id);
+      if (!result.ok) {
+        Alert.alert('Postback refused', `${result.code}: ${result.message}`);
+        return;
+      }
+      const updated = await fetchTransactionById(tx.id);
+      if (updated) setTx(updated);
+      Alert.alert(
+        'Postback accepted',
+        result.status === 'ignored'
+          ? `The offer does not count "${result.event.eventName}" events.`
+          : result.duplicate ? `Already ${result.status}.` : `Transaction marked ${result.status}.`,
+      );
+    } catch (e: any) {
+      Alert.alert('Error', e?.message || 'Failed to simulate postback');
+    } finally {
+      setActing(false);
+      refreshQueueCount();
+    }
+  };
+
+  if (adminLoading) return null;
+  if (!isAdmin) {
+    return (
+      <SafeAreaView style={[styles.safeArea, isDark && { backgroundColor: '#0B0F14' }]}>
+        <View style={styles.container}>
+          <Text style={[styles.pageTitle, isDark && { color: '#E5E7EB' }]}>Proof Review</Text>
+          <Text style={[styles.sub, { textAlign: 'center' }]}>You do not have admin access.</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const steps = offer?.steps ?? [];
+  const paidCount = history.filter((h) => h.status === 'paid').length;
+  const decisions = tx ? DECISIONS.filter((d) => d.status !== tx.status && canTransition(tx.status, d.status)) : [];
+  const rejectedCount = history.filter((h) => h.status === 'rejected').length;
+  const card = [styles.card, isDark ? styles.cardDark : styles.cardLight];
+  const text = isDark ? { color: '#E5E7EB' } : null;
+
+  return (
+    <SafeAreaView style={[styles.safeArea, isDark && { backgroundColor: '#0B0F14' }]}>
+      <ScrollView contentContainerStyle={[styles.container, isDark && { backgroundColor: '#0B0F14' }]}>
+        <Text style={[styles.pageTitle, isDark && { color: '#E5E7EB' }]}>Proof Review</Text>
+        <Text style={[styles.sub, { textAlign: 'center' }]}>
+          {queueCount === null ? ' ' : `${queueCount} submission${queueCount === 1 ? '' : 's'} waiting`}
+        </Text>
+
+        {loading ? (
+          <ActivityIndicator style={{ marginTop: 24 }} color={isDark ? '#E5E7EB' : '#111827'} />
+        ) : !tx ? (
+          <Text style={[styles.sub, { textAlign: 'center', marginTop: 24 }]}>Nothing to review right now.</Text>
+        ) : (
+          <>
+            {/* Transaction */}
+            <View style={card}>
+              <View style={styles.rowBetween}>
+                <Text style={[styles.title, text, { flex: 1 }]} numberOfLines={2}>
+                  {tx.offer_title || 'Task'}{tx.step_title ? ` — ${tx.step_title}` : ''}
+                </Text>
+                <Text style={[styles.badge, { backgroundColor: STATUS_COLORS[tx.status] }]}>{TRANSACTION_STATUS_LABELS[tx.status]}</Text>
+              </View>
+              <Text style={styles.sub}>₹{Number(tx.amount) || 0} • started {formatDate(tx.created_at)}</Text>
+              <Text style={styles.sub}>Last update {formatDate(tx.updated_at)}</Text>
+              {!!tx.reviewed_at && <Text style={styles.sub}>Reviewed {formatDate(tx.reviewed_at)}</Text>}
+              {!!tx.click_id && <Text style={styles.sub} selectable>Click {tx.click_id}</Text>}
+              {isLocalPostback && !!tx.click_id && OPEN_STATUSES.includes(tx.status) && (
+                <TouchableOpacity disabled={acting} onPress={simulate} style={[styles.btn, { marginTop: 6, backgroundColor: acting ? '#9CA3AF' : '#7C3AED' }]}>
+                  <Text style={styles.btnText}>Simulate postback</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+
+            {duplicates.length > 0 && <DuplicateProofNotice duplicates={duplicates} />}
+
+            {/* Steps and proof side by side */}
+            <View style={styles.split}>
+              <View style={[...card, { flex: 1 }]}>
+                <Text style={[styles.label, text]}>Steps</Text>
+                {steps.length === 0 && <Text style={styles.sub}>{offer ? 'No steps listed.' : 'Offer not found.'}</Text>}
+                {steps.map((s, i) => {
+                  const current = !!tx.step_id && s.id === tx.step_id;
+                  return (
+                    <View key={s.id} style={[styles.step, current && styles.stepCurrent]}>
+                      <Text style={[styles.stepText, text, current && { color: '#1E3A8A' }]}>
+                        {i + 1}. {s.text}{s.reward ? ` (₹${s.reward})` : ''}
+                      </Text>
+                    </View>
+                  );
+                })}
+              </View>
+              <View style={[...card, { flex: 1 }]}>
+                <Text style={[styles.label, text]}>Proof ({proofUrls.length})</Text>
+                {proofUrls.length === 0 && <Text style={styles.sub}>No screenshots attached.</Text>}
+                <View style={styles.thumbs}>
+                  {proofUrls.map((url, i) => (
+                    <TouchableOpacity key={url} onPress={() => setViewerIndex(i)} accessibilityLabel={`Open screenshot ${i + 1}`}>
+                      <Image source={{ uri: url }} style={styles.thumb} />
+                    </TouchableOpacity>
+                  ))}
+                </View>
+                {proofUrls.length > 0 && <Text style={styles.sub}>Tap to zoom</Text>}
+              </View>
+            </View>
+
+            {/* User */}
+            <View style={card}>
+              <Text style={[styles.label, text]}>User</Text>
+              <Text style={[styles.value, text]}>{profile?.full_name || 'Unknown user'}</Text>
+              <Text style={styles.sub} selectable>Phone: {profile?.phone || '—'}</Text>
+              <Text style={styles.sub} selectable>UPI: {profile?.upi_id || '—'}</Text>
+              <Text style={styles.sub} selectable>{tx.user_id}</Text>
+              <Text style={[styles.label, text, { marginTop: 10 }]}>Recent history ({paidCount} paid, {rejectedCount} rejected)</Text>
+              {history.map((h) => (
+                <View key={h.id} style={styles.rowBetween}>
+                  <Text style={[styles.historyText, text, h.id === tx.id && { fontWeight: '900' }]} numberOfLines={1}>
+                    {h.offer_title || 'Task'}{h.step_title ? ` — ${h.step_title}` : ''} • ₹{Number(h.amount) || 0}
+                  </Text>
+                  <Text style={[styles.historyStatus, { color: STATUS_COLORS[h.status] }]}>{TRANSACTION_STATUS_LABELS[h.status]}</Text>
+                </View>
+              ))}
+            </View>
+
+            {/* Decision */}
+            <View style={card}>
+              <Text style={[styles.label, text]}>Notes</Text>
+              <TextInput
+                value={notes}
+                onChangeText={setNotes}
+                placeholder="Shown to the user when rejected"
+                multiline
+                style={[styles.input, isDark ? styles.inputDark : styles.inputLight]}
+                placeholderTextColor={isDark ? '#9CA3AF' : '#9AA0A6'}
+              />
+              <View style={[styles.rowBetween, { marginTop: 10 }]}>
+                {decisions.map((d) => (
+                  <TouchableOpacity key={d.status} disabled={acting} onPress={() => decide(d.status)} style={[styles.btn, { flex: 1, backgroundColor: acting ? '#9CA3AF' : d.color }]}>
+                    <Text style={styles.btnText}>{d.label}</Text>
+                  </TouchableOpacity>
+                ))}
+                {decisions.length === 0 && <Text style={styles.sub}>No further decisions for a {TRANSACTION_STATUS_LABELS[tx.status].toLowerCase()} transaction.</Text>}
+              </View>
+            </View>
+          </>
+        )}
+
+        <View style={styles.rowBetween}>
+          <TouchableOpacity onPress={() => router.push('/admin/transactions' as Href)} style={[styles.btn, { flex: 1, backgroundColor: '#6B7280' }]}>
+            <Text style={styles.btnText}>Explore</Text>
+          </TouchableOpacity>
+          <TouchableOpacity disabled={acting || loading} onPress={goNext} style={[styles.btn, { flex: 1, backgroundColor: acting || loading ? '#9CA3AF' : '#2563EB' }]}>
+            <Text style={styles.btnText}>Next pending</Text>
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+      <ProofViewer urls={proofUrls} index={viewerIndex} onClose={() => setViewerIndex(null)} />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: { flex: 1, backgroundColor: '#FFFFFF' },
+  container: { padding: 16, gap: 12 },
+  pageTitle: { fontSize: 22, fontWeight: '900', color: '#111827', textAlign: 'center' },
+  card: { borderRadius: 10, padding: 12, gap: 4 },
+  cardLight: { backgroundColor: '#F9FAFB', borderWidth: 1, borderColor: '#E5E7EB' },
+  cardDark: { backgroundColor: '#111827', borderWidth: 1, borderColor: '#374151' },
+  split: { flexDirection: 'row', gap: 12, alignItems: 'flex-start' },
+  rowBetween: { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', gap: 10 },
+  title: { fontWeight: '900', fontSize: 16, color: '#111827' },
+  label: { fontWeight: '800', color: '#374151', marginBottom: 4 },
+  value: { fontWeight: '700', color: '#111827' },
+  sub: { color: '#6B7280', marginTop: 2 },
+  badge: { fontWeight: '900', paddingHorizontal: 10, paddingVertical: 4, borderRadius: 9999, overflow: 'hidden', color: '#fff' },
+  step: { paddingVertical: 6, paddingHorizontal: 6, borderRadius: 6 },
+  stepCurrent: { backgroundColor: '#DBEAFE' },
+  stepText: { color: '#1F2937', fontSize: 13 },
+  thumbs: { flexDirection: 'row', flexWrap: 'wrap', gap: 8 },
+  thumb: { width: 72, height: 128, borderRadius: 8, backgroundColor: '#E5E7EB' },
+  historyText: { flex: 1, color: '#374151', fontSize: 13, marginTop: 4 },
+  historyStatus: { fontWeight: '800', fontSize: 12, marginTop: 4 },
+  input: { borderRadius: 10, paddingHorizontal: 12, paddingVertical: 12, borderWidth: 1, minHeight: 64 },
+  inputLight: { backgroundColor: '#FFFFFF', borderColor: '#E5E7EB' },
+  inputDark: { backgroundColor: '#111827', borderColor: '#374151', color: '#E5E7EB' },
+  btn: { paddingVertical: 12, borderRadius: 10, alignItems: 'center' },
+  btnText: { color: '#FFFFFF', fontWeight: '900' },
+});
@@ -1,18 +1,44 @@
-import React, { useCallback, useMemo, useRef, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { View, Text, StyleSheet, TouchableOpacity, TextInput, FlatList, useColorScheme, ActivityIndicator, Platform } from 'react-native';
-import { fetchTransactions, type Transaction, type TransactionStatus } from '@/lib/transactions';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput, FlatList, useColorScheme, ActivityIndicator, Platform, Alert } from 'react-native';
+import { router, type Href } from 'expo-router';
+import {
+  canTransition,
+  expireStaleTransactions,
+  fetchTransactions,
+  rejectTransactions,
+  START_EXPIRY_DAYS,
+  TRANSACTION_STATUSES,
+  TRANSACTION_STATUS_LABELS,
+  type Transaction,
+  type TransactionStatus,
+} from '@/lib/transactions';
+import { fetchProofDuplicates, type ProofDuplicate } from '@/lib/proofHash';
+import { useAuth } from '@/hooks/useAuth';
+import { DuplicateProofNotice } from '@/components/admin/DuplicateProofNotice';
 
-const statuses: Array<TransactionStatus | 'all'> = ['all', 'pending', 'paid', 'rejected'];
+const statuses: Array<TransactionStatus | 'all'> = ['all', ...TRANSACTION_STATUSES];
 
 type Item = Transaction;
 
+const BADGE_COLORS: Record<TransactionStatus, string> = {
+  started: '#6B7280',
+  submitted: '#2563EB',
+  under_review: '#7C3AED',
+  approved: '#059669',
+  paid: '#10B981',
+  rejected: '#EF4444',
+  expired: '#9CA3AF',
+  reversed: '#B91C1C',
+};
+
 export default function TransactionsExplore() {
   const colorScheme = useColorScheme();
   const isDark = colorScheme === 'dark';
+  const { user } = useAuth();
 
   // Filters
-  const [status, setStatus] = useState<TransactionStatus | 'all'>('pending');
+  const [status, setStatus] = useState<TransactionStatus | 'all'>('started');
   const [userId, setUserId] = useState<string>('');
   const [fromIso, setFromIso] = useState<string>('');
   const [toIso, setToIso] = useState<string>('');
@@ -24,6 +50,80 @@ export default function TransactionsExplore() {
   const [loadingMore, setLoadingMore] = useState(false);
   const pageSize = 50;
 
+  // Loaded rows whose proof copies an earlier submission, keyed by transaction id; the original is never flagged
+  const [duplicates, setDuplicates] = useState<Record<string, ProofDuplicate[]>>({});
+  const [duplicatesOnly, setDuplicatesOnly] = useState(false);
+  const [rejecting, setRejecting] = useState(false);
+  useEffect(() => {
+    let cancelled = false;
+    const ids = items.filter((t) => t.proof_urls.length > 0).map((t) => t.id);
+    fetchProofDuplicates(ids)
+      .then((map) => { if (!cancelled) setDuplicates(map); })
+      .catch((e: any) => console.warn('[txn-explore] duplicates error', e?.message || e));
+    return () => { cancelled = true; };
+  }, [items]);
+
+  const shownItems = useMemo(() => (duplicatesOnly ? items.filter((t) => duplicates[t.id]) : items), [items, duplicates, duplicatesOnly]);
+  // Only later copies are flagged, so bulk reject never touches the first submitter; approved and paid
+  // rows need a reversal instead
+  const rejectableDuplicates = useMemo(
+    () => items.filter((t) => duplicates[t.id] && t.status !== 'rejected' && canTransition(t.status, 'rejected')),
+    [items, duplicates]
+  );
+
+  const rejectDuplicates = () => {
+    const ids = rejectableDuplicates.map((t) => t.id);
+    if (!ids.length) return;
+    Alert.alert('Reject duplicates', `Reject ${ids.length} transaction${ids.length === 1 ? '' : 's'} with duplicate proof?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Reject',
+        style: 'destructive',
+        onPress: async () => {
+          setRejecting(true);
+          try {
+            const { rejected, failed } = await rejectTransactions(ids, { notes: 'Duplicate proof screenshot', reviewed_by: user?.id ?? null });
+            const byId = new Map(rejected.map((t) => [t.id, t]));
+            setItems((prev) => prev.map((t) => byId.get(t.id) ?? t));
+            if (failed.length) {
+              Alert.alert(
+                'Some transactions were not rejected',
+                `${rejected.length} rejected, ${failed.length} failed:\n${failed.map((f) => `${f.id}: ${f.message}`).join('\n')}`,
+              );
+            }
+          } catch (e: any) {
+            Alert.alert('Error', e?.message || 'Failed to reject transactions');
+          } finally {
+            setRejecting(false);
+          }
+        },
+      },
+    ]);
+  };
+
+  const [expiring, setExpiring] = useState(false);
+  const expireStale = () => {
+    Alert.alert('Expire stale', `Expire started transactions untouched for ${START_EXPIRY_DAYS} days?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Expire',
+        style: 'destructive',
+        onPress: async () => {
+          setExpiring(true);
+          try {
+            const count = await expireStaleTransactions();
+            Alert.alert('Expired', `${count} transaction${count === 1 ? '' : 's'} expired.`);
+            loadFirst();
+          } catch (e: any) {
+            Alert.alert('Error', e?.message || 'Failed to expire transactions');
+          } finally {
+            setExpiring(false);
+          }
+        },
+      },
+    ]);
+  };
+
   const canSearch = useMemo(() => !loading && !loadingMore, [loading, loadingMore]);
 
   const loadFirst = useCallback(async () => {
@@ -72,24 +172,29 @@ export default function TransactionsExplore() {
   const keyExtractor = useCallback((item: Item) => item.id, []);
 
   const renderItem = useCallback(({ item }: { item: Item }) => {
+    // Rows open in the proof review screen
     return (
-      <View style={[styles.row, isDark ? styles.rowDark : styles.rowLight]}>
+      <TouchableOpacity onPress={() => router.push(`/admin/review?id=${item.id}` as Href)} style={[styles.row, isDark ? styles.rowDark : styles.rowLight]}>
         <View style={{ flex: 1 }}>
           <Text style={[styles.title, isDark && { color: '#E5E7EB' }]} numberOfLines={1}>
-            {item.offer_title || 'Task'} • ₹{typeof item.amount === 'number' ? item.amount : Number(item.amount) || 0}
+            {item.offer_title || 'Task'}{item.step_title ? ` — ${item.step_title}` : ''} • ₹{typeof item.amount === 'number' ? item.amount : Number(item.amount) || 0}
           </Text>
           <Text style={[styles.sub, isDark && { color: '#9CA3AF' }]} numberOfLines={1}>
             {new Date(item.created_at).toLocaleString()} • {item.user_id}
           </Text>
+          {!!duplicates[item.id] && <DuplicateProofNotice duplicates={duplicates[item.id]} compact />}
         </View>
         <View style={{ alignItems: 'flex-end' }}>
-          <Text style={[styles.badge, item.status === 'paid' ? styles.badgePaid : item.status === 'rejected' ? styles.badgeRejected : styles.badgePending]}>
-            {item.status}
+          <Text style={[styles.badge, { backgroundColor: BADGE_COLORS[item.status] }]}>
+            {TRANSACTION_STATUS_LABELS[item.status]}
           </Text>
+          {item.proof_urls.length > 0 && (
+            <Text style={[styles.sub, isDark && { color: '#9CA3AF' }]}>{item.proof_urls.length} proof</Text>
+          )}
         </View>
-      </View>
+      </TouchableOpacity>
     );
-  }, [isDark]);
+  }, [isDark, duplicates]);
 
   const ListHeader = (
     <View style={{ gap: 10 }}>
@@ -100,7 +205,7 @@ export default function TransactionsExplore() {
         <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: 8 }}>
           {statuses.map(s => (
             <TouchableOpacity key={s} onPress={() => setStatus(s)} style={[styles.chip, status === s ? styles.chipActive : (isDark ? styles.chipDark : styles.chipLight)]}>
-              <Text style={[styles.chipText, status === s && { color: '#fff' }]}>{s}</Text>
+              <Text style={[styles.chipText, status === s && { color: '#fff' }]}>{s === 'all' ? 'all' : TRANSACTION_STATUS_LABELS[s]}</Text>
             </TouchableOpacity>
           ))}
         </View>
@@ -122,16 +227,30 @@ export default function TransactionsExplore() {
         </View>
       </View>
 
+      <View style={{ flexDirection: 'row', alignItems: 'center', gap: 8 }}>
+        <TouchableOpacity onPress={() => setDuplicatesOnly((v) => !v)} style={[styles.chip, duplicatesOnly ? styles.chipActive : (isDark ? styles.chipDark : styles.chipLight)]}>
+          <Text style={[styles.chipText, duplicatesOnly && { color: '#fff' }]}>Duplicate proof only</Text>
+        </TouchableOpacity>
+        {rejectableDuplicates.length > 0 && (
+          <TouchableOpacity disabled={rejecting} onPress={rejectDuplicates} style={[styles.btn, { flex: 1, backgroundColor: rejecting ? '#9CA3AF' : '#EF4444' }]}>
+            <Text style={styles.btnText}>Reject {rejectableDuplicates.length} duplicate{rejectableDuplicates.length === 1 ? '' : 's'}</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
       <TouchableOpacity disabled={!canSearch} onPress={loadFirst} style={[styles.btn, { backgroundColor: canSearch ? '#2563EB' : '#9CA3AF' }]}>
         {loading ? (<ActivityIndicator color="#fff" />) : (<Text style={styles.btnText}>Fetch</Text>)}
       </TouchableOpacity>
+      <TouchableOpacity disabled={expiring} onPress={expireStale} style={[styles.btn, { backgroundColor: expiring ? '#9CA3AF' : '#6B7280' }]}>
+        <Text style={styles.btnText}>{expiring ? 'Expiring…' : `Expire started > ${START_EXPIRY_DAYS} days`}</Text>
+      </TouchableOpacity>
     </View>
   );
 
   return (
     <SafeAreaView style={[styles.safeArea, isDark && { backgroundColor: '#0B0F14' }]}> 
       <FlatList
-        data={items}
+        data={shownItems}
         keyExtractor={keyExtractor}
         contentContainerStyle={[styles.container, isDark && { backgroundColor: '#0B0F14' }]}
         renderItem={renderItem}
@@ -180,7 +299,4 @@ const styles = StyleSheet.create({
   title: { fontWeight: '800', color: '#111827' },
   sub: { color: '#6B7280', marginTop: 2 },
   badge: { fontWeight: '900', paddingHorizontal: 10, paddingVertical: 4, borderRadius: 9999, overflow: 'hidden', color: '#fff' },
-  badgePaid: { backgroundColor: '#10B981' },
-  badgeRejected: { backgroundColor: '#EF4444' },
-  badgePending: { backgroundColor: '#6B7280' },
 });
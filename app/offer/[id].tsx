@@ -1,7 +1,6 @@
 import React, { useEffect, useMemo, useState } from 'react';
 import {
   Alert,
-  Linking,
   ScrollView,
   StyleSheet,
   Text,
@@ -18,10 +17,38 @@ import { useIsFocused } from '@react-navigation/native';
 import { Stack, useLocalSearchParams, router } from 'expo-router';
 import MaterialIcons from '@expo/vector-icons/MaterialIcons';
 import Constants from 'expo-constants';
-import { createOrReuseActiveTransaction } from '../../lib/transactions';
-import { subscribeOfferById, fetchOfferById } from '../../lib/content';
+import * as ImagePicker from 'expo-image-picker';
+import {
+  canSubmitProof,
+  checkOfferCaps,
+  createOrReuseActiveTransaction,
+  fetchOfferAvailability,
+  getOfferProgress,
+  isMilestoneComplete,
+  OPEN_STATUSES,
+  TRANSACTION_STATUS_LABELS,
+  updateTransactionStatus,
+  type MilestoneState,
+  type OfferAvailability,
+  type Transaction,
+} from '../../lib/transactions';
+import { subscribeOfferById, getOfferWindowState, hasOfferCaps, isMultiStageOffer, isPublished, localizeOffer, offerTotalReward, type OfferItem, type OfferStep } from '../../lib/content';
 import { useAuth } from '@/hooks/useAuth';
-import { getProfile } from '@/lib/profile';
+import { useNow } from '@/hooks/useNow';
+import { useIsAdmin } from '@/hooks/useProfile';
+import { useTransactions } from '@/hooks/useTransactions';
+import { useStepProgress } from '@/hooks/useStepProgress';
+import { useEligibilityContext } from '@/hooks/useEligibility';
+import { MAX_PROOF_IMAGES, useProofSubmission } from '@/hooks/useProofSubmission';
+import { useProofUrls } from '@/hooks/useProofUrls';
+import { getEligibilityMismatch } from '@/lib/eligibility';
+import { getStepChecklist, markStepDone, unmarkStepDone, type StepCheck } from '@/lib/stepProgress';
+import { getTargetingMismatch } from '@/lib/targeting';
+import { getDeviceLocale } from '@/lib/locale';
+import { openLink, resolveLink, type ResolvedLink } from '@/lib/links';
+import { buildTrackingUrl } from '@/lib/tracking';
+import { trackOfferClick, type OfferClickOutcome } from '@/lib/offerClicks';
+import { OfferCountdown } from '@/components/OfferCountdown';
 
 // Simple pulse animation hook for skeletons
 function usePulse() {
@@ -84,46 +111,64 @@ function SkeletonLoader({ isDark }: { isDark: boolean }) {
   );
 }
 
-type Offer = {
-  id: string;
-  title: string;
-  amount: number;
-  icon?: string;
-  description?: string;
-  storeUrl?: string;
-  steps?: string[];
-  requiresProof?: boolean;
+type Offer = OfferItem;
+
+const PLACEHOLDER_STEPS: OfferStep[] = [
+  { id: 's1', text: 'Install the app' },
+  { id: 's2', text: 'Open and register with your phone number' },
+  { id: 's3', text: 'Complete one game/tutorial' },
+];
+
+// Status icon for a step: milestones reflect their transaction, then verified (green) or self-reported (blue) progress
+function stepIcon(milestone: MilestoneState | undefined, check: StepCheck | undefined, isDark: boolean): { name: React.ComponentProps<typeof MaterialIcons>['name']; color: string } {
+  if ((milestone && isMilestoneComplete(milestone)) || check?.source === 'verified') return { name: 'check-circle', color: '#0F9D58' };
+  if (milestone && milestone.status !== 'not_started' && OPEN_STATUSES.includes(milestone.status)) return { name: 'schedule', color: '#F4B400' };
+  if (milestone?.status === 'rejected' || milestone?.status === 'reversed') return { name: 'cancel', color: '#DB4437' };
+  if (check?.done) return { name: 'check-circle', color: '#2563EB' };
+  return { name: 'check-circle-outline', color: isDark ? '#64748B' : '#C7CCD6' };
+}
+
+const MILESTONE_STATUS_LABELS: Record<MilestoneState['status'], string> = {
+  not_started: 'Not started',
+  ...TRANSACTION_STATUS_LABELS,
 };
 
+// Milestones the user can (re)start: never started, rejected, or left to expire
+function isMilestoneOpen(m: MilestoneState | undefined) {
+  return m?.status === 'not_started' || m?.status === 'rejected' || m?.status === 'expired';
+}
+
 export default function OfferDetailsScreen() {
   const colorScheme = useColorScheme();
   const isDark = colorScheme === 'dark';
-  const { id } = useLocalSearchParams<{ id: string }>();
+  const { id, preview } = useLocalSearchParams<{ id: string; preview?: string }>();
   const isFocused = useIsFocused();
   const [offer, setOffer] = useState<Offer | null>(null);
   const [loading, setLoading] = useState(true);
   const [seenFirstSnapshot, setSeenFirstSnapshot] = useState(false);
   const [showNotFound, setShowNotFound] = useState(false);
   const { user } = useAuth();
-  const [isAdmin, setIsAdmin] = useState(false);
+  const { isAdmin } = useIsAdmin();
+  const now = useNow(30 * 1000);
+  const [capsLeft, setCapsLeft] = useState<OfferAvailability | null>(null);
+  const [claimingStepId, setClaimingStepId] = useState<string | null>(null);
+  const { data: userTxs } = useTransactions(user?.id);
+  const { data: stepRows } = useStepProgress(user?.id);
+  // Step toggles show right away; cleared once the live rows catch up
+  const [optimisticDone, setOptimisticDone] = useState<Record<string, boolean>>({});
+  const locale = useMemo(() => getDeviceLocale(), []);
+  // Display copy in the user's language; writes keep using the base (English) offer
+  const shown = useMemo(() => (offer ? localizeOffer(offer, locale) : null), [offer, locale]);
 
   useEffect(() => {
     let mounted = true;
     if (!id) return () => { mounted = false; };
-    (async () => {
-      try {
-        const first = await fetchOfferById(String(id));
-        if (!mounted) return;
-        setOffer(first);
-      } finally {
-        if (mounted) setSeenFirstSnapshot(true);
-        if (mounted) setLoading(false);
-      }
-    })();
-
+    // The first callback is the initial snapshot; later ones are realtime changes
     const unsub = subscribeOfferById(String(id), (item) => {
       if (!mounted) return;
       setOffer(item);
+      setSeenFirstSnapshot(true);
+      setLoading(false);
     });
     return () => { mounted = false; unsub(); };
   }, [id]);
@@ -138,90 +183,287 @@ export default function OfferDetailsScreen() {
     return () => sub.remove();
   }, [isFocused]);
 
+  // Admins can open drafts with ?preview=1 ("Preview as user"); everyone else only sees published offers
+  const isPreview = preview === '1' && isAdmin;
+  const draftHidden = !!offer && !isPublished(offer) && !isPreview;
+
   // After initial snapshot, if still no offer, reveal Not Found after a short delay (prevents flicker)
   useEffect(() => {
     if (!isFocused) { setShowNotFound(false); return; }
     if (!seenFirstSnapshot) return;
-    if (offer) { setShowNotFound(false); return; }
+    if (offer && !draftHidden) { setShowNotFound(false); return; }
     const t = setTimeout(() => setShowNotFound(true), 700);
     return () => clearTimeout(t);
-  }, [isFocused, seenFirstSnapshot, offer]);
+  }, [isFocused, seenFirstSnapshot, offer, draftHidden]);
+
+  const steps = useMemo(() => (shown?.steps && shown.steps.length ? shown.steps : PLACEHOLDER_STEPS), [shown?.steps]);
+
+  // Multi-stage offers pay per milestone; progress comes from the user's milestone transactions
+  const progress = useMemo(() => (offer && isMultiStageOffer(offer) ? getOfferProgress(offer, userTxs) : null), [offer, userTxs]);
+  const milestoneById = useMemo(() => new Map((progress?.milestones ?? []).map((m) => [m.step.id, m])), [progress]);
+  const started = !!progress?.milestones.some((m) => m.status !== 'not_started');
 
-  // Load admin flag (unused currently, retained for future admin-only controls)
+  // Per-step completion; the placeholder steps of offers without steps are not tracked
+  const trackable = !!user && !!offer && !!shown?.steps?.length;
+  useEffect(() => { setOptimisticDone({}); }, [stepRows]);
+  const checklist = useMemo(() => {
+    if (!trackable || !offer) return null;
+    const base = getStepChecklist(offer, steps, stepRows, userTxs);
+    if (!Object.keys(optimisticDone).length) return base;
+    const checks = base.steps.map((c) => (
+      c.source === 'verified' || optimisticDone[c.step.id] === undefined ? c : { ...c, done: optimisticDone[c.step.id], source: optimisticDone[c.step.id] ? 'self' as const : null }
+    ));
+    const nextIndex = checks.findIndex((c) => !c.done);
+    return {
+      steps: checks,
+      completed: checks.filter((c) => c.done).length,
+      total: checks.length,
+      next: nextIndex >= 0 ? { index: nextIndex, step: checks[nextIndex].step } : null,
+    };
+  }, [trackable, offer, steps, stepRows, userTxs, optimisticDone]);
+  const resumable = started || (checklist?.completed ?? 0) > 0;
+
+  // Screenshot proof goes to the open transaction that needs it: the offer's own one for
+  // requiresProof offers, or the earliest milestone verified by proof
+  const proofTx = useMemo((): Transaction | null => {
+    if (!offer || !user) return null;
+    if (progress) {
+      const m = progress.milestones.find((x) => (
+        (offer.requiresProof || x.step.verification === 'proof') && !isMilestoneComplete(x) && !!x.tx && canSubmitProof(x.tx)
+      ));
+      return m?.tx ?? null;
+    }
+    if (!offer.requiresProof) return null;
+    const latest = userTxs.find((t) => t.offer_id === offer.id && !t.step_id);
+    return latest && canSubmitProof(latest) ? latest : null;
+  }, [offer, user, progress, userTxs]);
+  const proofTxUrls = useProofUrls(proofTx?.proof_urls);
+  const proof = useProofSubmission();
+  const resetProof = proof.reset;
+  useEffect(() => { resetProof(); }, [proofTx?.id, resetProof]);
+
+  // Load what is left of a capped campaign; refreshed whenever the offer row changes
   useEffect(() => {
     let cancelled = false;
-    (async () => {
-      try {
-        if (!user) { if (!cancelled) setIsAdmin(false); return; }
-        const p = await getProfile(user.id);
-        if (!cancelled) setIsAdmin(!!p?.is_admin);
-      } catch {
-        if (!cancelled) setIsAdmin(false);
-      }
-    })();
+    if (!offer || !hasOfferCaps(offer)) { setCapsLeft(null); return; }
+    fetchOfferAvailability(offer.id)
+      .then((c) => { if (!cancelled) setCapsLeft(c); })
+      .catch(() => { if (!cancelled) setCapsLeft(null); });
     return () => { cancelled = true; };
-  }, [user]);
-
-  const steps = useMemo(() => (
-    offer?.steps && offer.steps.length ? offer.steps : [
-      'Install the app',
-      'Open and register with your phone number',
-      'Complete one game/tutorial',
-    ]
-  ), [offer?.steps]);
-
-  // Normalize store URLs to reduce failures across platforms
-  const normalizeStoreUrl = (raw?: string): string | null => {
-    if (!raw) return null;
-    let url = String(raw).trim();
-    if (!url) return null;
-    // Already has http/https
-    if (/^https?:\/\//i.test(url)) return url;
-    // Android package ID (e.g., com.example.app)
-    if (/^[A-Za-z0-9_.]+$/.test(url) && url.includes('.')) {
-      return `https://play.google.com/store/apps/details?id=${url}`;
-    }
-    // market:// links -> convert to Play Store web URL
-    if (url.startsWith('market://')) {
-      return url.replace(/^market:\/\//i, 'https://play.google.com/');
+  }, [offer]);
+
+  // Eligibility rules only gate new starts; users already on the offer keep going
+  const eligibility = useEligibilityContext();
+  const onOffer = !!offer && userTxs.some((t) => t.offer_id === offer.id);
+  const ineligibleReason = offer && eligibility && !onOffer ? getEligibilityMismatch(offer, eligibility) : null;
+
+  // Offers outside their schedule (or switched off) stay viewable but cannot be started
+  const availability = useMemo(() => {
+    if (!offer) return { open: false, full: false, message: '' };
+    if (!isPublished(offer)) return { open: false, message: 'Preview: this offer is not visible to users yet.' };
+    if (offer.active === false) return { open: false, message: 'This offer is currently unavailable.' };
+    const mismatch = getTargetingMismatch(offer);
+    if (mismatch) return { open: false, message: mismatch };
+    const state = getOfferWindowState(offer, now);
+    if (state === 'scheduled') {
+      return { open: false, message: `This offer starts on ${new Date(offer.startsAt as string).toLocaleString()}.` };
     }
-    // Fallback: prefix https
-    return `https://${url}`;
-  };
+    if (state === 'ended') return { open: false, message: 'This offer has ended.' };
+    if (progress?.completed) return { open: false, message: `You have earned all ₹${progress.total} from this offer.` };
+    if (ineligibleReason) return { open: false, message: ineligibleReason };
+    // Users already on a multi-stage offer keep their slot even if the campaign fills up; a start
+    // commits the first milestone's reward, later milestones are checked when they are claimed
+    const startAmount = progress ? progress.milestones[0]?.step.reward ?? 0 : offer.amount;
+    const capHit = capsLeft && !started ? checkOfferCaps(capsLeft, startAmount) : null;
+    if (capHit) return { open: false, full: true, message: capHit.reason };
+    return { open: true, message: '' };
+  }, [offer, now, capsLeft, progress, started, ineligibleReason]);
 
   const openStore = async () => {
     if (!offer) return;
-    if (!user) { router.push('/(tabs)/profile'); return; }
+    // Every tap is logged, including the ones that never reach the store
+    const logClick = (outcome: OfferClickOutcome, target?: ResolvedLink, clickId?: string | null) => {
+      const url = !target || target.kind === 'invalid' ? null : target.kind === 'route' ? String(target.href) : target.url;
+      trackOfferClick({ offerId: offer.id, storeUrl: url, clickId, outcome });
+    };
+    if (!user) {
+      logClick('sign_in');
+      router.push('/(tabs)/profile');
+      return;
+    }
+    if (!availability.open) {
+      logClick('blocked');
+      Alert.alert('Offer unavailable', availability.message);
+      return;
+    }
 
-    // Create or reuse a single active transaction per (user, offer)
-    createOrReuseActiveTransaction({
+    // Create or reuse a single active transaction per (user, offer); multi-stage offers start
+    // with their first milestone, and only that first start takes a campaign slot.
+    // Capped campaigns and offers with eligibility rules wait for the server-side check before
+    // sending the user to the store; tracking links wait for the transaction's click id.
+    const first = progress?.milestones[0];
+    const needsStart = !progress || isMilestoneOpen(first);
+    const starting = !needsStart ? Promise.resolve(null) : createOrReuseActiveTransaction({
       userId: user.id,
       offerId: offer.id,
+      stepId: first?.step.id,
       offerTitle: offer.title,
+      stepTitle: first?.step.text,
       offerIconUrl: offer.icon,
-      amount: offer.amount,
-    }).catch((e: any) => {
-      Alert.alert('Could not start task', e?.message || 'Failed to create transaction');
+      amount: first ? first.step.reward : offer.amount,
+      eligibility: started ? undefined : offer.eligibility,
     });
+    let startedTx: Transaction | null = null;
+    const gated = (hasOfferCaps(offer) || !!offer.eligibility?.length) && !started;
+    if (needsStart && (gated || !!offer.trackingUrl)) {
+      try {
+        startedTx = await starting;
+      } catch (e: any) {
+        if (e?.code === 'CAMPAIGN_FULL') {
+          logClick('blocked');
+          fetchOfferAvailability(offer.id).then(setCapsLeft).catch(() => {});
+          Alert.alert('Campaign full', e.message);
+          return;
+        }
+        if (e?.code === 'NOT_ELIGIBLE' || e?.code === 'OFFER_UNAVAILABLE') {
+          logClick('blocked');
+          Alert.alert('Offer unavailable', e.message);
+          return;
+        }
+        Alert.alert('Could not start task', e?.message || 'Failed to create transaction');
+        // A gated start is the cap and eligibility check, so the store only opens once it succeeded
+        if (gated) {
+          logClick('blocked');
+          return;
+        }
+      }
+    } else {
+      starting.catch((e: any) => {
+        Alert.alert('Could not start task', e?.message || 'Failed to create transaction');
+      });
+    }
 
-    const target = normalizeStoreUrl(offer.storeUrl);
-    if (!target) {
+    // Without a click id (the start failed) the plain store link still gets the user there
+    const clickId = startedTx?.click_id ?? first?.tx?.click_id;
+    const trackingLink = offer.trackingUrl && clickId
+      ? resolveLink(buildTrackingUrl(offer.trackingUrl, { clickId, userId: user.id, offerId: offer.id }), 'any')
+      : null;
+    const target = trackingLink && trackingLink.kind !== 'invalid' ? trackingLink : resolveLink(offer.storeUrl, 'store');
+    const sentClickId = target === trackingLink ? clickId : null;
+    if (target.kind === 'invalid') {
+      logClick('blocked');
       Alert.alert('Link unavailable', 'This offer does not have a valid store link yet. Please try again later.');
       return;
     }
     try {
-      const supported = await Linking.canOpenURL(target);
-      if (supported) {
-        await Linking.openURL(target);
-      } else {
+      await openLink(target);
+      logClick('opened', target, sentClickId);
+    } catch (e: any) {
+      logClick('open_failed', target, sentClickId);
+      if (e?.code === 'UNSUPPORTED_LINK') {
         Alert.alert('Cannot open link', 'The app link seems invalid or unsupported on your device.');
+      } else {
+        // Swallow errors but notify user
+        Alert.alert('Failed to open', 'Something went wrong while opening the app store link.');
       }
-    } catch (e) {
-      // Swallow errors but notify user
-      Alert.alert('Failed to open', 'Something went wrong while opening the app store link.');
     }
   };
 
+  const toggleStep = async (check: StepCheck) => {
+    if (!offer || !user || check.source === 'verified') return;
+    const done = !check.done;
+    setOptimisticDone((prev) => ({ ...prev, [check.step.id]: done }));
+    try {
+      if (done) await markStepDone(user.id, offer.id, check.step.id);
+      else await unmarkStepDone(user.id, offer.id, check.step.id);
+    } catch (e: any) {
+      setOptimisticDone((prev) => {
+        const next = { ...prev };
+        delete next[check.step.id];
+        return next;
+      });
+      Alert.alert('Could not save progress', e?.message || 'Please try again.');
+    }
+  };
+
+  // Later milestones are claimed one by one, once every earlier milestone is in progress, in review or confirmed
+  const canClaim = (index: number) => {
+    if (!progress || !started || !user) return false;
+    const m = progress.milestones[index];
+    if (!isMilestoneOpen(m)) return false;
+    return progress.milestones.slice(0, index).every((p) => !isMilestoneOpen(p) && p.status !== 'reversed');
+  };
+
+  const claimMilestone = async (m: MilestoneState) => {
+    if (!offer || !user) return;
+    setClaimingStepId(m.step.id);
+    try {
+      const tx = await createOrReuseActiveTransaction({
+        userId: user.id,
+        offerId: offer.id,
+        stepId: m.step.id,
+        offerTitle: offer.title,
+        stepTitle: m.step.text,
+        offerIconUrl: offer.icon,
+        amount: m.step.reward,
+      });
+      // Manual milestones wait in the review queue once claimed; proof milestones stay open until
+      // screenshots are submitted below, and postback milestones until the advertiser reports them
+      const verification = offer.requiresProof ? 'proof' : m.step.verification ?? 'manual';
+      if (verification === 'proof') {
+        Alert.alert('Upload proof', `Upload screenshots of this step below to earn ₹${m.step.reward}.`);
+      } else if (verification === 'postback') {
+        Alert.alert('Step started', `This step is confirmed automatically once the advertiser reports it. You will earn ₹${m.step.reward}.`);
+      } else {
+        if (tx.status === 'started') await updateTransactionStatus(tx.id, 'submitted');
+        Alert.alert('Step submitted', `We will verify this step and credit ₹${m.step.reward}.`);
+      }
+    } catch (e: any) {
+      Alert.alert('Could not submit step', e?.message || 'Failed to create transaction');
+    } finally {
+      setClaimingStepId(null);
+    }
+  };
+
+  const pickProof = async () => {
+    try {
+      const { status } = await ImagePicker.requestMediaLibraryPermissionsAsync();
+      if (status !== 'granted') {
+        Alert.alert('Permission needed', 'Allow photo access to upload screenshots.');
+        return;
+      }
+      const result = await ImagePicker.launchImageLibraryAsync({
+        mediaTypes: ImagePicker.MediaTypeOptions.Images,
+        allowsMultipleSelection: true,
+        selectionLimit: MAX_PROOF_IMAGES - proof.uris.length,
+        quality: 1,
+      });
+      if (!result.canceled) proof.add(result.assets.map((a) => a.uri));
+    } catch (e: any) {
+      Alert.alert('Error', e?.message || 'Failed to pick screenshots');
+    }
+  };
+
+  const captureProof = async () => {
+    try {
+      const { status } = await ImagePicker.requestCameraPermissionsAsync();
+      if (status !== 'granted') {
+        Alert.alert('Permission needed', 'Allow camera access to take a photo.');
+        return;
+      }
+      const result = await ImagePicker.launchCameraAsync({ mediaTypes: ImagePicker.MediaTypeOptions.Images, quality: 1 });
+      if (!result.canceled) proof.add(result.assets.map((a) => a.uri));
+    } catch (e: any) {
+      Alert.alert('Error', e?.message || 'Failed to open the camera');
+    }
+  };
+
+  const submitProof = async () => {
+    if (!proofTx) return;
+    const tx = await proof.submit(proofTx.id);
+    if (tx) Alert.alert('Proof submitted', 'We will review your screenshots and credit your reward.');
+  };
+
   // Avoid showing placeholder UI before data resolves to prevent flicker of "App Name"
   if (loading) {
     if (!isFocused) return null; // do not render skeleton when navigating away
@@ -238,7 +480,7 @@ export default function OfferDetailsScreen() {
   }
 
   // If we've seen data but there's no offer, show not-found with manual back (no auto nav)
-  if (isFocused && seenFirstSnapshot && !offer && showNotFound) {
+  if (isFocused && seenFirstSnapshot && (!offer || draftHidden) && showNotFound) {
     return (
       <>
         <Stack.Screen options={{ headerShown: false }} />
@@ -256,6 +498,8 @@ export default function OfferDetailsScreen() {
 
   // If not focused, render nothing (after hooks are registered)
   if (!isFocused) return null;
+  // Unpublished offer still waiting for the Not Found delay
+  if (draftHidden) return null;
 
   return (
     <>
@@ -273,39 +517,164 @@ export default function OfferDetailsScreen() {
               )}
             </View>
             <View style={{ flex: 1, marginRight: 12 }}>
-              <Text style={[styles.appName, isDark && { color: '#E5E7EB' }]}>{offer?.title ?? 'App Name'}</Text>
+              <Text style={[styles.appName, isDark && { color: '#E5E7EB' }]}>{shown?.title ?? 'App Name'}</Text>
               <Text style={[styles.appDesc, isDark && { color: '#CBD5E1' }]} numberOfLines={2}>
-                {offer?.description ?? 'Complete simple steps to earn rewards.'}
+                {shown?.description ?? 'Complete simple steps to earn rewards.'}
               </Text>
+              {!!offer && <View style={{ marginTop: 6 }}><OfferCountdown offer={offer} isDark={isDark} /></View>}
             </View>
             <View style={styles.coinBadge}>
-              <Text style={styles.coinText}>{`₹${offer?.amount ?? 0}`}</Text>
+              <Text style={styles.coinText}>{`₹${offer ? offerTotalReward(offer) : 0}`}</Text>
             </View>
           </View>
         </View>
 
         {/* Steps */}
         <Text style={[styles.sectionTitle, isDark && { color: '#E5E7EB' }]}>Steps to Complete</Text>
-        <View style={[styles.stepsCard, isDark ? { backgroundColor: '#1E293B', shadowOpacity: 0 } : null]}>
-          {steps.map((s, i) => (
-            <View key={i} style={styles.stepRow}>
-              <View style={styles.stepNumber}><Text style={styles.stepNumberText}>{i + 1}</Text></View>
-              <Text style={[styles.stepText, isDark && { color: '#E5E7EB' }]}>{s}</Text>
-              <MaterialIcons name="check-circle-outline" size={20} color={isDark ? '#64748B' : '#C7CCD6'} />
+        {!!progress && !!user && (
+          <Text style={[styles.earnedText, isDark && { color: '#CBD5E1' }]}>
+            Earned ₹{progress.earned} of ₹{progress.total}
+          </Text>
+        )}
+        {!!checklist && (
+          <View style={{ gap: 6 }}>
+            <View style={[styles.progressTrack, isDark && { backgroundColor: '#334155' }]}>
+              <View style={[styles.progressFill, { width: `${checklist.total ? Math.round((checklist.completed / checklist.total) * 100) : 0}%` }]} />
+            </View>
+            <Text style={[styles.progressText, isDark && { color: '#CBD5E1' }]}>
+              {checklist.completed} of {checklist.total} steps done
+            </Text>
+          </View>
+        )}
+        {!!checklist?.next && resumable && (
+          <View style={[styles.resumeCard, isDark && { backgroundColor: '#1E3A8A' }]}>
+            <View style={{ flex: 1 }}>
+              <Text style={[styles.resumeTitle, isDark && { color: '#E5E7EB' }]}>Pick up where you left off</Text>
+              <Text style={[styles.resumeStep, isDark && { color: '#CBD5E1' }]} numberOfLines={2}>
+                Step {checklist.next.index + 1}: {checklist.next.step.text}
+              </Text>
             </View>
-          ))}
+            {availability.open && (
+              <TouchableOpacity onPress={openStore} style={styles.claimBtn}>
+                <Text style={styles.claimBtnText}>Resume</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
+        <View style={[styles.stepsCard, isDark ? { backgroundColor: '#1E293B', shadowOpacity: 0 } : null]}>
+          {steps.map((s, i) => {
+            const milestone = milestoneById.get(s.id);
+            const milestoneIndex = progress?.milestones.findIndex((m) => m.step.id === s.id) ?? -1;
+            const check = checklist?.steps[i];
+            const icon = stepIcon(milestone, check, isDark);
+            // Milestones in progress, in review or confirmed are settled by the transaction, not by the user
+            const canToggle = !!check && check.source !== 'verified' && (!milestone || isMilestoneOpen(milestone));
+            const isNext = resumable && checklist?.next?.index === i;
+            return (
+              <View key={s.id} style={[styles.stepRow, isNext && (isDark ? styles.stepRowNextDark : styles.stepRowNext)]}>
+                <View style={styles.stepNumber}><Text style={styles.stepNumberText}>{i + 1}</Text></View>
+                <View style={{ flex: 1 }}>
+                  <Text style={[styles.stepText, isDark && { color: '#E5E7EB' }]}>{s.text}</Text>
+                  {!!milestone && !!user && (
+                    <Text style={[styles.stepStatus, isDark && { color: '#94A3B8' }]}>{MILESTONE_STATUS_LABELS[milestone.status]}</Text>
+                  )}
+                </View>
+                {!!s.reward && <Text style={styles.stepReward}>₹{s.reward}</Text>}
+                {milestone && canClaim(milestoneIndex) ? (
+                  <TouchableOpacity
+                    disabled={claimingStepId === s.id}
+                    onPress={() => claimMilestone(milestone)}
+                    style={[styles.claimBtn, claimingStepId === s.id && styles.primaryBtnDisabled]}
+                  >
+                    <Text style={styles.claimBtnText}>{milestone.status === 'not_started' ? 'Claim' : 'Retry'}</Text>
+                  </TouchableOpacity>
+                ) : canToggle ? (
+                  <TouchableOpacity onPress={() => toggleStep(check)} hitSlop={8} accessibilityLabel={check.done ? 'Mark step as not done' : 'Mark step as done'}>
+                    <MaterialIcons name={icon.name} size={20} color={icon.color} />
+                  </TouchableOpacity>
+                ) : (
+                  <MaterialIcons name={icon.name} size={20} color={icon.color} />
+                )}
+              </View>
+            );
+          })}
         </View>
 
+        {!availability.open && !!availability.message && (
+          <Text style={[styles.unavailableText, isDark && { color: '#FCA5A5' }]}>{availability.message}</Text>
+        )}
+
         {/* CTA Button: Login gate */}
         <TouchableOpacity
-          onPress={() => { if (!user) { router.push('/(tabs)/profile'); } else { openStore(); } }}
+          disabled={!!user && !availability.open}
+          onPress={openStore}
           activeOpacity={0.9}
-          style={[styles.primaryBtn, isDark && { backgroundColor: '#4338CA' }]}
+          style={[styles.primaryBtn, isDark && { backgroundColor: '#4338CA' }, !!user && !availability.open && styles.primaryBtnDisabled]}
         >
-          <Text style={styles.primaryBtnText}>{user ? 'Install App' : 'Login to install app'}</Text>
+          <Text style={styles.primaryBtnText}>{!user ? 'Login to install app' : availability.full ? 'Campaign full' : resumable ? 'Resume' : 'Install App'}</Text>
         </TouchableOpacity>
 
-        {/* Screenshot proof temporarily disabled */}
+        {/* Screenshot proof for the open transaction */}
+        {!!proofTx && (
+          <View style={[styles.proofCard, isDark && { backgroundColor: '#1E293B', shadowOpacity: 0 }]}>
+            <Text style={[styles.sectionTitle, isDark && { color: '#E5E7EB' }]}>
+              Screenshot proof{proofTx.step_title ? ` — ${proofTx.step_title}` : ''}
+            </Text>
+            <Text style={[styles.proofHint, isDark && { color: '#CBD5E1' }]}>
+              {proofTx.status === 'submitted'
+                ? 'Your proof is under review. You can replace it until it is checked.'
+                : proofTx.status === 'rejected'
+                  ? `Your proof was rejected${proofTx.notes ? `: ${proofTx.notes}` : '.'} Upload new screenshots to try again.`
+                  : `Upload up to ${MAX_PROOF_IMAGES} screenshots showing the completed steps.`}
+            </Text>
+            {proofTx.status === 'submitted' && !proof.uris.length && proofTxUrls.length > 0 && (
+              <View style={styles.proofThumbs}>
+                {proofTxUrls.map((url) => <Image key={url} source={{ uri: url }} style={styles.proofThumb} />)}
+              </View>
+            )}
+            {proof.uris.length > 0 && (
+              <View style={styles.proofThumbs}>
+                {proof.uris.map((uri) => (
+                  <View key={uri}>
+                    <Image source={{ uri }} style={styles.proofThumb} />
+                    {!proof.uploading && (
+                      <TouchableOpacity onPress={() => proof.remove(uri)} hitSlop={8} style={styles.proofRemove} accessibilityLabel="Remove screenshot">
+                        <MaterialIcons name="close" size={14} color="#fff" />
+                      </TouchableOpacity>
+                    )}
+                  </View>
+                ))}
+              </View>
+            )}
+            {proof.uris.length < MAX_PROOF_IMAGES && !proof.uploading && (
+              <View style={{ flexDirection: 'row', gap: 8 }}>
+                <TouchableOpacity onPress={pickProof} style={[styles.uploadBox, { flex: 1 }, proof.uris.length > 0 && styles.uploadBoxPicked, isDark && { backgroundColor: '#0F172A' }]}>
+                  <MaterialIcons name="photo-library" size={24} color="#6B7280" />
+                  <Text style={styles.uploadText}>{proof.uris.length ? 'Add more' : 'Choose screenshots'}</Text>
+                </TouchableOpacity>
+                <TouchableOpacity onPress={captureProof} style={[styles.uploadBox, { flex: 1 }, isDark && { backgroundColor: '#0F172A' }]}>
+                  <MaterialIcons name="photo-camera" size={24} color="#6B7280" />
+                  <Text style={styles.uploadText}>Take photo</Text>
+                </TouchableOpacity>
+              </View>
+            )}
+            {proof.uploading && (
+              <View style={[styles.progressTrack, { marginTop: 12 }, isDark && { backgroundColor: '#334155' }]}>
+                <View style={[styles.progressFill, { width: `${Math.round(proof.progress * 100)}%` }]} />
+              </View>
+            )}
+            {!!proof.error && <Text style={[styles.unavailableText, { marginTop: 8 }]}>{proof.error}</Text>}
+            <TouchableOpacity
+              disabled={!proof.uris.length || proof.uploading}
+              onPress={submitProof}
+              style={[styles.submitBtn, (!proof.uris.length || proof.uploading) && styles.submitBtnDisabled]}
+            >
+              <Text style={[styles.submitBtnText, (!proof.uris.length || proof.uploading) && styles.submitBtnTextDisabled]}>
+                {proof.uploading ? `Uploading… ${Math.round(proof.progress * 100)}%` : proof.status === 'error' ? 'Retry' : proofTx.status === 'started' ? 'Submit proof' : 'Replace proof'}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        )}
         </ScrollView>
       </SafeAreaView>
     </>
@@ -397,6 +766,19 @@ const styles = StyleSheet.create({
   },
   stepNumberText: { color: '#2947F7', fontWeight: '900', fontSize: 12 },
   stepText: { flex: 1, color: '#2A2A2A', fontSize: 14, fontWeight: '600' },
+  stepRowNext: { backgroundColor: '#F0F4FF', marginHorizontal: -12, paddingHorizontal: 12 },
+  stepRowNextDark: { backgroundColor: '#1E3A8A', marginHorizontal: -12, paddingHorizontal: 12 },
+  progressTrack: { height: 8, borderRadius: 999, backgroundColor: '#E5E7EB', overflow: 'hidden' },
+  progressFill: { height: 8, borderRadius: 999, backgroundColor: '#2563EB' },
+  progressText: { color: '#4A4A4A', fontSize: 12, fontWeight: '700' },
+  resumeCard: { flexDirection: 'row', alignItems: 'center', gap: 12, borderRadius: 14, padding: 12, backgroundColor: '#DBEAFE' },
+  resumeTitle: { fontWeight: '900', color: '#1F2937' },
+  resumeStep: { marginTop: 2, color: '#374151', fontSize: 13 },
+  stepStatus: { marginTop: 2, color: '#6B7280', fontSize: 12, fontWeight: '600' },
+  stepReward: { marginHorizontal: 8, color: '#6A4B00', fontWeight: '900' },
+  earnedText: { marginTop: -4, color: '#4A4A4A', fontWeight: '700' },
+  claimBtn: { backgroundColor: '#2563EB', borderRadius: 8, paddingHorizontal: 10, paddingVertical: 6 },
+  claimBtnText: { color: '#fff', fontWeight: '900', fontSize: 12 },
 
   primaryBtn: {
     marginTop: 8,
@@ -406,6 +788,8 @@ const styles = StyleSheet.create({
     alignItems: 'center',
   },
   primaryBtnText: { color: '#fff', fontWeight: '900', fontSize: 16 },
+  primaryBtnDisabled: { backgroundColor: '#A9B4CC' },
+  unavailableText: { color: '#B91C1C', fontWeight: '700', textAlign: 'center' },
 
   proofCard: {
     backgroundColor: '#fff',
@@ -432,6 +816,10 @@ const styles = StyleSheet.create({
     backgroundColor: '#F0F4FF',
   },
   uploadText: { marginTop: 6, color: '#6B7280', fontWeight: '700' },
+  proofHint: { marginTop: 4, marginBottom: 12, color: '#4A4A4A', fontSize: 13 },
+  proofThumbs: { flexDirection: 'row', flexWrap: 'wrap', gap: 8, marginBottom: 12 },
+  proofThumb: { width: 64, height: 112, borderRadius: 8, backgroundColor: '#E5E7EB' },
+  proofRemove: { position: 'absolute', top: 4, right: 4, width: 20, height: 20, borderRadius: 10, backgroundColor: 'rgba(0,0,0,0.6)', alignItems: 'center', justifyContent: 'center' },
   submitBtn: {
     marginTop: 12,
     backgroundColor: '#2563EB',
@@ -0,0 +1,32 @@
+import React from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import MaterialIcons from '@expo/vector-icons/MaterialIcons';
+import { useCacheStatus } from '@/hooks/useCacheStatus';
+import { useNow } from '@/hooks/useNow';
+
+function formatAgo(ms: number) {
+  const min = Math.floor(ms / 60000);
+  if (min < 1) return 'just now';
+  if (min < 60) return `${min} min ago`;
+  const h = Math.floor(min / 60);
+  if (h < 24) return `${h} h ago`;
+  return `${Math.floor(h / 24)} d ago`;
+}
+
+// "Last updated" note shown while a screen is serving saved content that has not been refreshed yet
+export function CacheHint({ keys, isDark }: { keys: string[]; isDark?: boolean }) {
+  const { stale, updatedAt } = useCacheStatus(keys);
+  const now = useNow(stale ? 30 * 1000 : 0);
+  if (!stale || !updatedAt) return null;
+  return (
+    <View style={styles.row}>
+      <MaterialIcons name="cloud-off" size={14} color={isDark ? '#9CA3AF' : '#6B7280'} />
+      <Text style={[styles.text, isDark && { color: '#9CA3AF' }]}>Showing saved content · updated {formatAgo(now - updatedAt)}</Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: { flexDirection: 'row', alignItems: 'center', justifyContent: 'center', gap: 6, marginTop: 6 },
+  text: { color: '#6B7280', fontSize: 12, fontWeight: '600' },
+});
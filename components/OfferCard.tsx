@@ -0,0 +1,226 @@
+import React, { useState } from 'react';
+import { Image, StyleSheet, Text, TouchableOpacity, View, useColorScheme } from 'react-native';
+import MaterialIcons from '@expo/vector-icons/MaterialIcons';
+import { OfferCountdown } from '@/components/OfferCountdown';
+import { offerTotalReward, type OfferItem } from '@/lib/content';
+
+// Types
+type Offer = OfferItem;
+
+// Home feed card; also used by the admin "Preview as user"
+export function OfferCard({ offer, dummy, index, onPress }: { offer?: Offer; dummy?: boolean; index: number; onPress?: () => void }) {
+  const colorScheme = useColorScheme();
+  const isDark = colorScheme === 'dark';
+  const label = offer?.label ?? `Offer ${index + 1}`;
+  const amount = offer ? offerTotalReward(offer) : (index % 2 === 0 ? 5 : 7);
+  const description = offer ? (offer.description || 'Complete simple steps to earn rewards.') : '────────────── ──────────────';
+  const [ctaPressed, setCtaPressed] = useState(false);
+  return (
+    <View style={styles.offerCardWrapper}> 
+      <View style={styles.offerLabelPill}>
+        <Text style={styles.offerLabelText}>{label}</Text>
+      </View>
+      <View
+        style={[
+          styles.offerCard,
+          isDark ? styles.offerCardDark : styles.offerCardLight,
+          dummy && (isDark ? styles.offerCardMutedDark : styles.offerCardMuted),
+        ]}
+      >
+        {/* Top Row: Icon + Name + Reward Pill */}
+        <View style={styles.cardTopRow}>
+          <View style={[styles.iconPlaceholder, dummy ? styles.iconMuted : styles.iconVibrant]}>
+            {offer?.icon ? (
+              <Image source={{ uri: offer.iconThumb || offer.icon }} style={{ width: 48, height: 48, borderRadius: 10 }} />
+            ) : (
+              <MaterialIcons name="apps" size={26} color={dummy ? '#9AA0A6' : '#ffffff'} />
+            )}
+          </View>
+          <View style={{ flex: 1, paddingRight: 10 }}>
+            <Text
+              numberOfLines={1}
+              style={[
+                styles.offerTitle,
+                { fontSize: 16 },
+                isDark && { color: '#E5E7EB' },
+                dummy && styles.offerTitleMuted,
+              ]}
+            >
+              {offer?.title ?? '──────────────'}
+            </Text>
+          </View>
+          <View
+            style={[
+              styles.rewardPill,
+              isDark ? styles.rewardPillDark : styles.rewardPillLight,
+              dummy && styles.rewardPillDisabled,
+            ]}
+          >
+            <Text
+              style={[
+                styles.rewardText,
+                isDark ? styles.rewardTextDark : styles.rewardTextLight,
+                dummy && styles.rewardTextDisabled,
+              ]}
+            >
+              {`₹${amount}`}
+            </Text>
+          </View>
+        </View>
+
+        {/* Description */}
+        <Text
+          numberOfLines={2}
+          style={[
+            styles.offerDesc,
+            { color: isDark ? '#D1D5DB' : '#4B5563' },
+            dummy && styles.offerTitleMuted,
+          ]}
+        >
+          {description}
+        </Text>
+
+        {!!offer && <OfferCountdown offer={offer} isDark={isDark} />}
+
+        {/* Divider */}
+        <View style={[styles.cardDivider, { backgroundColor: isDark ? '#334155' : '#E5E7EB' }]} />
+
+        {/* Footer: Solid View Details button */}
+        <TouchableOpacity
+          disabled={dummy}
+          activeOpacity={0.9}
+          onPress={onPress}
+          onPressIn={() => setCtaPressed(true)}
+          onPressOut={() => setCtaPressed(false)}
+          style={[
+            styles.viewDetailsBtn,
+            {
+              backgroundColor: isDark
+                ? (ctaPressed ? '#4338CA' : '#4F46E5')
+                : (ctaPressed ? '#1D4ED8' : '#2563EB'),
+            },
+          ]}
+        >
+          <Text style={styles.viewDetailsBtnText}>View Details →</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  offerCardWrapper: {
+    position: 'relative',
+  },
+  offerLabelPill: {
+    position: 'absolute',
+    top: -8,
+    left: 12,
+    backgroundColor: '#2947F7',
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderTopLeftRadius: 8,
+    borderTopRightRadius: 8,
+    zIndex: 2,
+  },
+  offerLabelText: {
+    color: '#fff',
+    fontSize: 11,
+    fontWeight: '700',
+  },
+  offerCard: {
+    borderRadius: 16,
+    padding: 14,
+    paddingTop: 18,
+    gap: 8,
+    minHeight: 120,
+    // soft shadow
+    shadowColor: '#000',
+    shadowOpacity: 0.06,
+    shadowRadius: 8,
+    shadowOffset: { width: 0, height: 4 },
+    elevation: 2,
+  },
+  offerCardLight: {
+    backgroundColor: '#FFFFFF',
+  },
+  offerCardMuted: {
+    backgroundColor: '#F2F2F2',
+  },
+  offerCardDark: {
+    backgroundColor: '#1E293B',
+  },
+  offerCardMutedDark: {
+    backgroundColor: '#111827',
+  },
+  cardTopRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  iconPlaceholder: {
+    width: 48,
+    height: 48,
+    borderRadius: 10,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  iconVibrant: {
+    backgroundColor: '#6C8CFF',
+  },
+  iconMuted: {
+    backgroundColor: '#E0E0E0',
+  },
+  offerTitle: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#2E2E2E',
+    flexShrink: 1,
+  },
+  offerTitleMuted: {
+    color: '#9AA0A6',
+    fontWeight: '600',
+  },
+  rewardPill: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 999,
+    minWidth: 56,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  rewardPillLight: { backgroundColor: '#FDE68A' },
+  rewardPillDark: { backgroundColor: '#F59E0B' },
+  rewardPillDisabled: { opacity: 0.6 },
+  rewardText: { fontWeight: '900' },
+  rewardTextLight: { color: '#1F2937' },
+  rewardTextDark: { color: '#FFFFFF' },
+  rewardTextDisabled: { opacity: 0.6 },
+
+  offerDesc: {
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  cardDivider: {
+    height: StyleSheet.hairlineWidth,
+    width: '100%',
+    marginTop: 6,
+  },
+  cardFooterRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'flex-end',
+    marginTop: 6,
+  },
+  viewDetailsBtn: {
+    marginTop: 8,
+    borderRadius: 10,
+    paddingVertical: 12,
+    alignItems: 'center',
+    width: '100%',
+  },
+  viewDetailsBtnText: {
+    color: '#FFFFFF',
+    fontWeight: '900',
+  },
+});
@@ -0,0 +1,39 @@
+import React from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import MaterialIcons from '@expo/vector-icons/MaterialIcons';
+import { useNow } from '@/hooks/useNow';
+import { EXPIRING_SOON_MS, formatCountdown, msUntilOfferEnds, type OfferItem } from '@/lib/content';
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+// Ticking "Ends in" pill for offers close to their end time; renders nothing otherwise
+export function OfferCountdown({ offer, isDark }: { offer: Pick<OfferItem, 'startsAt' | 'endsAt'>; isDark?: boolean }) {
+  // Only offers with an end date tick: every minute, and every second in the last hour
+  const coarse = useNow(offer.endsAt ? MINUTE_MS : 0);
+  const coarseLeft = msUntilOfferEnds(offer, coarse);
+  const fine = useNow(coarseLeft !== null && coarseLeft <= HOUR_MS ? 1000 : 0);
+  const left = msUntilOfferEnds(offer, Math.max(coarse, fine));
+  if (left === null || left > EXPIRING_SOON_MS) return null;
+  return (
+    <View style={[styles.pill, isDark ? styles.pillDark : styles.pillLight]}>
+      <MaterialIcons name="timer" size={14} color={isDark ? '#FCA5A5' : '#B91C1C'} />
+      <Text style={[styles.text, isDark && { color: '#FCA5A5' }]}>Ends in {formatCountdown(left)}</Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  pill: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: 4,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 999,
+  },
+  pillLight: { backgroundColor: '#FEE2E2' },
+  pillDark: { backgroundColor: '#450A0A' },
+  text: { color: '#B91C1C', fontWeight: '800', fontSize: 12 },
+});
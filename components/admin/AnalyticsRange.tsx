@@ -0,0 +1,68 @@
+import React, { useMemo, useState } from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { ScheduleField, localInputToIso } from '@/components/admin/ScheduleField';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RANGES: { id: string; label: string; days: number | null }[] = [
+  { id: '7d', label: 'Last 7 days', days: 7 },
+  { id: '30d', label: 'Last 30 days', days: 30 },
+  { id: 'all', label: 'All time', days: null },
+  { id: 'custom', label: 'Custom', days: null },
+];
+
+export type AnalyticsRange = { from?: string; to?: string };
+
+// Date range for analytics panels; `range` is null while a custom range is incomplete or invalid
+export function useAnalyticsRange(initial = '7d') {
+  const [rangeId, setRangeId] = useState(initial);
+  const [fromText, setFromText] = useState('');
+  const [toText, setToText] = useState('');
+
+  const range = useMemo((): AnalyticsRange | null => {
+    if (rangeId === 'custom') {
+      const from = localInputToIso(fromText);
+      const to = localInputToIso(toText);
+      if (from === null || to === null) return null;
+      return { from, to };
+    }
+    const days = RANGES.find((r) => r.id === rangeId)?.days;
+    return days ? { from: new Date(Date.now() - days * DAY_MS).toISOString() } : {};
+  }, [rangeId, fromText, toText]);
+
+  return { rangeId, setRangeId, fromText, setFromText, toText, setToText, range };
+}
+
+export function AnalyticsRangePicker({ state, isDark }: { state: ReturnType<typeof useAnalyticsRange>; isDark: boolean }) {
+  return (
+    <>
+      <View style={styles.chips}>
+        {RANGES.map((r) => (
+          <TouchableOpacity
+            key={r.id}
+            onPress={() => state.setRangeId(r.id)}
+            style={[styles.chip, state.rangeId === r.id ? styles.chipActive : isDark ? styles.chipDark : styles.chipLight]}
+          >
+            <Text style={[styles.chipText, state.rangeId === r.id && { color: '#FFFFFF' }]}>{r.label}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+      {state.rangeId === 'custom' && (
+        <>
+          <ScheduleField label="From" value={state.fromText} onChange={state.setFromText} isDark={isDark} />
+          <ScheduleField label="To" value={state.toText} onChange={state.setToText} isDark={isDark} />
+          {!state.range && <Text style={styles.error}>Use the format YYYY-MM-DD HH:mm.</Text>}
+        </>
+      )}
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  chips: { flexDirection: 'row', flexWrap: 'wrap', gap: 8 },
+  chip: { paddingHorizontal: 10, paddingVertical: 6, borderRadius: 999 },
+  chipLight: { backgroundColor: '#E5E7EB' },
+  chipDark: { backgroundColor: '#1F2937' },
+  chipActive: { backgroundColor: '#2563EB' },
+  chipText: { color: '#374151', fontWeight: '800', fontSize: 12 },
+  error: { color: '#B91C1C', fontSize: 12 },
+});
@@ -0,0 +1,117 @@
+import React from 'react';
+import { StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import { getAttributionAdapter, listAttributionAdapters, type AttributionNetwork, type OfferAttribution } from '@/lib/attribution';
+import type { StepDraft } from '@/components/admin/StepsEditor';
+
+// Form state for postback attribution; no network means generic postbacks complete the offer
+export type AttributionDraft = { network: AttributionNetwork | ''; completionEvent: string; stepEvents: Record<string, string> };
+
+export const EMPTY_ATTRIBUTION: AttributionDraft = { network: '', completionEvent: '', stepEvents: {} };
+
+export function attributionToDraft(a?: OfferAttribution): AttributionDraft {
+  if (!a) return EMPTY_ATTRIBUTION;
+  return { network: a.network, completionEvent: a.completionEvent ?? '', stepEvents: { ...(a.stepEvents ?? {}) } };
+}
+
+// Milestones the network settles: paid steps verified by tracking postback
+function postbackSteps(steps: StepDraft[]) {
+  return steps.filter((s) => s.verification === 'postback' && Number(s.reward) > 0);
+}
+
+const EVENT_NAME = /^[A-Za-z0-9_.:-]+$/;
+
+/** Returns an error message when the draft is invalid, otherwise null. */
+export function validateAttribution(d: AttributionDraft, steps: StepDraft[]): string | null {
+  if (!d.network) return null;
+  const events = [d.completionEvent, ...postbackSteps(steps).map((s) => d.stepEvents[s.id] ?? '')]
+    .map((e) => e.trim().toLowerCase())
+    .filter(Boolean);
+  if (events.some((e) => !EVENT_NAME.test(e))) return 'Event names may only contain letters, digits and _ . : -';
+  if (new Set(events).size !== events.length) return 'Each event can complete only one milestone';
+  return null;
+}
+
+// Maps the draft onto the offer; the key is always present so edits can clear the settings
+export function draftToAttribution(d: AttributionDraft, steps: StepDraft[]): { attribution: OfferAttribution | undefined } {
+  if (!d.network) return { attribution: undefined };
+  const stepEvents: Record<string, string> = {};
+  for (const s of postbackSteps(steps)) {
+    const name = d.stepEvents[s.id]?.trim().toLowerCase();
+    if (name) stepEvents[s.id] = name;
+  }
+  return {
+    attribution: {
+      network: d.network,
+      completionEvent: d.completionEvent.trim().toLowerCase() || undefined,
+      stepEvents: Object.keys(stepEvents).length ? stepEvents : undefined,
+    },
+  };
+}
+
+// Which attribution network reports conversions, and which of its events complete the offer or a milestone
+export function AttributionFields({ value, onChange, steps, isDark }: { value: AttributionDraft; onChange: (v: AttributionDraft) => void; steps: StepDraft[]; isDark: boolean }) {
+  const adapter = value.network ? getAttributionAdapter(value.network) : null;
+  const milestones = postbackSteps(steps);
+  const inputStyle = [styles.input, isDark ? styles.inputDark : styles.inputLight];
+  const chip = (active: boolean) => [styles.chip, active ? styles.chipActive : (isDark ? styles.chipDark : styles.chipLight)];
+
+  return (
+    <View style={{ marginTop: 8 }}>
+      <Text style={[styles.label, isDark && { color: '#9CA3AF' }]}>Postback attribution</Text>
+      <View style={styles.chips}>
+        <TouchableOpacity onPress={() => onChange(EMPTY_ATTRIBUTION)} style={chip(!value.network)}>
+          <Text style={[styles.chipText, !value.network && { color: '#fff' }]}>Default</Text>
+        </TouchableOpacity>
+        {listAttributionAdapters().map((a) => (
+          <TouchableOpacity key={a.network} onPress={() => onChange({ ...value, network: a.network })} style={chip(value.network === a.network)}>
+            <Text style={[styles.chipText, value.network === a.network && { color: '#fff' }]}>{a.label}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+      {!adapter ? (
+        <Text style={[styles.hint, isDark && { color: '#9CA3AF' }]}>Any generic postback with the click id completes the offer.</Text>
+      ) : (
+        <>
+          <Text style={[styles.cellLabel, { marginTop: 8 }, isDark && { color: '#9CA3AF' }]}>Completion event</Text>
+          <TextInput
+            value={value.completionEvent}
+            onChangeText={(v) => onChange({ ...value, completionEvent: v })}
+            placeholder={adapter.defaultEvent}
+            autoCapitalize="none"
+            style={inputStyle}
+            placeholderTextColor={isDark ? '#9CA3AF' : '#9AA0A6'}
+          />
+          <Text style={[styles.hint, isDark && { color: '#9CA3AF' }]}>Common: {adapter.events.join(', ')}</Text>
+          {milestones.map((s) => (
+            <View key={s.id} style={{ marginTop: 6 }}>
+              <Text style={[styles.cellLabel, isDark && { color: '#9CA3AF' }]} numberOfLines={1}>Event for “{s.text}” (₹{s.reward})</Text>
+              <TextInput
+                value={value.stepEvents[s.id] ?? ''}
+                onChangeText={(v) => onChange({ ...value, stepEvents: { ...value.stepEvents, [s.id]: v } })}
+                placeholder="e.g., af_level_achieved"
+                autoCapitalize="none"
+                style={inputStyle}
+                placeholderTextColor={isDark ? '#9CA3AF' : '#9AA0A6'}
+              />
+            </View>
+          ))}
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  label: { fontWeight: '800', color: '#374151' },
+  cellLabel: { color: '#6B7280', fontSize: 12, fontWeight: '700', marginBottom: 4 },
+  hint: { color: '#6B7280', fontSize: 12, marginTop: 4 },
+  input: { borderRadius: 10, paddingHorizontal: 12, paddingVertical: 12, borderWidth: 1 },
+  inputLight: { backgroundColor: '#FFFFFF', borderColor: '#E5E7EB' },
+  inputDark: { backgroundColor: '#111827', borderColor: '#374151', color: '#E5E7EB' },
+  chips: { flexDirection: 'row', flexWrap: 'wrap', gap: 8, marginTop: 6 },
+  chip: { paddingHorizontal: 10, paddingVertical: 6, borderRadius: 20, borderWidth: 1 },
+  chipLight: { backgroundColor: '#FFFFFF', borderColor: '#E5E7EB' },
+  chipDark: { backgroundColor: '#111827', borderColor: '#374151' },
+  chipActive: { backgroundColor: '#2563EB', borderColor: '#1E40AF' },
+  chipText: { color: '#374151', fontWeight: '800' },
+});
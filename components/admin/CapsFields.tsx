@@ -0,0 +1,70 @@
+import React from 'react';
+import { StyleSheet, Text, TextInput, View } from 'react-native';
+import type { OfferCaps } from '@/lib/content';
+
+// Form state for offer caps; empty strings mean "no cap"
+export type CapsDraft = { capTotal: string; capDaily: string; budgetTotal: string; budgetDaily: string };
+
+export const EMPTY_CAPS: CapsDraft = { capTotal: '', capDaily: '', budgetTotal: '', budgetDaily: '' };
+
+export function capsToDraft(caps: OfferCaps): CapsDraft {
+  const str = (n?: number) => (n ? String(n) : '');
+  return { capTotal: str(caps.capTotal), capDaily: str(caps.capDaily), budgetTotal: str(caps.budgetTotal), budgetDaily: str(caps.budgetDaily) };
+}
+
+/**
+ * Parses the draft into caps with every key present (undefined = no cap, so patches clear it),
+ * or returns null when a value is not a positive number (a whole number for install counts).
+ */
+export function draftToCaps(draft: CapsDraft): OfferCaps | null {
+  const out: OfferCaps = {};
+  for (const key of Object.keys(draft) as (keyof CapsDraft)[]) {
+    const t = draft[key].trim();
+    if (!t) { out[key] = undefined; continue; }
+    const n = Number(t);
+    if (!Number.isFinite(n) || n <= 0) return null;
+    if ((key === 'capTotal' || key === 'capDaily') && !Number.isInteger(n)) return null;
+    out[key] = n;
+  }
+  return out;
+}
+
+const FIELDS: { key: keyof CapsDraft; label: string; placeholder: string }[] = [
+  { key: 'capTotal', label: 'Total installs', placeholder: 'e.g., 500' },
+  { key: 'capDaily', label: 'Daily installs', placeholder: 'e.g., 50' },
+  { key: 'budgetTotal', label: 'Total budget (₹)', placeholder: 'e.g., 2500' },
+  { key: 'budgetDaily', label: 'Daily budget (₹)', placeholder: 'e.g., 250' },
+];
+
+export function CapsFields({ value, onChange, isDark }: { value: CapsDraft; onChange: (v: CapsDraft) => void; isDark: boolean }) {
+  return (
+    <View style={{ marginTop: 8 }}>
+      <Text style={[styles.label, isDark && { color: '#9CA3AF' }]}>Caps (optional)</Text>
+      <View style={styles.grid}>
+        {FIELDS.map((f) => (
+          <View key={f.key} style={styles.cell}>
+            <Text style={[styles.cellLabel, isDark && { color: '#9CA3AF' }]}>{f.label}</Text>
+            <TextInput
+              value={value[f.key]}
+              onChangeText={(v) => onChange({ ...value, [f.key]: v })}
+              placeholder={f.placeholder}
+              keyboardType="numeric"
+              style={[styles.input, isDark ? styles.inputDark : styles.inputLight]}
+              placeholderTextColor={isDark ? '#9CA3AF' : '#9AA0A6'}
+            />
+          </View>
+        ))}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  label: { fontWeight: '800', color: '#374151' },
+  grid: { flexDirection: 'row', flexWrap: 'wrap', gap: 8, marginTop: 6 },
+  cell: { width: '48%' },
+  cellLabel: { color: '#6B7280', fontSize: 12, fontWeight: '700', marginBottom: 4 },
+  input: { borderRadius: 10, paddingHorizontal: 12, paddingVertical: 12, borderWidth: 1 },
+  inputLight: { backgroundColor: '#FFFFFF', borderColor: '#E5E7EB' },
+  inputDark: { backgroundColor: '#111827', borderColor: '#374151', color: '#E5E7EB' },
+});
@@ -0,0 +1,67 @@
+import React from 'react';
+import { StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import { OFFER_CATEGORIES, normalizeTags, type OfferCategory } from '@/lib/content';
+
+export function tagsToText(tags?: string[]) {
+  return (tags ?? []).join(', ');
+}
+
+export function textToTags(text: string) {
+  return normalizeTags(text.split(','));
+}
+
+// Category chip picker (tap again to clear) plus comma-separated tags
+export function CategoryTagsFields({
+  category,
+  onCategoryChange,
+  tagsText,
+  onTagsTextChange,
+  isDark,
+}: {
+  category?: OfferCategory;
+  onCategoryChange: (c: OfferCategory | undefined) => void;
+  tagsText: string;
+  onTagsTextChange: (v: string) => void;
+  isDark: boolean;
+}) {
+  return (
+    <View style={{ marginTop: 8 }}>
+      <Text style={[styles.label, isDark && { color: '#9CA3AF' }]}>Category</Text>
+      <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: 8, marginTop: 6 }}>
+        {OFFER_CATEGORIES.map((c) => {
+          const selected = category === c.id;
+          return (
+            <TouchableOpacity
+              key={c.id}
+              onPress={() => onCategoryChange(selected ? undefined : c.id)}
+              style={[styles.chip, selected ? styles.chipActive : (isDark ? styles.chipDark : styles.chipLight)]}
+            >
+              <Text style={[styles.chipText, selected && { color: '#fff' }]}>{c.label}</Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+      <Text style={[styles.label, isDark && { color: '#9CA3AF' }, { marginTop: 8 }]}>Tags (comma separated)</Text>
+      <TextInput
+        value={tagsText}
+        onChangeText={onTagsTextChange}
+        placeholder="e.g., new, high-payout, no-deposit"
+        autoCapitalize="none"
+        style={[styles.input, isDark ? styles.inputDark : styles.inputLight]}
+        placeholderTextColor={isDark ? '#9CA3AF' : '#9AA0A6'}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  label: { fontWeight: '800', color: '#374151' },
+  input: { borderRadius: 10, paddingHorizontal: 12, paddingVertical: 12, borderWidth: 1 },
+  inputLight: { backgroundColor: '#FFFFFF', borderColor: '#E5E7EB' },
+  inputDark: { backgroundColor: '#111827', borderColor: '#374151', color: '#E5E7EB' },
+  chip: { paddingHorizontal: 10, paddingVertical: 6, borderRadius: 20, borderWidth: 1 },
+  chipLight: { backgroundColor: '#FFFFFF', borderColor: '#E5E7EB' },
+  chipDark: { backgroundColor: '#111827', borderColor: '#374151' },
+  chipActive: { backgroundColor: '#2563EB', borderColor: '#1E40AF' },
+  chipText: { color: '#374151', fontWeight: '800' },
+});
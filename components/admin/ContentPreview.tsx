@@ -0,0 +1,47 @@
+import React from 'react';
+import { Dimensions, Image, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { Link, type Href } from 'expo-router';
+import { OfferCard } from '@/components/OfferCard';
+import type { OfferItem, Slide } from '@/lib/content';
+
+const { width: SCREEN_WIDTH } = Dimensions.get('window');
+
+// "Preview as user": the Home card exactly as users will see it, plus the details screen in preview mode
+export function OfferPreview({ offer, isDark }: { offer: OfferItem; isDark: boolean }) {
+  return (
+    <View style={[styles.panel, isDark ? styles.panelDark : styles.panelLight]}>
+      <Text style={[styles.heading, isDark && { color: '#E5E7EB' }]}>Preview as user</Text>
+      <View style={{ marginTop: 12 }}>
+        <OfferCard offer={offer} index={0} />
+      </View>
+      <Link href={`/offer/${offer.id}?preview=1` as Href} asChild>
+        <TouchableOpacity style={styles.btn}>
+          <Text style={styles.btnText}>Open details preview</Text>
+        </TouchableOpacity>
+      </Link>
+    </View>
+  );
+}
+
+// Slide rendered at the Home carousel size
+export function SlidePreview({ slide, isDark }: { slide: Slide; isDark: boolean }) {
+  return (
+    <View style={[styles.panel, isDark ? styles.panelDark : styles.panelLight]}>
+      <Text style={[styles.heading, isDark && { color: '#E5E7EB' }]}>Preview as user</Text>
+      <View style={{ width: Math.min(SCREEN_WIDTH - 64, 480), marginTop: 8, borderRadius: 12, overflow: 'hidden' }}>
+        <Image source={{ uri: slide.image }} style={{ width: '100%', height: 160, backgroundColor: '#e5e7eb' }} resizeMode="cover" />
+      </View>
+      {!!slide.link && <Text style={[styles.sub, isDark && { color: '#9CA3AF' }]}>Opens: {slide.link}</Text>}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  panel: { marginTop: 6, padding: 12, borderRadius: 10 },
+  panelLight: { backgroundColor: '#F3F4F6' },
+  panelDark: { backgroundColor: '#0F172A' },
+  heading: { fontWeight: '900', color: '#111827' },
+  sub: { color: '#6B7280', marginTop: 6, fontSize: 12 },
+  btn: { marginTop: 12, backgroundColor: '#2563EB', paddingVertical: 10, borderRadius: 10, alignItems: 'center' },
+  btnText: { color: '#FFFFFF', fontWeight: '900' },
+});
@@ -0,0 +1,43 @@
+import React from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { router, type Href } from 'expo-router';
+import type { ProofDuplicate } from '@/lib/proofHash';
+
+function describeMatch(d: ProofDuplicate) {
+  const who = d.sameUser ? 'same user' : `user ${d.matchUserId.slice(0, 8)}`;
+  const how = d.distance === 0 ? 'identical' : `${d.distance} bit${d.distance === 1 ? '' : 's'} apart`;
+  return `${who}${d.matchOfferId ? ` • offer ${d.matchOfferId}` : ''} • ${how}`;
+}
+
+// Warning for proof screenshots that copy one submitted earlier by another transaction; each match opens that transaction
+export function DuplicateProofNotice({ duplicates, compact }: { duplicates: ProofDuplicate[]; compact?: boolean }) {
+  // One line per matching transaction, closest screenshot first
+  const byTx = new Map<string, ProofDuplicate>();
+  for (const d of [...duplicates].sort((a, b) => a.distance - b.distance)) {
+    if (!byTx.has(d.matchTransactionId)) byTx.set(d.matchTransactionId, d);
+  }
+  const matches = Array.from(byTx.values());
+  const shown = compact ? matches.slice(0, 1) : matches;
+
+  return (
+    <View style={[styles.box, compact && styles.boxCompact]}>
+      <Text style={styles.title}>
+        Duplicate of earlier proof{matches.length > 1 ? ` (${matches.length} transactions)` : ''}
+      </Text>
+      {shown.map((d) => (
+        <TouchableOpacity key={d.matchTransactionId} onPress={() => router.push(`/admin/review?id=${d.matchTransactionId}` as Href)}>
+          <Text style={styles.link} numberOfLines={compact ? 1 : 2}>
+            {d.matchTransactionId.slice(0, 8)} — {describeMatch(d)}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  box: { backgroundColor: '#FEF3C7', borderColor: '#F59E0B', borderWidth: 1, borderRadius: 10, padding: 10, gap: 4 },
+  boxCompact: { marginTop: 6, padding: 6, borderRadius: 8 },
+  title: { color: '#92400E', fontWeight: '900' },
+  link: { color: '#1D4ED8', fontWeight: '700', fontSize: 12, textDecorationLine: 'underline' },
+});
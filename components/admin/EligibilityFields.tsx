@@ -0,0 +1,104 @@
+import React from 'react';
+import { StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import type { EligibilityRule } from '@/lib/content';
+
+// Form state for eligibility rules; empty fields mean the rule is off
+export type EligibilityDraft = { joinedWithinDays: string; minPaidTasks: string; notCompletedOfferIds: string; oncePerDevice: boolean };
+
+export const EMPTY_ELIGIBILITY: EligibilityDraft = { joinedWithinDays: '', minPaidTasks: '', notCompletedOfferIds: '', oncePerDevice: false };
+
+export function eligibilityToDraft(rules?: EligibilityRule[]): EligibilityDraft {
+  const draft = { ...EMPTY_ELIGIBILITY };
+  const excluded: string[] = [];
+  for (const r of rules ?? []) {
+    if (r.kind === 'joined_within_days') draft.joinedWithinDays = String(r.days);
+    else if (r.kind === 'min_paid_tasks') draft.minPaidTasks = String(r.count);
+    else if (r.kind === 'not_completed_offer') excluded.push(r.offerId);
+    else if (r.kind === 'once_per_device') draft.oncePerDevice = true;
+  }
+  draft.notCompletedOfferIds = excluded.join(', ');
+  return draft;
+}
+
+function isPositiveInt(v: string) {
+  return /^\d+$/.test(v.trim()) && Number(v) > 0;
+}
+
+/** Returns an error message when the draft is invalid, otherwise null. */
+export function validateEligibility(d: EligibilityDraft): string | null {
+  if (d.joinedWithinDays.trim() && !isPositiveInt(d.joinedWithinDays)) return 'Joined within must be a whole number of days';
+  if (d.minPaidTasks.trim() && !isPositiveInt(d.minPaidTasks)) return 'Minimum paid tasks must be a whole number';
+  return null;
+}
+
+// Maps the draft onto the offer; the key is always present so edits can clear the rules
+export function draftToEligibility(d: EligibilityDraft): { eligibility: EligibilityRule[] | undefined } {
+  const rules: EligibilityRule[] = [];
+  if (d.joinedWithinDays.trim()) rules.push({ kind: 'joined_within_days', days: Number(d.joinedWithinDays) });
+  if (d.minPaidTasks.trim()) rules.push({ kind: 'min_paid_tasks', count: Number(d.minPaidTasks) });
+  const excluded = Array.from(new Set(d.notCompletedOfferIds.split(',').map((s) => s.trim()).filter(Boolean)));
+  for (const offerId of excluded) rules.push({ kind: 'not_completed_offer', offerId });
+  if (d.oncePerDevice) rules.push({ kind: 'once_per_device' });
+  return { eligibility: rules.length ? rules : undefined };
+}
+
+// Who may start the offer: new users only, experienced users only, exclusions and device limits
+export function EligibilityFields({ value, onChange, isDark }: { value: EligibilityDraft; onChange: (v: EligibilityDraft) => void; isDark: boolean }) {
+  return (
+    <View style={{ marginTop: 8 }}>
+      <Text style={[styles.label, isDark && { color: '#9CA3AF' }]}>Eligibility</Text>
+      <View style={{ flexDirection: 'row', gap: 8, marginTop: 6 }}>
+        <View style={{ flex: 1 }}>
+          <Text style={[styles.cellLabel, isDark && { color: '#9CA3AF' }]}>Joined within (days)</Text>
+          <TextInput
+            value={value.joinedWithinDays}
+            onChangeText={(v) => onChange({ ...value, joinedWithinDays: v })}
+            placeholder="any"
+            keyboardType="numeric"
+            style={[styles.input, isDark ? styles.inputDark : styles.inputLight]}
+            placeholderTextColor={isDark ? '#9CA3AF' : '#9AA0A6'}
+          />
+        </View>
+        <View style={{ flex: 1 }}>
+          <Text style={[styles.cellLabel, isDark && { color: '#9CA3AF' }]}>Min paid tasks</Text>
+          <TextInput
+            value={value.minPaidTasks}
+            onChangeText={(v) => onChange({ ...value, minPaidTasks: v })}
+            placeholder="0"
+            keyboardType="numeric"
+            style={[styles.input, isDark ? styles.inputDark : styles.inputLight]}
+            placeholderTextColor={isDark ? '#9CA3AF' : '#9AA0A6'}
+          />
+        </View>
+      </View>
+      <Text style={[styles.cellLabel, { marginTop: 8 }, isDark && { color: '#9CA3AF' }]}>Hide from users who completed (offer IDs)</Text>
+      <TextInput
+        value={value.notCompletedOfferIds}
+        onChangeText={(v) => onChange({ ...value, notCompletedOfferIds: v })}
+        placeholder="e.g., offer-a, offer-b"
+        autoCapitalize="none"
+        style={[styles.input, isDark ? styles.inputDark : styles.inputLight]}
+        placeholderTextColor={isDark ? '#9CA3AF' : '#9AA0A6'}
+      />
+      <TouchableOpacity
+        onPress={() => onChange({ ...value, oncePerDevice: !value.oncePerDevice })}
+        style={[styles.chip, { marginTop: 8 }, value.oncePerDevice ? styles.chipActive : (isDark ? styles.chipDark : styles.chipLight)]}
+      >
+        <Text style={[styles.chipText, value.oncePerDevice && { color: '#fff' }]}>Once per device</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  label: { fontWeight: '800', color: '#374151' },
+  cellLabel: { color: '#6B7280', fontSize: 12, fontWeight: '700', marginBottom: 4 },
+  input: { borderRadius: 10, paddingHorizontal: 12, paddingVertical: 12, borderWidth: 1 },
+  inputLight: { backgroundColor: '#FFFFFF', borderColor: '#E5E7EB' },
+  inputDark: { backgroundColor: '#111827', borderColor: '#374151', color: '#E5E7EB' },
+  chip: { alignSelf: 'flex-start', paddingHorizontal: 10, paddingVertical: 6, borderRadius: 20, borderWidth: 1 },
+  chipLight: { backgroundColor: '#FFFFFF', borderColor: '#E5E7EB' },
+  chipDark: { backgroundColor: '#111827', borderColor: '#374151' },
+  chipActive: { backgroundColor: '#2563EB', borderColor: '#1E40AF' },
+  chipText: { color: '#374151', fontWeight: '800' },
+});
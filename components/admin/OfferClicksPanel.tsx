@@ -0,0 +1,78 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { ActivityIndicator, Image, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import type { OfferItem } from '@/lib/content';
+import { fetchOfferClickStats, type OfferClickStats } from '@/lib/offerClicks';
+import { formatCtr } from '@/lib/slideAnalytics';
+import { AnalyticsRangePicker, useAnalyticsRange } from '@/components/admin/AnalyticsRange';
+
+const EMPTY_STATS: OfferClickStats = { clicks: 0, clickers: 0, conversions: 0, conversionRate: 0 };
+
+// Per-offer CTA clicks, unique clickers and click-to-conversion rate; most clicked first
+export function OfferClicksPanel({ offers, isDark }: { offers: OfferItem[]; isDark: boolean }) {
+  const rangeState = useAnalyticsRange();
+  const { range } = rangeState;
+  const [stats, setStats] = useState<Record<string, OfferClickStats>>({});
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    if (!range) return;
+    setLoading(true);
+    setError(null);
+    try {
+      setStats(await fetchOfferClickStats(range));
+    } catch (e: any) {
+      setError(e?.message || 'Failed to load clicks');
+    } finally {
+      setLoading(false);
+    }
+  }, [range]);
+
+  useEffect(() => { load(); }, [load]);
+
+  const rows = useMemo(() => offers
+    .map((o) => ({ offer: o, stat: stats[o.id] ?? EMPTY_STATS }))
+    .sort((a, b) => b.stat.clicks - a.stat.clicks || b.stat.conversionRate - a.stat.conversionRate), [offers, stats]);
+
+  return (
+    <View style={[styles.panel, isDark ? styles.panelDark : styles.panelLight]}>
+      <View style={{ flexDirection: 'row', alignItems: 'center' }}>
+        <Text style={[styles.heading, isDark && { color: '#E5E7EB' }, { flex: 1 }]}>Offer clicks</Text>
+        <TouchableOpacity onPress={load} disabled={loading}>
+          <Text style={styles.link}>{loading ? 'Loading...' : 'Refresh'}</Text>
+        </TouchableOpacity>
+      </View>
+      <AnalyticsRangePicker state={rangeState} isDark={isDark} />
+      {!!error && <Text style={styles.error}>{error}</Text>}
+      {loading && !Object.keys(stats).length && <ActivityIndicator color={isDark ? '#E5E7EB' : '#111827'} />}
+      {rows.map(({ offer, stat }) => (
+        <View key={offer.id} style={styles.row}>
+          {offer.iconThumb || offer.icon
+            ? <Image source={{ uri: offer.iconThumb || offer.icon }} style={styles.icon} />
+            : <View style={styles.icon} />}
+          <View style={{ flex: 1 }}>
+            <Text numberOfLines={1} style={[styles.title, isDark && { color: '#E5E7EB' }]}>{offer.title}</Text>
+            <Text style={[styles.sub, isDark && { color: '#9CA3AF' }]}>
+              {stat.clicks} clicks • {stat.clickers} clickers • {stat.conversions} converted
+            </Text>
+          </View>
+          <Text style={[styles.rate, isDark && { color: '#E5E7EB' }]}>{formatCtr(stat.conversionRate)}</Text>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  panel: { marginTop: 12, padding: 12, borderRadius: 10, gap: 8 },
+  panelLight: { backgroundColor: '#F3F4F6' },
+  panelDark: { backgroundColor: '#0F172A' },
+  heading: { fontWeight: '900', color: '#111827' },
+  link: { color: '#2563EB', fontWeight: '800' },
+  error: { color: '#B91C1C', fontSize: 12 },
+  row: { flexDirection: 'row', alignItems: 'center', gap: 10 },
+  icon: { width: 36, height: 36, borderRadius: 8, backgroundColor: '#E5E7EB' },
+  title: { fontWeight: '700', color: '#111827', fontSize: 12 },
+  sub: { color: '#6B7280', fontSize: 11, marginTop: 2 },
+  rate: { fontWeight: '900', color: '#111827', minWidth: 52, textAlign: 'right' },
+});
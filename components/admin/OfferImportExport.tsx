@@ -0,0 +1,137 @@
+import React, { useMemo, useState } from 'react';
+import { Alert, Share, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import type { OfferItem } from '@/lib/content';
+import { applyImport, detectFormat, exportOffers, parseImport, planImport, type ImportFormat, type ImportPlan } from '@/lib/offerImport';
+
+const SAMPLE_CSV = 'title,amount,storeUrl,steps,label,active,requiresProof\nInstall Foo,10,https://play.google.com/store/apps/details?id=com.foo,Install|Open once,,true,false';
+
+// Paste-in bulk import with a dry run before anything is written, plus catalog export
+export function OfferImportExport({ offers, isDark }: { offers: OfferItem[]; isDark: boolean }) {
+  const [text, setText] = useState('');
+  const [plan, setPlan] = useState<ImportPlan | null>(null);
+  const [applying, setApplying] = useState(false);
+  const format = useMemo<ImportFormat>(() => detectFormat(text), [text]);
+
+  const onChangeText = (v: string) => {
+    setText(v);
+    setPlan(null); // a stale dry run must never be applied
+  };
+
+  const onDryRun = () => {
+    if (!text.trim()) { Alert.alert('Nothing to import', 'Paste CSV or JSON first.'); return; }
+    setPlan(planImport(parseImport(text, format), offers));
+  };
+
+  const onApply = () => {
+    if (!plan || plan.errors) return;
+    Alert.alert('Apply import?', `${plan.creates} new draft offer(s), ${plan.updates} update(s).`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Apply',
+        onPress: async () => {
+          setApplying(true);
+          try {
+            const failed = await applyImport(plan);
+            if (!failed.length) {
+              setText('');
+              setPlan(null);
+              return;
+            }
+            // Keep the text and show only the rows that were not written
+            setPlan({ rows: failed, creates: 0, updates: 0, errors: failed.length });
+            const written = plan.creates + plan.updates - failed.length;
+            Alert.alert('Import incomplete', `${written} row(s) written, ${failed.length} failed. See the rows below.`);
+          } catch (e: any) {
+            Alert.alert('Error', e?.message || 'Import failed');
+          } finally {
+            setApplying(false);
+          }
+        },
+      },
+    ]);
+  };
+
+  const onExport = async (fmt: ImportFormat) => {
+    try {
+      await Share.share({ title: `offers.${fmt}`, message: exportOffers(offers, fmt) });
+    } catch (e: any) {
+      Alert.alert('Error', e?.message || 'Export failed');
+    }
+  };
+
+  return (
+    <View style={[styles.panel, isDark ? styles.panelDark : styles.panelLight]}>
+      <Text style={[styles.heading, isDark && { color: '#E5E7EB' }]}>Import / Export</Text>
+      <View style={styles.row}>
+        <TouchableOpacity onPress={() => onExport('csv')} style={[styles.btn, { backgroundColor: '#374151' }]}>
+          <Text style={styles.btnText}>Export CSV</Text>
+        </TouchableOpacity>
+        <TouchableOpacity onPress={() => onExport('json')} style={[styles.btn, { backgroundColor: '#374151' }]}>
+          <Text style={styles.btnText}>Export JSON</Text>
+        </TouchableOpacity>
+      </View>
+
+      <Text style={[styles.sub, isDark && { color: '#9CA3AF' }]}>
+        Paste CSV (with a header row) or a JSON array. Steps are separated by {'"|"'} in CSV, as {'"[id] text=reward@verification"'}; write {'"\\|"'} for a literal | (likewise {'"\\=", "\\@", "\\[", "\\]"'}). Rows match existing offers by id, then by store link.
+      </Text>
+      <TextInput
+        value={text}
+        onChangeText={onChangeText}
+        placeholder={SAMPLE_CSV}
+        multiline
+        autoCapitalize="none"
+        autoCorrect={false}
+        style={[styles.input, isDark ? styles.inputDark : styles.inputLight]}
+        placeholderTextColor={isDark ? '#6B7280' : '#9AA0A6'}
+      />
+
+      <View style={styles.row}>
+        <TouchableOpacity onPress={onDryRun} style={[styles.btn, { backgroundColor: '#2563EB' }]}>
+          <Text style={styles.btnText}>Dry run ({format.toUpperCase()})</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          disabled={!plan || !!plan.errors || applying || !(plan.creates + plan.updates)}
+          onPress={onApply}
+          style={[styles.btn, { backgroundColor: '#10B981' }, (!plan || !!plan.errors || applying) && { opacity: 0.5 }]}
+        >
+          <Text style={styles.btnText}>{applying ? 'Applying...' : 'Apply'}</Text>
+        </TouchableOpacity>
+      </View>
+
+      {plan && (
+        <View style={{ gap: 4 }}>
+          <Text style={[styles.summary, isDark && { color: '#E5E7EB' }]}>
+            {plan.creates} to create • {plan.updates} to update • {plan.errors} with errors
+          </Text>
+          {plan.rows.map((r) => (
+            <Text
+              key={`${r.line}-${r.id ?? ''}`}
+              style={[styles.rowText, r.errors.length ? styles.error : isDark ? { color: '#D1D5DB' } : null]}
+            >
+              {r.line ? `Row ${r.line}` : 'File'}: {r.errors.length
+                ? r.errors.join('; ')
+                : `${r.action === 'update' ? `update ${r.targetId}` : 'create'} "${r.input?.title}"`}
+            </Text>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  panel: { marginTop: 12, padding: 12, borderRadius: 10, gap: 8 },
+  panelLight: { backgroundColor: '#F3F4F6' },
+  panelDark: { backgroundColor: '#0F172A' },
+  heading: { fontWeight: '900', color: '#111827' },
+  sub: { color: '#6B7280', fontSize: 12 },
+  row: { flexDirection: 'row', gap: 8, flexWrap: 'wrap' },
+  btn: { paddingHorizontal: 12, paddingVertical: 8, borderRadius: 8 },
+  btnText: { color: '#FFFFFF', fontWeight: '900' },
+  input: { minHeight: 110, borderWidth: 1, borderRadius: 8, padding: 10, fontSize: 12, textAlignVertical: 'top' },
+  inputLight: { borderColor: '#E5E7EB', backgroundColor: '#FFFFFF', color: '#111827' },
+  inputDark: { borderColor: '#374151', backgroundColor: '#111827', color: '#E5E7EB' },
+  summary: { fontWeight: '800', color: '#111827' },
+  rowText: { fontSize: 12, color: '#374151' },
+  error: { color: '#B91C1C' },
+});
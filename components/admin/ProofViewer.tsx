@@ -0,0 +1,96 @@
+import React, { useEffect, useState } from 'react';
+import { Image, Modal, StyleSheet, Text, TouchableOpacity, View, useWindowDimensions } from 'react-native';
+import { Gesture, GestureDetector, GestureHandlerRootView } from 'react-native-gesture-handler';
+import Animated, { useAnimatedStyle, useSharedValue, withTiming } from 'react-native-reanimated';
+
+const MAX_SCALE = 5;
+
+// Pinch to zoom, drag while zoomed, double tap to toggle 2.5x
+function ZoomableImage({ uri, width, height }: { uri: string; width: number; height: number }) {
+  const scale = useSharedValue(1);
+  const savedScale = useSharedValue(1);
+  const x = useSharedValue(0);
+  const y = useSharedValue(0);
+  const savedX = useSharedValue(0);
+  const savedY = useSharedValue(0);
+
+  const pinch = Gesture.Pinch()
+    .onUpdate((e) => { scale.value = Math.min(MAX_SCALE, Math.max(1, savedScale.value * e.scale)); })
+    .onEnd(() => {
+      savedScale.value = scale.value;
+      if (scale.value === 1) {
+        x.value = withTiming(0);
+        y.value = withTiming(0);
+        savedX.value = 0;
+        savedY.value = 0;
+      }
+    });
+  const pan = Gesture.Pan()
+    .averageTouches(true)
+    .onUpdate((e) => {
+      if (scale.value === 1) return;
+      x.value = savedX.value + e.translationX;
+      y.value = savedY.value + e.translationY;
+    })
+    .onEnd(() => { savedX.value = x.value; savedY.value = y.value; });
+  const doubleTap = Gesture.Tap()
+    .numberOfTaps(2)
+    .onEnd(() => {
+      const next = scale.value > 1 ? 1 : 2.5;
+      scale.value = withTiming(next);
+      savedScale.value = next;
+      x.value = withTiming(0);
+      y.value = withTiming(0);
+      savedX.value = 0;
+      savedY.value = 0;
+    });
+
+  const style = useAnimatedStyle(() => ({
+    transform: [{ translateX: x.value }, { translateY: y.value }, { scale: scale.value }],
+  }));
+
+  return (
+    <GestureDetector gesture={Gesture.Simultaneous(pinch, pan, doubleTap)}>
+      <Animated.View style={[{ width, height }, style]}>
+        <Image source={{ uri }} style={{ width, height }} resizeMode="contain" />
+      </Animated.View>
+    </GestureDetector>
+  );
+}
+
+// Full-screen viewer for proof screenshots, opened on the tapped one
+export function ProofViewer({ urls, index, onClose }: { urls: string[]; index: number | null; onClose: () => void }) {
+  const { width, height } = useWindowDimensions();
+  const [current, setCurrent] = useState(index ?? 0);
+  useEffect(() => { if (index !== null) setCurrent(index); }, [index]);
+  const uri = urls[current];
+
+  return (
+    <Modal visible={index !== null && !!uri} transparent animationType="fade" onRequestClose={onClose}>
+      <GestureHandlerRootView style={styles.backdrop}>
+        {!!uri && <ZoomableImage key={uri} uri={uri} width={width} height={height - 120} />}
+        <View style={styles.bar}>
+          <TouchableOpacity disabled={current === 0} onPress={() => setCurrent((i) => i - 1)} style={[styles.btn, current === 0 && styles.btnDisabled]}>
+            <Text style={styles.btnText}>Prev</Text>
+          </TouchableOpacity>
+          <Text style={styles.counter}>{current + 1} / {urls.length}</Text>
+          <TouchableOpacity disabled={current >= urls.length - 1} onPress={() => setCurrent((i) => i + 1)} style={[styles.btn, current >= urls.length - 1 && styles.btnDisabled]}>
+            <Text style={styles.btnText}>Next</Text>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={onClose} style={[styles.btn, { backgroundColor: '#EF4444' }]}>
+            <Text style={styles.btnText}>Close</Text>
+          </TouchableOpacity>
+        </View>
+      </GestureHandlerRootView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: { flex: 1, backgroundColor: 'rgba(0,0,0,0.92)', alignItems: 'center', justifyContent: 'center', overflow: 'hidden' },
+  bar: { position: 'absolute', bottom: 32, left: 16, right: 16, flexDirection: 'row', alignItems: 'center', justifyContent: 'center', gap: 12 },
+  btn: { backgroundColor: '#2563EB', borderRadius: 10, paddingHorizontal: 14, paddingVertical: 10 },
+  btnDisabled: { backgroundColor: '#4B5563' },
+  btnText: { color: '#FFFFFF', fontWeight: '900' },
+  counter: { color: '#FFFFFF', fontWeight: '800' },
+});
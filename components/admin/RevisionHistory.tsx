@@ -0,0 +1,113 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { ActivityIndicator, Alert, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { revertToRevision } from '@/lib/content';
+import { diffSnapshots, fetchRevisions, type Revision, type RevisionEntity } from '@/lib/revisions';
+import { supabase } from '@/lib/supabase';
+
+function formatValue(v: unknown) {
+  if (v === undefined || v === null || v === '') return '∅';
+  const text = typeof v === 'string' ? v : JSON.stringify(v);
+  return text.length > 60 ? `${text.slice(0, 57)}...` : text;
+}
+
+// Per-entity history panel with field-level diffs and one-tap revert
+export function RevisionHistory({ entity, entityId, isDark }: { entity: RevisionEntity; entityId: string; isDark: boolean }) {
+  const [items, setItems] = useState<Revision[]>([]);
+  const [names, setNames] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [reverting, setReverting] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const revs = await fetchRevisions(entity, entityId);
+      setItems(revs);
+      const ids = Array.from(new Set(revs.map((r) => r.actor_id).filter(Boolean))) as string[];
+      if (ids.length) {
+        const { data } = await supabase.from('profiles').select('id, full_name').in('id', ids);
+        const map: Record<string, string> = {};
+        ((data as { id: string; full_name: string | null }[] | null) ?? []).forEach((p) => { map[p.id] = p.full_name || p.id.slice(0, 8); });
+        setNames(map);
+      }
+    } catch (e: any) {
+      console.warn('[revisions] load error', e?.message || e);
+    } finally {
+      setLoading(false);
+    }
+  }, [entity, entityId]);
+
+  useEffect(() => { load(); }, [load]);
+
+  const onRevert = (rev: Revision) => {
+    Alert.alert('Revert?', `Restore this ${entity} to the version from ${new Date(rev.created_at).toLocaleString()}? A published ${entity} goes back to review and is hidden from users until it is published again.`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Revert',
+        style: 'destructive',
+        onPress: async () => {
+          setReverting(rev.id);
+          try {
+            await revertToRevision(rev);
+            await load();
+          } catch (e: any) {
+            Alert.alert('Error', e?.message || 'Failed to revert');
+          } finally {
+            setReverting(null);
+          }
+        },
+      },
+    ]);
+  };
+
+  return (
+    <View style={[styles.panel, isDark ? styles.panelDark : styles.panelLight]}>
+      <Text style={[styles.heading, isDark && { color: '#E5E7EB' }]}>History</Text>
+      {loading && <ActivityIndicator color={isDark ? '#E5E7EB' : '#111827'} />}
+      {!loading && items.length === 0 && <Text style={[styles.sub, isDark && { color: '#9CA3AF' }]}>No changes recorded yet.</Text>}
+      {!loading && items.map((rev, idx) => {
+        const changes = diffSnapshots(rev.before, rev.after);
+        const who = rev.actor_id ? names[rev.actor_id] || rev.actor_id.slice(0, 8) : 'system';
+        return (
+          <View key={rev.id} style={[styles.item, idx > 0 && styles.itemDivider]}>
+            <View style={{ flexDirection: 'row', alignItems: 'center' }}>
+              <View style={{ flex: 1 }}>
+                <Text style={[styles.action, isDark && { color: '#E5E7EB' }]}>{rev.action}</Text>
+                <Text style={[styles.sub, isDark && { color: '#9CA3AF' }]}>{new Date(rev.created_at).toLocaleString()} • {who}</Text>
+              </View>
+              {/* The newest revision is the current state, so only older ones can be restored */}
+              {idx > 0 && (
+                <TouchableOpacity disabled={!!reverting} onPress={() => onRevert(rev)} style={[styles.revertBtn, !!reverting && { opacity: 0.6 }]}>
+                  <Text style={styles.revertText}>{reverting === rev.id ? 'Reverting...' : 'Revert'}</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+            {changes.map((c) => (
+              <Text key={c.field} style={[styles.change, isDark && { color: '#D1D5DB' }]} numberOfLines={2}>
+                <Text style={{ fontWeight: '800' }}>{c.field}: </Text>
+                <Text style={styles.removed}>{formatValue(c.before)}</Text>
+                {' → '}
+                <Text style={styles.added}>{formatValue(c.after)}</Text>
+              </Text>
+            ))}
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  panel: { marginTop: 6, padding: 12, borderRadius: 10, gap: 6 },
+  panelLight: { backgroundColor: '#F3F4F6' },
+  panelDark: { backgroundColor: '#0F172A' },
+  heading: { fontWeight: '900', color: '#111827' },
+  item: { paddingVertical: 6 },
+  itemDivider: { borderTopWidth: StyleSheet.hairlineWidth, borderTopColor: '#D1D5DB' },
+  action: { fontWeight: '800', color: '#111827', textTransform: 'capitalize' },
+  sub: { color: '#6B7280', marginTop: 2, fontSize: 12 },
+  change: { color: '#374151', marginTop: 4, fontSize: 12 },
+  removed: { color: '#B91C1C' },
+  added: { color: '#047857' },
+  revertBtn: { backgroundColor: '#F59E0B', paddingHorizontal: 10, paddingVertical: 6, borderRadius: 8 },
+  revertText: { color: '#FFFFFF', fontWeight: '900' },
+});
@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import { Platform, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import DateTimePicker, { DateTimePickerAndroid, type DateTimePickerEvent } from '@react-native-community/datetimepicker';
+
+// Local "YYYY-MM-DD HH:mm" <-> ISO helpers for the schedule inputs
+export function isoToLocalInput(iso?: string | null) {
+  if (!iso) return '';
+  const d = new Date(iso);
+  if (Number.isNaN(d.getTime())) return '';
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())} ${pad(d.getHours())}:${pad(d.getMinutes())}`;
+}
+
+/** Returns an ISO string, undefined for an empty input, or null when the text cannot be parsed. */
+export function localInputToIso(text: string): string | undefined | null {
+  const t = text.trim();
+  if (!t) return undefined;
+  const m = /^(\d{4})-(\d{2})-(\d{2})(?:[ T](\d{2}):(\d{2}))?$/.exec(t);
+  if (!m) return null;
+  const d = new Date(Number(m[1]), Number(m[2]) - 1, Number(m[3]), Number(m[4] ?? 0), Number(m[5] ?? 0));
+  return Number.isNaN(d.getTime()) ? null : d.toISOString();
+}
+
+const PRESETS: { label: string; offsetMs: number }[] = [
+  { label: 'Now', offsetMs: 0 },
+  { label: '+1 day', offsetMs: 24 * 60 * 60 * 1000 },
+  { label: '+7 days', offsetMs: 7 * 24 * 60 * 60 * 1000 },
+];
+
+// Date-time picker with quick presets, used for offer/slide start and end dates. The value stays
+// "YYYY-MM-DD HH:mm" local text; web has no native picker and types it instead.
+export function ScheduleField({
+  label,
+  value,
+  onChange,
+  isDark,
+}: {
+  label: string;
+  value: string;
+  onChange: (v: string) => void;
+  isDark: boolean;
+}) {
+  const [pickingIos, setPickingIos] = useState(false);
+  const iso = localInputToIso(value);
+  const invalid = !!value.trim() && iso === null;
+  const current = iso ? new Date(iso) : new Date();
+  const set = (d: Date) => onChange(isoToLocalInput(d.toISOString()));
+
+  // Android shows the date dialog, then the time dialog for the picked day
+  const openAndroid = () => {
+    DateTimePickerAndroid.open({
+      value: current,
+      mode: 'date',
+      onChange: (e: DateTimePickerEvent, day?: Date) => {
+        if (e.type !== 'set' || !day) return;
+        DateTimePickerAndroid.open({
+          value: day,
+          mode: 'time',
+          is24Hour: true,
+          onChange: (t: DateTimePickerEvent, at?: Date) => {
+            if (t.type === 'set' && at) set(at);
+          },
+        });
+      },
+    });
+  };
+
+  return (
+    <View style={{ marginTop: 8 }}>
+      <Text style={[styles.label, isDark && { color: '#9CA3AF' }]}>{label}</Text>
+      {Platform.OS === 'web' ? (
+        <TextInput
+          value={value}
+          onChangeText={onChange}
+          placeholder="YYYY-MM-DD HH:mm (optional)"
+          autoCapitalize="none"
+          style={[styles.input, isDark ? styles.inputDark : styles.inputLight, invalid && { borderColor: '#EF4444' }]}
+          placeholderTextColor={isDark ? '#9CA3AF' : '#9AA0A6'}
+        />
+      ) : (
+        <TouchableOpacity
+          onPress={() => (Platform.OS === 'android' ? openAndroid() : setPickingIos((v) => !v))}
+          style={[styles.input, isDark ? styles.inputDark : styles.inputLight, invalid && { borderColor: '#EF4444' }]}
+        >
+          <Text style={{ color: value ? (isDark ? '#E5E7EB' : '#111827') : isDark ? '#9CA3AF' : '#9AA0A6' }}>
+            {value || 'Pick a date and time (optional)'}
+          </Text>
+        </TouchableOpacity>
+      )}
+      {pickingIos && Platform.OS === 'ios' && (
+        <DateTimePicker
+          value={current}
+          mode="datetime"
+          display="inline"
+          themeVariant={isDark ? 'dark' : 'light'}
+          onChange={(_e: DateTimePickerEvent, d?: Date) => { if (d) set(d); }}
+        />
+      )}
+      <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: 8, marginTop: 6 }}>
+        {PRESETS.map((p) => (
+          <TouchableOpacity
+            key={p.label}
+            onPress={() => set(new Date(Date.now() + p.offsetMs))}
+            style={[styles.chip, isDark ? styles.chipDark : styles.chipLight]}
+          >
+            <Text style={styles.chipText}>{p.label}</Text>
+          </TouchableOpacity>
+        ))}
+        {!!value && (
+          <TouchableOpacity onPress={() => { setPickingIos(false); onChange(''); }} style={[styles.chip, isDark ? styles.chipDark : styles.chipLight]}>
+            <Text style={styles.chipText}>Clear</Text>
+          </TouchableOpacity>
+        )}
+        {pickingIos && (
+          <TouchableOpacity onPress={() => setPickingIos(false)} style={[styles.chip, isDark ? styles.chipDark : styles.chipLight]}>
+            <Text style={styles.chipText}>Done</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+      {invalid && <Text style={styles.error}>Use the format 2025-01-31 18:30</Text>}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  label: { fontWeight: '800', color: '#374151' },
+  input: { borderRadius: 10, paddingHorizontal: 12, paddingVertical: 12, borderWidth: 1 },
+  inputLight: { backgroundColor: '#FFFFFF', borderColor: '#E5E7EB' },
+  inputDark: { backgroundColor: '#111827', borderColor: '#374151', color: '#E5E7EB' },
+  chip: { paddingHorizontal: 10, paddingVertical: 6, borderRadius: 20, borderWidth: 1 },
+  chipLight: { backgroundColor: '#FFFFFF', borderColor: '#E5E7EB' },
+  chipDark: { backgroundColor: '#111827', borderColor: '#374151' },
+  chipText: { color: '#374151', fontWeight: '800' },
+  error: { color: '#EF4444', marginTop: 4, fontWeight: '700' },
+});
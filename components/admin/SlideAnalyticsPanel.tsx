@@ -0,0 +1,79 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { ActivityIndicator, Image, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import type { Slide } from '@/lib/content';
+import { fetchSlideStats, formatCtr, type SlideStats } from '@/lib/slideAnalytics';
+import { AnalyticsRangePicker, useAnalyticsRange } from '@/components/admin/AnalyticsRange';
+
+// Below this many impressions CTR is too noisy to act on
+const MIN_IMPRESSIONS_FOR_VERDICT = 100;
+
+// Per-slide impressions, clicks and CTR for a date range; lowest CTR first so weak banners stand out
+export function SlideAnalyticsPanel({ slides, isDark }: { slides: Slide[]; isDark: boolean }) {
+  const rangeState = useAnalyticsRange();
+  const { range } = rangeState;
+  const [stats, setStats] = useState<Record<string, SlideStats>>({});
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    if (!range) return;
+    setLoading(true);
+    setError(null);
+    try {
+      setStats(await fetchSlideStats(range));
+    } catch (e: any) {
+      setError(e?.message || 'Failed to load analytics');
+    } finally {
+      setLoading(false);
+    }
+  }, [range]);
+
+  useEffect(() => { load(); }, [load]);
+
+  const rows = useMemo(() => slides
+    .map((s) => ({ slide: s, stat: stats[s.id] ?? { impressions: 0, clicks: 0, viewers: 0, ctr: 0 } }))
+    .sort((a, b) => a.stat.ctr - b.stat.ctr || b.stat.impressions - a.stat.impressions), [slides, stats]);
+
+  return (
+    <View style={[styles.panel, isDark ? styles.panelDark : styles.panelLight]}>
+      <View style={{ flexDirection: 'row', alignItems: 'center' }}>
+        <Text style={[styles.heading, isDark && { color: '#E5E7EB' }, { flex: 1 }]}>Carousel performance</Text>
+        <TouchableOpacity onPress={load} disabled={loading}>
+          <Text style={styles.link}>{loading ? 'Loading...' : 'Refresh'}</Text>
+        </TouchableOpacity>
+      </View>
+      <AnalyticsRangePicker state={rangeState} isDark={isDark} />
+      {!!error && <Text style={styles.error}>{error}</Text>}
+      {loading && !Object.keys(stats).length && <ActivityIndicator color={isDark ? '#E5E7EB' : '#111827'} />}
+      {rows.map(({ slide, stat }) => {
+        const weak = stat.impressions >= MIN_IMPRESSIONS_FOR_VERDICT && stat.ctr < 0.005;
+        return (
+          <View key={slide.id} style={styles.row}>
+            <Image source={{ uri: slide.thumbnail || slide.image }} style={styles.thumb} />
+            <View style={{ flex: 1 }}>
+              <Text numberOfLines={1} style={[styles.title, isDark && { color: '#E5E7EB' }]}>{slide.link || slide.id}</Text>
+              <Text style={[styles.sub, isDark && { color: '#9CA3AF' }]}>
+                {stat.impressions} views • {stat.viewers} users • {stat.clicks} clicks
+              </Text>
+            </View>
+            <Text style={[styles.ctr, isDark && { color: '#E5E7EB' }, weak && { color: '#B91C1C' }]}>{formatCtr(stat.ctr)}</Text>
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  panel: { marginTop: 12, padding: 12, borderRadius: 10, gap: 8 },
+  panelLight: { backgroundColor: '#F3F4F6' },
+  panelDark: { backgroundColor: '#0F172A' },
+  heading: { fontWeight: '900', color: '#111827' },
+  link: { color: '#2563EB', fontWeight: '800' },
+  error: { color: '#B91C1C', fontSize: 12 },
+  row: { flexDirection: 'row', alignItems: 'center', gap: 10 },
+  thumb: { width: 64, height: 36, borderRadius: 6, backgroundColor: '#E5E7EB' },
+  title: { fontWeight: '700', color: '#111827', fontSize: 12 },
+  sub: { color: '#6B7280', fontSize: 11, marginTop: 2 },
+  ctr: { fontWeight: '900', color: '#111827', minWidth: 52, textAlign: 'right' },
+});
@@ -0,0 +1,134 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Animated, Image, PanResponder, StyleSheet, Text, View } from 'react-native';
+import MaterialIcons from '@expo/vector-icons/MaterialIcons';
+import { getOfferWindowState, reorderSlides, type Slide } from '@/lib/content';
+
+const ROW_HEIGHT = 56;
+
+type DragHandlers = {
+  onStart: (id: string) => void;
+  onMove: (dy: number) => void;
+  onEnd: () => void;
+};
+
+// Drag handle; reads the latest handlers through a ref so the responder is created once
+function DragHandle({ id, handlers, isDark }: { id: string; handlers: React.RefObject<DragHandlers>; isDark: boolean }) {
+  const responder = useRef(
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onMoveShouldSetPanResponder: () => true,
+      // Keep the gesture even when the parent ScrollView wants to scroll
+      onPanResponderTerminationRequest: () => false,
+      onPanResponderGrant: () => handlers.current?.onStart(id),
+      onPanResponderMove: (_, g) => handlers.current?.onMove(g.dy),
+      onPanResponderRelease: () => handlers.current?.onEnd(),
+      onPanResponderTerminate: () => handlers.current?.onEnd(),
+    })
+  ).current;
+  return (
+    <View {...responder.panHandlers} style={styles.handle} hitSlop={8}>
+      <MaterialIcons name="drag-indicator" size={22} color={isDark ? '#9CA3AF' : '#6B7280'} />
+    </View>
+  );
+}
+
+// Carousel order editor: drag rows by the handle, the new order is saved on release
+export function SlideOrderList({ slides, isDark }: { slides: Slide[]; isDark: boolean }) {
+  const [order, setOrder] = useState<Slide[]>(slides);
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const offset = useRef(new Animated.Value(0)).current;
+  const drag = useRef<{ id: string; from: number; shift: number } | null>(null);
+
+  // Follow realtime updates, but never while a row is being dragged
+  useEffect(() => {
+    if (!drag.current) setOrder(slides);
+  }, [slides]);
+
+  const orderRef = useRef(order);
+  orderRef.current = order;
+
+  const handlers = useRef<DragHandlers>({
+    onStart: (id) => {
+      const from = orderRef.current.findIndex((s) => s.id === id);
+      if (from < 0) return;
+      drag.current = { id, from, shift: 0 };
+      offset.setValue(0);
+      setDraggingId(id);
+    },
+    onMove: (dy) => {
+      const d = drag.current;
+      if (!d) return;
+      const count = orderRef.current.length;
+      const target = Math.max(0, Math.min(count - 1, d.from + Math.round(dy / ROW_HEIGHT)));
+      const shift = target - d.from;
+      if (shift !== d.shift) {
+        setOrder((prev) => {
+          const next = prev.filter((s) => s.id !== d.id);
+          next.splice(target, 0, prev.find((s) => s.id === d.id)!);
+          return next;
+        });
+        d.shift = shift;
+      }
+      // The row already moved `shift` slots in the list, so only the remainder is animated
+      offset.setValue(dy - shift * ROW_HEIGHT);
+    },
+    onEnd: () => {
+      const d = drag.current;
+      drag.current = null;
+      offset.setValue(0);
+      setDraggingId(null);
+      if (d && d.shift !== 0) reorderSlides(orderRef.current);
+    },
+  });
+
+  if (!order.length) return null;
+
+  return (
+    <View style={[styles.panel, isDark ? styles.panelDark : styles.panelLight]}>
+      <Text style={[styles.heading, isDark && { color: '#E5E7EB' }]}>Carousel order</Text>
+      <Text style={[styles.sub, isDark && { color: '#9CA3AF' }]}>Drag a row by its handle. Drafts and out-of-window slides are skipped on Home.</Text>
+      {order.map((s, idx) => {
+        const windowState = getOfferWindowState(s);
+        const dragging = draggingId === s.id;
+        return (
+          <Animated.View
+            key={s.id}
+            style={[
+              styles.row,
+              isDark ? styles.rowDark : styles.rowLight,
+              dragging && styles.rowDragging,
+              dragging && { transform: [{ translateY: offset }] },
+            ]}
+          >
+            <DragHandle id={s.id} handlers={handlers} isDark={isDark} />
+            <Text style={[styles.index, isDark && { color: '#E5E7EB' }]}>{idx + 1}</Text>
+            <Image source={{ uri: s.thumbnail || s.image }} style={styles.thumb} />
+            <View style={{ flex: 1 }}>
+              <Text numberOfLines={1} style={[styles.title, isDark && { color: '#E5E7EB' }]}>{s.link || s.id}</Text>
+              {windowState !== 'live' && (
+                <Text style={styles.window}>{windowState === 'scheduled' ? 'Scheduled' : 'Ended'}</Text>
+              )}
+            </View>
+          </Animated.View>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  panel: { marginTop: 12, padding: 12, borderRadius: 10, gap: 6 },
+  panelLight: { backgroundColor: '#F3F4F6' },
+  panelDark: { backgroundColor: '#0F172A' },
+  heading: { fontWeight: '900', color: '#111827' },
+  sub: { color: '#6B7280', fontSize: 12 },
+  row: { height: ROW_HEIGHT - 6, flexDirection: 'row', alignItems: 'center', gap: 8, borderRadius: 8, paddingHorizontal: 6, marginBottom: 6 },
+  rowLight: { backgroundColor: '#FFFFFF' },
+  rowDark: { backgroundColor: '#111827' },
+  rowDragging: { zIndex: 10, elevation: 6, shadowColor: '#000', shadowOpacity: 0.2, shadowRadius: 6, shadowOffset: { width: 0, height: 2 } },
+  handle: { paddingHorizontal: 4, paddingVertical: 8 },
+  index: { width: 20, fontWeight: '900', color: '#111827' },
+  thumb: { width: 64, height: 36, borderRadius: 6, backgroundColor: '#E5E7EB' },
+  title: { fontWeight: '700', color: '#111827', fontSize: 12 },
+  window: { color: '#B45309', fontSize: 11, fontWeight: '800' },
+});
@@ -0,0 +1,139 @@
+import React, { useState } from 'react';
+import { StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import { STEP_VERIFICATIONS, type OfferStep, type StepVerification } from '@/lib/content';
+
+// Form state for offer steps; an empty reward means the step is an instruction, not a milestone
+export type StepDraft = { id: string; text: string; reward: string; verification: StepVerification };
+
+export function stepsToDraft(steps?: OfferStep[]): StepDraft[] {
+  return (steps ?? []).map((s) => ({ id: s.id, text: s.text, reward: s.reward ? String(s.reward) : '', verification: s.verification ?? 'manual' }));
+}
+
+/** Parses the draft into steps, or returns null when a reward is not a positive number. */
+export function draftToSteps(draft: StepDraft[]): OfferStep[] | null {
+  const out: OfferStep[] = [];
+  for (const d of draft) {
+    const text = d.text.trim();
+    if (!text) continue;
+    const t = d.reward.trim();
+    const reward = t ? Number(t) : undefined;
+    if (reward !== undefined && (!Number.isFinite(reward) || reward <= 0)) return null;
+    out.push({ id: d.id, text, reward, verification: reward ? d.verification : undefined });
+  }
+  return out;
+}
+
+/** ₹ total of the milestone rewards in a draft (0 when no step has a reward). */
+export function draftRewardTotal(draft: StepDraft[]) {
+  return draft.reduce((sum, d) => sum + (Number(d.reward) > 0 ? Number(d.reward) : 0), 0);
+}
+
+// Ids only need to be unique within the offer; milestone transactions keep pointing at them
+function newStepId() {
+  return `st_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+}
+
+// Ordered steps with an optional ₹ reward and verification per step (rewarded steps are milestones)
+export function StepsEditor({ value, onChange, isDark }: { value: StepDraft[]; onChange: (v: StepDraft[]) => void; isDark: boolean }) {
+  const [newText, setNewText] = useState('');
+  const [newReward, setNewReward] = useState('');
+  const total = draftRewardTotal(value);
+
+  const add = () => {
+    const text = newText.trim();
+    if (!text) return;
+    onChange([...value, { id: newStepId(), text, reward: newReward.trim(), verification: 'manual' }]);
+    setNewText('');
+    setNewReward('');
+  };
+  const update = (index: number, patch: Partial<StepDraft>) => onChange(value.map((d, i) => (i === index ? { ...d, ...patch } : d)));
+  const remove = (index: number) => onChange(value.filter((_, i) => i !== index));
+  const cycleVerification = (index: number) => {
+    const ids = STEP_VERIFICATIONS.map((v) => v.id);
+    update(index, { verification: ids[(ids.indexOf(value[index].verification) + 1) % ids.length] });
+  };
+
+  return (
+    <View style={{ marginTop: 8 }}>
+      <Text style={[styles.label, isDark && { color: '#9CA3AF' }]}>Steps to Complete</Text>
+      <Text style={[styles.hint, isDark && { color: '#9CA3AF' }]}>
+        {total > 0 ? `Milestone offer: pays ₹${total} across rewarded steps.` : 'Add a ₹ reward to a step to pay it as a separate milestone.'}
+      </Text>
+      {value.map((d, idx) => (
+        <View key={d.id} style={[styles.row, isDark ? styles.rowDark : styles.rowLight]}>
+          <View style={styles.rowTop}>
+            <Text style={[styles.index, isDark && { color: '#E5E7EB' }]}>{idx + 1}.</Text>
+            <TextInput
+              value={d.text}
+              onChangeText={(v) => update(idx, { text: v })}
+              style={[styles.input, { flex: 1 }, isDark ? styles.inputDark : styles.inputLight]}
+              placeholderTextColor={isDark ? '#9CA3AF' : '#9AA0A6'}
+            />
+            <TouchableOpacity onPress={() => remove(idx)} style={styles.removeBtn}>
+              <Text style={styles.removeText}>Remove</Text>
+            </TouchableOpacity>
+          </View>
+          <View style={styles.rowTop}>
+            <TextInput
+              value={d.reward}
+              onChangeText={(v) => update(idx, { reward: v })}
+              placeholder="Reward ₹"
+              keyboardType="numeric"
+              style={[styles.input, styles.rewardInput, isDark ? styles.inputDark : styles.inputLight]}
+              placeholderTextColor={isDark ? '#9CA3AF' : '#9AA0A6'}
+            />
+            {Number(d.reward) > 0 && (
+              <TouchableOpacity onPress={() => cycleVerification(idx)} style={[styles.chip, isDark ? styles.chipDark : styles.chipLight]}>
+                <Text style={[styles.chipText, isDark && { color: '#E5E7EB' }]}>
+                  {STEP_VERIFICATIONS.find((v) => v.id === d.verification)?.label}
+                </Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        </View>
+      ))}
+      <View style={styles.rowTop}>
+        <TextInput
+          value={newText}
+          onChangeText={setNewText}
+          placeholder="Add a step, e.g., Install the app"
+          style={[styles.input, { flex: 1 }, isDark ? styles.inputDark : styles.inputLight]}
+          placeholderTextColor={isDark ? '#9CA3AF' : '#9AA0A6'}
+        />
+        <TextInput
+          value={newReward}
+          onChangeText={setNewReward}
+          placeholder="₹"
+          keyboardType="numeric"
+          style={[styles.input, styles.rewardInput, isDark ? styles.inputDark : styles.inputLight]}
+          placeholderTextColor={isDark ? '#9CA3AF' : '#9AA0A6'}
+        />
+        <TouchableOpacity onPress={add} style={styles.addBtn}>
+          <Text style={styles.addText}>Add</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  label: { fontWeight: '800', color: '#374151' },
+  hint: { color: '#6B7280', fontSize: 12, marginTop: 2, marginBottom: 6 },
+  row: { borderRadius: 10, padding: 8, marginBottom: 8, gap: 6 },
+  rowLight: { backgroundColor: '#F9FAFB' },
+  rowDark: { backgroundColor: '#0F172A' },
+  rowTop: { flexDirection: 'row', alignItems: 'center', gap: 8 },
+  index: { fontWeight: '800', color: '#111827', width: 20 },
+  input: { borderRadius: 10, paddingHorizontal: 12, paddingVertical: 10, borderWidth: 1 },
+  inputLight: { backgroundColor: '#FFFFFF', borderColor: '#E5E7EB' },
+  inputDark: { backgroundColor: '#111827', borderColor: '#374151', color: '#E5E7EB' },
+  rewardInput: { width: 90 },
+  chip: { paddingHorizontal: 10, paddingVertical: 6, borderRadius: 20, borderWidth: 1 },
+  chipLight: { backgroundColor: '#FFFFFF', borderColor: '#E5E7EB' },
+  chipDark: { backgroundColor: '#111827', borderColor: '#374151' },
+  chipText: { color: '#374151', fontWeight: '800', fontSize: 12 },
+  removeBtn: { backgroundColor: '#EF4444', borderRadius: 8, paddingHorizontal: 10, paddingVertical: 8 },
+  removeText: { color: '#fff', fontWeight: '800' },
+  addBtn: { backgroundColor: '#2563EB', borderRadius: 10, paddingHorizontal: 12, paddingVertical: 12 },
+  addText: { color: '#fff', fontWeight: '800' },
+});
@@ -0,0 +1,94 @@
+import React from 'react';
+import { StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import type { OfferPlatform } from '@/lib/content';
+import { isValidVersion } from '@/lib/targeting';
+
+const PLATFORMS: { id: OfferPlatform; label: string }[] = [
+  { id: 'android', label: 'Android' },
+  { id: 'ios', label: 'iOS' },
+  { id: 'web', label: 'Web' },
+];
+
+export type TargetingDraft = { platforms: OfferPlatform[]; minAppVersion: string; maxAppVersion: string };
+
+export const EMPTY_TARGETING: TargetingDraft = { platforms: [], minAppVersion: '', maxAppVersion: '' };
+
+/** Returns an error message when the draft is invalid, otherwise null. */
+export function validateTargeting(d: TargetingDraft): string | null {
+  if (d.minAppVersion.trim() && !isValidVersion(d.minAppVersion)) return 'Min app version must look like 1.2.0';
+  if (d.maxAppVersion.trim() && !isValidVersion(d.maxAppVersion)) return 'Max app version must look like 1.2.0';
+  return null;
+}
+
+// Maps the draft onto offer fields; every key is present so edits can clear rules
+export function draftToTargeting(d: TargetingDraft) {
+  return {
+    platforms: d.platforms.length ? d.platforms : undefined,
+    minAppVersion: d.minAppVersion.trim() || undefined,
+    maxAppVersion: d.maxAppVersion.trim() || undefined,
+  };
+}
+
+// Platform multi-select (none selected = all platforms) and app version bounds
+export function TargetingFields({ value, onChange, isDark }: { value: TargetingDraft; onChange: (v: TargetingDraft) => void; isDark: boolean }) {
+  const toggle = (p: OfferPlatform) => {
+    const platforms = value.platforms.includes(p) ? value.platforms.filter((x) => x !== p) : [...value.platforms, p];
+    onChange({ ...value, platforms });
+  };
+  return (
+    <View style={{ marginTop: 8 }}>
+      <Text style={[styles.label, isDark && { color: '#9CA3AF' }]}>Platforms {value.platforms.length ? '' : '(all)'}</Text>
+      <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: 8, marginTop: 6 }}>
+        {PLATFORMS.map((p) => {
+          const selected = value.platforms.includes(p.id);
+          return (
+            <TouchableOpacity
+              key={p.id}
+              onPress={() => toggle(p.id)}
+              style={[styles.chip, selected ? styles.chipActive : (isDark ? styles.chipDark : styles.chipLight)]}
+            >
+              <Text style={[styles.chipText, selected && { color: '#fff' }]}>{p.label}</Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+      <View style={{ flexDirection: 'row', gap: 8, marginTop: 8 }}>
+        <View style={{ flex: 1 }}>
+          <Text style={[styles.cellLabel, isDark && { color: '#9CA3AF' }]}>Min app version</Text>
+          <TextInput
+            value={value.minAppVersion}
+            onChangeText={(v) => onChange({ ...value, minAppVersion: v })}
+            placeholder="e.g., 1.0.0"
+            autoCapitalize="none"
+            style={[styles.input, isDark ? styles.inputDark : styles.inputLight]}
+            placeholderTextColor={isDark ? '#9CA3AF' : '#9AA0A6'}
+          />
+        </View>
+        <View style={{ flex: 1 }}>
+          <Text style={[styles.cellLabel, isDark && { color: '#9CA3AF' }]}>Max app version</Text>
+          <TextInput
+            value={value.maxAppVersion}
+            onChangeText={(v) => onChange({ ...value, maxAppVersion: v })}
+            placeholder="optional"
+            autoCapitalize="none"
+            style={[styles.input, isDark ? styles.inputDark : styles.inputLight]}
+            placeholderTextColor={isDark ? '#9CA3AF' : '#9AA0A6'}
+          />
+        </View>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  label: { fontWeight: '800', color: '#374151' },
+  cellLabel: { color: '#6B7280', fontSize: 12, fontWeight: '700', marginBottom: 4 },
+  input: { borderRadius: 10, paddingHorizontal: 12, paddingVertical: 12, borderWidth: 1 },
+  inputLight: { backgroundColor: '#FFFFFF', borderColor: '#E5E7EB' },
+  inputDark: { backgroundColor: '#111827', borderColor: '#374151', color: '#E5E7EB' },
+  chip: { paddingHorizontal: 10, paddingVertical: 6, borderRadius: 20, borderWidth: 1 },
+  chipLight: { backgroundColor: '#FFFFFF', borderColor: '#E5E7EB' },
+  chipDark: { backgroundColor: '#111827', borderColor: '#374151' },
+  chipActive: { backgroundColor: '#2563EB', borderColor: '#1E40AF' },
+  chipText: { color: '#374151', fontWeight: '800' },
+});
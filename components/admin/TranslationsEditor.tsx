@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import { OFFER_LOCALES, missingTranslations, type OfferItem, type OfferLocale, type OfferTranslation } from '@/lib/content';
+
+type Translations = NonNullable<OfferItem['translations']>;
+
+// Drops empty fields/locales so the stored jsonb stays small
+export function cleanTranslations(t: Translations): Translations | undefined {
+  const out: Translations = {};
+  for (const [loc, tr] of Object.entries(t) as [OfferLocale, OfferTranslation][]) {
+    const title = tr.title?.trim();
+    const description = tr.description?.trim();
+    const steps = (tr.steps ?? []).map((s) => s.trim()).filter(Boolean);
+    if (!title && !description && !steps.length) continue;
+    out[loc] = { title: title || undefined, description: description || undefined, steps: steps.length ? steps : undefined };
+  }
+  return Object.keys(out).length ? out : undefined;
+}
+
+// Language tabs for non-English copy; English is edited in the main form fields
+export function TranslationsEditor({
+  base,
+  value,
+  onChange,
+  isDark,
+}: {
+  base: Pick<OfferItem, 'title' | 'description' | 'steps'>;
+  value: Translations;
+  onChange: (v: Translations) => void;
+  isDark: boolean;
+}) {
+  const locales = OFFER_LOCALES.filter((l) => l.id !== 'en');
+  const [tab, setTab] = useState<OfferLocale>(locales[0].id);
+  const missing = new Set(missingTranslations({ ...base, translations: value }));
+  const current = value[tab] ?? {};
+  const setField = (patch: OfferTranslation) => onChange({ ...value, [tab]: { ...current, ...patch } });
+
+  return (
+    <View style={{ marginTop: 8 }}>
+      <Text style={[styles.label, isDark && { color: '#9CA3AF' }]}>Translations</Text>
+      <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: 8, marginTop: 6 }}>
+        {locales.map((l) => {
+          const selected = tab === l.id;
+          return (
+            <TouchableOpacity
+              key={l.id}
+              onPress={() => setTab(l.id)}
+              style={[styles.chip, selected ? styles.chipActive : (isDark ? styles.chipDark : styles.chipLight)]}
+            >
+              <Text style={[styles.chipText, selected && { color: '#fff' }]}>{l.label}</Text>
+              {missing.has(l.id) && <View style={styles.missingDot} />}
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+      {missing.has(tab) && (
+        <Text style={styles.missingText}>Missing translation — users will see English for empty fields.</Text>
+      )}
+      <TextInput
+        value={current.title ?? ''}
+        onChangeText={(v) => setField({ title: v })}
+        placeholder={base.title || 'Title'}
+        style={[styles.input, isDark ? styles.inputDark : styles.inputLight, { marginTop: 8 }]}
+        placeholderTextColor={isDark ? '#9CA3AF' : '#9AA0A6'}
+      />
+      <TextInput
+        value={current.description ?? ''}
+        onChangeText={(v) => setField({ description: v })}
+        placeholder={base.description || 'Description'}
+        multiline
+        style={[styles.input, { minHeight: 60 }, isDark ? styles.inputDark : styles.inputLight, { marginTop: 8 }]}
+        placeholderTextColor={isDark ? '#9CA3AF' : '#9AA0A6'}
+      />
+      <TextInput
+        value={(current.steps ?? []).join('\n')}
+        onChangeText={(v) => setField({ steps: v.split('\n') })}
+        placeholder={base.steps?.length ? `${base.steps.length} steps, one per line` : 'Steps, one per line'}
+        multiline
+        style={[styles.input, { minHeight: 72 }, isDark ? styles.inputDark : styles.inputLight, { marginTop: 8 }]}
+        placeholderTextColor={isDark ? '#9CA3AF' : '#9AA0A6'}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  label: { fontWeight: '800', color: '#374151' },
+  input: { borderRadius: 10, paddingHorizontal: 12, paddingVertical: 12, borderWidth: 1 },
+  inputLight: { backgroundColor: '#FFFFFF', borderColor: '#E5E7EB' },
+  inputDark: { backgroundColor: '#111827', borderColor: '#374151', color: '#E5E7EB' },
+  chip: { flexDirection: 'row', alignItems: 'center', gap: 6, paddingHorizontal: 10, paddingVertical: 6, borderRadius: 20, borderWidth: 1 },
+  chipLight: { backgroundColor: '#FFFFFF', borderColor: '#E5E7EB' },
+  chipDark: { backgroundColor: '#111827', borderColor: '#374151' },
+  chipActive: { backgroundColor: '#2563EB', borderColor: '#1E40AF' },
+  chipText: { color: '#374151', fontWeight: '800' },
+  missingDot: { width: 8, height: 8, borderRadius: 4, backgroundColor: '#EF4444' },
+  missingText: { color: '#B45309', marginTop: 6, fontWeight: '700' },
+});
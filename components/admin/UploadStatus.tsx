@@ -0,0 +1,40 @@
+import React from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import type { ImageUploadState } from '@/hooks/useImageUpload';
+
+// Progress bar while an image uploads, and the failure with a retry once it stops
+export function UploadStatus({ upload, onRetry, isDark }: { upload: ImageUploadState; onRetry: () => void; isDark: boolean }) {
+  if (upload.status === 'uploading') {
+    return (
+      <View style={styles.wrap}>
+        <View style={[styles.track, isDark ? styles.trackDark : styles.trackLight]}>
+          <View style={[styles.fill, { width: `${Math.round(upload.progress * 100)}%` }]} />
+        </View>
+        <Text style={[styles.caption, isDark && { color: '#9CA3AF' }]}>Uploading... {Math.round(upload.progress * 100)}%</Text>
+      </View>
+    );
+  }
+  if (upload.status === 'error') {
+    return (
+      <View style={[styles.wrap, styles.row]}>
+        <Text style={[styles.error, { flex: 1 }]} numberOfLines={2}>{upload.error}</Text>
+        <TouchableOpacity onPress={onRetry}>
+          <Text style={styles.link}>Retry</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+  return null;
+}
+
+const styles = StyleSheet.create({
+  wrap: { marginTop: 6, gap: 4 },
+  row: { flexDirection: 'row', alignItems: 'center', gap: 8 },
+  track: { height: 6, borderRadius: 999, overflow: 'hidden' },
+  trackLight: { backgroundColor: '#E5E7EB' },
+  trackDark: { backgroundColor: '#1F2937' },
+  fill: { height: 6, backgroundColor: '#4F46E5' },
+  caption: { color: '#6B7280', fontSize: 12 },
+  error: { color: '#B91C1C', fontSize: 12 },
+  link: { color: '#2563EB', fontWeight: '800' },
+});
@@ -0,0 +1,53 @@
+import React from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { CONTENT_STATUS_LABELS, type ContentStatus } from '@/lib/content';
+
+const BADGE_COLORS: Record<ContentStatus, string> = {
+  draft: '#6B7280',
+  in_review: '#F59E0B',
+  published: '#10B981',
+};
+
+export function StatusBadge({ status }: { status?: ContentStatus }) {
+  const s = status ?? 'published';
+  return (
+    <Text style={[styles.badge, { backgroundColor: BADGE_COLORS[s] }]}>{CONTENT_STATUS_LABELS[s]}</Text>
+  );
+}
+
+// Next-step buttons for the draft -> review -> publish workflow
+export function WorkflowControls({ status, onChange }: { status?: ContentStatus; onChange: (next: ContentStatus) => void }) {
+  const s = status ?? 'published';
+  const actions: { label: string; next: ContentStatus; color: string }[] =
+    s === 'draft' ? [{ label: 'Submit for review', next: 'in_review', color: '#F59E0B' }]
+    : s === 'in_review' ? [
+      { label: 'Publish', next: 'published', color: '#10B981' },
+      { label: 'Back to draft', next: 'draft', color: '#6B7280' },
+    ]
+    : [{ label: 'Unpublish', next: 'draft', color: '#6B7280' }];
+  return (
+    <View style={{ gap: 6, marginTop: 8 }}>
+      {actions.map((a) => (
+        <TouchableOpacity key={a.next} onPress={() => onChange(a.next)} style={[styles.btn, { backgroundColor: a.color }]}>
+          <Text style={styles.btnText}>{a.label}</Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  badge: {
+    alignSelf: 'flex-start',
+    marginTop: 4,
+    color: '#FFFFFF',
+    fontWeight: '900',
+    fontSize: 11,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 9999,
+    overflow: 'hidden',
+  },
+  btn: { paddingHorizontal: 12, paddingVertical: 8, borderRadius: 10, alignItems: 'center' },
+  btnText: { color: '#FFFFFF', fontWeight: '900' },
+});
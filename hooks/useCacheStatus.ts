@@ -0,0 +1,19 @@
+import { useEffect, useState } from 'react';
+import { getCacheStatus, subscribeCacheStatus, type CacheStatus } from '@/lib/offlineCache';
+
+/**
+ * Whether any of `keys` is still served from the offline cache, and since when.
+ */
+export function useCacheStatus(keys: string[]): CacheStatus {
+  const joined = keys.join('|');
+  const [status, setStatus] = useState<CacheStatus>(() => getCacheStatus(keys));
+
+  useEffect(() => {
+    const list = joined ? joined.split('|') : [];
+    const update = () => setStatus(getCacheStatus(list));
+    update();
+    return subscribeCacheStatus(update);
+  }, [joined]);
+
+  return status;
+}
@@ -0,0 +1,37 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { useTransactions } from '@/hooks/useTransactions';
+import { getDeviceId } from '@/lib/device';
+import { buildEligibilityContext, deviceConflictsQueryKey, fetchDeviceConflicts, type EligibilityContext } from '@/lib/eligibility';
+import { fetchQuery, getQueryState, subscribeQuery } from '@/lib/queryCache';
+
+/** Eligibility inputs of the signed-in user (null when signed out); device conflicts load in the background. */
+export function useEligibilityContext(): EligibilityContext | null {
+  const { user } = useAuth();
+  const { data: txs } = useTransactions(user?.id);
+  const [deviceId, setDeviceId] = useState<string | null>(null);
+  const [taken, setTaken] = useState<string[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    getDeviceId().then((id) => { if (!cancelled) setDeviceId(id); }).catch(() => {});
+    return () => { cancelled = true; };
+  }, []);
+
+  const userId = user?.id;
+  useEffect(() => {
+    if (!deviceId || !userId) return;
+    const key = deviceConflictsQueryKey(deviceId, userId);
+    const sync = () => setTaken(getQueryState<string[]>(key).data ?? []);
+    const unsub = subscribeQuery(key, sync);
+    sync();
+    fetchQuery(key, () => fetchDeviceConflicts(deviceId)).catch(() => {});
+    return unsub;
+  }, [deviceId, userId]);
+
+  const joinedAt = user?.created_at;
+  return useMemo(
+    () => (userId ? buildEligibilityContext(userId, joinedAt, txs, taken) : null),
+    [userId, joinedAt, txs, taken]
+  );
+}
@@ -0,0 +1,55 @@
+import { useCallback, useRef, useState } from 'react';
+import { uploadImage, type MediaKind, type UploadedImage } from '@/lib/media';
+
+export type ImageUploadState = {
+  status: 'idle' | 'uploading' | 'done' | 'error';
+  progress: number; // 0..1
+  error: string | null;
+  sourceUri: string | null; // picked local file, kept for retries
+  result: UploadedImage | null;
+};
+
+const IDLE: ImageUploadState = { status: 'idle', progress: 0, error: null, sourceUri: null, result: null };
+
+/**
+ * Upload state for one image field. `onUploaded` receives the stored URLs; a newer pick
+ * supersedes an upload still in flight.
+ */
+export function useImageUpload(kind: MediaKind, onUploaded: (image: UploadedImage) => void) {
+  const [state, setState] = useState<ImageUploadState>(IDLE);
+  const attempt = useRef(0);
+  const onUploadedRef = useRef(onUploaded);
+  onUploadedRef.current = onUploaded;
+
+  const start = useCallback(async (uri: string) => {
+    const id = ++attempt.current;
+    setState({ status: 'uploading', progress: 0, error: null, sourceUri: uri, result: null });
+    try {
+      const result = await uploadImage(uri, kind, (progress) => {
+        if (attempt.current === id) setState((s) => ({ ...s, progress }));
+      });
+      if (attempt.current !== id) return;
+      setState({ status: 'done', progress: 1, error: null, sourceUri: uri, result });
+      onUploadedRef.current(result);
+    } catch (e: any) {
+      if (attempt.current !== id) return;
+      setState((s) => ({ ...s, status: 'error', error: e?.message || 'Upload failed' }));
+    }
+  }, [kind]);
+
+  const retry = useCallback(() => {
+    if (state.sourceUri) start(state.sourceUri);
+  }, [start, state.sourceUri]);
+
+  const reset = useCallback(() => {
+    attempt.current++;
+    setState(IDLE);
+  }, []);
+
+  // Thumbnail of the last upload, as long as the field still holds that upload's URL
+  const thumbnailFor = useCallback((url: string) => (
+    state.result && state.result.url === url ? state.result.thumbnailUrl : undefined
+  ), [state.result]);
+
+  return { ...state, uploading: state.status === 'uploading', start, retry, reset, thumbnailFor };
+}
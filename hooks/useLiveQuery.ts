@@ -0,0 +1,38 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { peekLiveState, refetchLiveQuery, subscribeLiveState, type LiveQuery, type LiveState } from '@/lib/realtime';
+
+export type LiveQueryResult<Item> = {
+  data: Item[];
+  loading: boolean; // true until the first data (cache or network) arrives, and while refetching
+  error: string | null;
+  refetch: () => Promise<void>;
+};
+
+const IDLE: LiveState<never> = { items: [], ready: false, loading: false, error: null };
+
+/**
+ * Bind a component to a shared live list. Pass null to stay idle (e.g. no signed-in user).
+ */
+export function useLiveQuery<Item>(query: LiveQuery<Item> | null): LiveQueryResult<Item> {
+  const key = query?.key ?? null;
+  // The query object is rebuilt every render; only its key decides resubscription
+  const queryRef = useRef(query);
+  queryRef.current = query;
+  // Start from whatever is already known so cached content renders on the first frame
+  const [state, setState] = useState<LiveState<Item>>(() => (query ? peekLiveState(query) : IDLE));
+
+  useEffect(() => {
+    const q = queryRef.current;
+    if (!key || !q) { setState(IDLE); return; }
+    return subscribeLiveState(q, setState);
+  }, [key]);
+
+  const refetch = useCallback(() => (key ? refetchLiveQuery(key) : Promise.resolve()), [key]);
+
+  return {
+    data: state.items,
+    loading: !!key && (!state.ready || state.loading),
+    error: state.error,
+    refetch,
+  };
+}
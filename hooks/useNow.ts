@@ -0,0 +1,16 @@
+import { useEffect, useState } from 'react';
+
+/**
+ * Current time in ms, re-rendered every `intervalMs`. Pass 0 to stop ticking.
+ */
+export function useNow(intervalMs = 1000) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!intervalMs) return;
+    const t = setInterval(() => setNow(Date.now()), intervalMs);
+    return () => clearInterval(t);
+  }, [intervalMs]);
+
+  return now;
+}
@@ -0,0 +1,6 @@
+import { offersQuery, type ContentQueryOptions, type OfferItem } from '@/lib/content';
+import { useLiveQuery } from '@/hooks/useLiveQuery';
+
+export function useOffers(options?: ContentQueryOptions) {
+  return useLiveQuery<OfferItem>(offersQuery(options));
+}
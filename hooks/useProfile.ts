@@ -0,0 +1,40 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { getProfile, profileQueryKey, type UserProfile } from '@/lib/profile';
+import { fetchQuery, getQueryState, subscribeQuery, type QueryState } from '@/lib/queryCache';
+
+/** Shared, deduplicated profile read; every screen asking for the same user reuses one request. */
+export function useProfile(userId?: string | null) {
+  const key = userId ? profileQueryKey(userId) : null;
+  const [state, setState] = useState<QueryState<UserProfile | null>>(() =>
+    key ? getQueryState<UserProfile | null>(key) : { data: undefined, loading: false, error: null }
+  );
+
+  useEffect(() => {
+    if (!key || !userId) { setState({ data: undefined, loading: false, error: null }); return; }
+    const sync = () => setState(getQueryState<UserProfile | null>(key));
+    const unsub = subscribeQuery(key, sync);
+    sync();
+    fetchQuery(key, () => getProfile(userId)).catch(() => {});
+    return unsub;
+  }, [key, userId]);
+
+  const refetch = useCallback(async () => {
+    if (!key || !userId) return;
+    await fetchQuery(key, () => getProfile(userId), { force: true }).catch(() => {});
+  }, [key, userId]);
+
+  return {
+    profile: state.data ?? null,
+    loading: !!key && (state.loading || (state.data === undefined && !state.error)),
+    error: state.error,
+    refetch,
+  };
+}
+
+/** Admin flag of the signed-in user (false while loading or signed out). */
+export function useIsAdmin() {
+  const { user } = useAuth();
+  const { profile, loading } = useProfile(user?.id);
+  return { isAdmin: !!profile?.is_admin, loading };
+}
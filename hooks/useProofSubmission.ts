@@ -0,0 +1,79 @@
+import { useCallback, useRef, useState } from 'react';
+import { uploadImage } from '@/lib/media';
+import { computeProofHash, recordProofHashes, type ProofHashEntry } from '@/lib/proofHash';
+import { submitTransactionProof } from '@/lib/transactions';
+
+export const MAX_PROOF_IMAGES = 5;
+
+export type ProofSubmissionState = {
+  uris: string[]; // picked local screenshots, in order
+  status: 'idle' | 'uploading' | 'error' | 'done';
+  progress: number; // 0..1 across all screenshots
+  error: string | null;
+};
+
+type UploadedProof = { url: string; hash: string | null };
+
+const IDLE: ProofSubmissionState = { uris: [], status: 'idle', progress: 0, error: null };
+
+/**
+ * Picked screenshots for one transaction and their upload. Screenshots that uploaded before a
+ * failure are not sent again on retry.
+ */
+export function useProofSubmission() {
+  const [state, setState] = useState<ProofSubmissionState>(IDLE);
+  const uploaded = useRef(new Map<string, UploadedProof>()); // local uri -> stored url and hash
+
+  const add = useCallback((uris: string[]) => {
+    setState((s) => {
+      const next = [...s.uris, ...uris.filter((u) => !s.uris.includes(u))].slice(0, MAX_PROOF_IMAGES);
+      return { ...s, uris: next, status: 'idle', error: null };
+    });
+  }, []);
+
+  const remove = useCallback((uri: string) => {
+    setState((s) => ({ ...s, uris: s.uris.filter((u) => u !== uri), status: 'idle', error: null }));
+  }, []);
+
+  const reset = useCallback(() => {
+    uploaded.current.clear();
+    setState(IDLE);
+  }, []);
+
+  /** Uploads every picked screenshot, then submits them as the transaction's proof. */
+  const submit = useCallback(async (transactionId: string) => {
+    const uris = state.uris;
+    if (!uris.length) return null;
+    setState((s) => ({ ...s, status: 'uploading', progress: 0, error: null }));
+    try {
+      const files: UploadedProof[] = [];
+      for (let i = 0; i < uris.length; i++) {
+        let file = uploaded.current.get(uris[i]);
+        if (!file) {
+          // Hashed from the original pick; a failed hash must not block the submission
+          const hash = await computeProofHash(uris[i]).catch((e: any) => {
+            console.warn('[proof] hash error', e?.message || e);
+            return null;
+          });
+          const image = await uploadImage(uris[i], 'proof', (f) => {
+            setState((s) => ({ ...s, progress: (i + f) / uris.length }));
+          });
+          file = { url: image.url, hash };
+          uploaded.current.set(uris[i], file);
+        }
+        files.push(file);
+      }
+      const tx = await submitTransactionProof(transactionId, files.map((f) => f.url));
+      const hashes = files.filter((f): f is ProofHashEntry => !!f.hash);
+      recordProofHashes(tx, hashes).catch((e: any) => console.warn('[proof] hash save error', e?.message || e));
+      uploaded.current.clear();
+      setState({ ...IDLE, status: 'done', progress: 1 });
+      return tx;
+    } catch (e: any) {
+      setState((s) => ({ ...s, status: 'error', error: e?.message || 'Could not submit proof' }));
+      return null;
+    }
+  }, [state.uris]);
+
+  return { ...state, uploading: state.status === 'uploading', add, remove, reset, submit };
+}
@@ -0,0 +1,21 @@
+import { useEffect, useState } from 'react';
+import { resolveProofUrls } from '@/lib/media';
+
+/** Viewable URLs for a transaction's stored proof references; empty while they resolve. */
+export function useProofUrls(refs: string[] | undefined): string[] {
+  const [urls, setUrls] = useState<string[]>([]);
+  const key = (refs ?? []).join('\n');
+
+  useEffect(() => {
+    let cancelled = false;
+    setUrls([]);
+    const list = key ? key.split('\n') : [];
+    if (!list.length) return;
+    resolveProofUrls(list)
+      .then((resolved) => { if (!cancelled) setUrls(resolved.filter((u): u is string => !!u)); })
+      .catch((e: any) => console.warn('[proof] signed url error', e?.message || e));
+    return () => { cancelled = true; };
+  }, [key]);
+
+  return urls;
+}
@@ -0,0 +1,6 @@
+import { slidesQuery, type ContentQueryOptions, type Slide } from '@/lib/content';
+import { useLiveQuery } from '@/hooks/useLiveQuery';
+
+export function useSlides(options?: ContentQueryOptions) {
+  return useLiveQuery<Slide>(slidesQuery(options));
+}
@@ -0,0 +1,7 @@
+import { stepProgressQuery, type StepProgress } from '@/lib/stepProgress';
+import { useLiveQuery } from '@/hooks/useLiveQuery';
+
+/** Live step completions of a user across offers; idle with an empty list when signed out. */
+export function useStepProgress(userId?: string | null) {
+  return useLiveQuery<StepProgress>(userId ? stepProgressQuery(userId) : null);
+}
@@ -0,0 +1,7 @@
+import { userTransactionsQuery, type Transaction } from '@/lib/transactions';
+import { useLiveQuery } from '@/hooks/useLiveQuery';
+
+/** Live transactions of a user; idle with an empty list when signed out. */
+export function useTransactions(userId?: string | null) {
+  return useLiveQuery<Transaction>(userId ? userTransactionsQuery(userId) : null);
+}
@@ -0,0 +1,66 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { getAttributionAdapter, listAttributionAdapters, resolveConversionTarget, type OfferAttribution } from '../attribution.ts';
+import { buildSamplePostback } from '../postbackSimulation.ts';
+import { ATTRIBUTION_FIXTURES, FIXTURE_SECRET } from './attributionFixtures.ts';
+
+describe('attribution adapters', () => {
+  for (const f of ATTRIBUTION_FIXTURES) {
+    it(f.name, async () => {
+      const adapter = getAttributionAdapter(f.network);
+      assert.ok(adapter, `no adapter for ${f.network}`);
+      assert.equal(await adapter.verify(f.request, FIXTURE_SECRET), f.valid, f.valid ? 'signature should be accepted' : 'signature should be refused');
+      const event = adapter.parse(f.request);
+      for (const [key, value] of Object.entries(f.expected ?? {})) {
+        assert.equal(event[key as keyof typeof event], value, key);
+      }
+    });
+  }
+
+  it('has a fixture for every registered network', () => {
+    const covered = new Set(ATTRIBUTION_FIXTURES.map((f) => f.network));
+    for (const adapter of listAttributionAdapters()) assert.ok(covered.has(adapter.network), adapter.network);
+  });
+});
+
+describe('buildSamplePostback', () => {
+  for (const adapter of listAttributionAdapters()) {
+    it(`signs a ${adapter.network} postback its adapter accepts`, async () => {
+      const request = await buildSamplePostback(adapter.network, { clickId: 'sim01', eventName: adapter.defaultEvent, secret: 'sample-secret' });
+      assert.equal(await adapter.verify(request, 'sample-secret'), true);
+      assert.equal(await adapter.verify(request, 'other-secret'), false);
+      const event = adapter.parse(request);
+      assert.equal(event.clickId, 'sim01');
+      assert.equal(event.eventName, adapter.defaultEvent);
+      assert.equal(event.status, 'converted');
+    });
+  }
+});
+
+describe('resolveConversionTarget', () => {
+  const attribution: OfferAttribution = { network: 'appsflyer', completionEvent: 'af_purchase', stepEvents: { s2: 'Level_5' } };
+
+  it('takes any generic postback for offers without attribution', () => {
+    assert.deepEqual(resolveConversionTarget(null, { network: 'generic', eventName: 'conversion' }), { stepId: null });
+    assert.equal(resolveConversionTarget(null, { network: 'adjust', eventName: 'install' }), null);
+  });
+
+  it('maps milestone events to their step, case-insensitively', () => {
+    assert.deepEqual(resolveConversionTarget(attribution, { network: 'appsflyer', eventName: 'level_5' }), { stepId: 's2' });
+  });
+
+  it('maps the completion event to the clicked transaction', () => {
+    assert.deepEqual(resolveConversionTarget(attribution, { network: 'appsflyer', eventName: 'af_purchase' }), { stepId: null });
+  });
+
+  it('ignores other events and other networks', () => {
+    assert.equal(resolveConversionTarget(attribution, { network: 'appsflyer', eventName: 'install' }), null);
+    assert.equal(resolveConversionTarget(attribution, { network: 'adjust', eventName: 'af_purchase' }), null);
+  });
+
+  it("falls back to the network's default event", () => {
+    const adapter = getAttributionAdapter('adjust');
+    assert.ok(adapter);
+    assert.deepEqual(resolveConversionTarget({ network: 'adjust' }, { network: 'adjust', eventName: adapter.defaultEvent }), { stepId: null });
+  });
+});
@@ -0,0 +1,135 @@
+import type { AttributionNetwork, ConversionEvent, PostbackRequest } from '../attribution.ts';
+
+/**
+ * Recorded-style postbacks for every attribution adapter, with the event each must normalize to.
+ * Signatures were computed independently of lib/hmac, so a passing check covers the signing code
+ * too. attribution.test.ts runs them.
+ */
+export const FIXTURE_SECRET = 'fixture-secret';
+
+export type AttributionFixture = {
+  name: string;
+  network: AttributionNetwork;
+  request: PostbackRequest;
+  valid: boolean; // whether the signature or token must verify
+  expected?: Partial<ConversionEvent>; // fields the parsed event must carry
+};
+
+const BRANCH_BODY = '{"name":"PURCHASE","timestamp":1792400000000,"event_data":{"revenue":9.99,"currency":"INR"},"last_attributed_touch_data":{"~click_id":"br01"}}';
+
+function get(query: Record<string, string>): PostbackRequest {
+  return { query, body: '', headers: {} };
+}
+
+export const ATTRIBUTION_FIXTURES: AttributionFixture[] = [
+  {
+    name: 'generic conversion with payout',
+    network: 'generic',
+    request: get({ click_id: 'c0ffee01', secret: FIXTURE_SECRET, payout: '1.50', currency: 'USD' }),
+    valid: true,
+    expected: { clickId: 'c0ffee01', eventName: 'conversion', status: 'converted', payout: 1.5, currency: 'USD' },
+  },
+  {
+    name: 'generic form post declined, secret in header',
+    network: 'generic',
+    request: {
+      query: {},
+      body: 'clickid=c0ffee02&status=Declined',
+      headers: { 'content-type': 'application/x-www-form-urlencoded', 'x-postback-secret': FIXTURE_SECRET },
+    },
+    valid: true,
+    expected: { clickId: 'c0ffee02', status: 'rejected' },
+  },
+  {
+    name: 'generic wrong secret',
+    network: 'generic',
+    request: get({ click_id: 'c0ffee03', secret: 'fixture-secreT' }),
+    valid: false,
+  },
+  {
+    name: 'appsflyer in-app purchase',
+    network: 'appsflyer',
+    request: get({
+      clickid: 'af01',
+      event_name: 'af_purchase',
+      event_time: '2026-10-19 08:30:00.000',
+      event_revenue: '4.99',
+      event_revenue_currency: 'USD',
+      signature: '18a23806f62ec8d2a96d33be469bf0f1c1d636683536c3e78fa528ff02b7493e',
+    }),
+    valid: true,
+    expected: { clickId: 'af01', eventName: 'af_purchase', status: 'converted', payout: 4.99, currency: 'USD', occurredAt: '2026-10-19T08:30:00.000Z' },
+  },
+  {
+    name: 'appsflyer install blocked by fraud protection',
+    network: 'appsflyer',
+    request: get({
+      clickid: 'af02',
+      event_name: 'install',
+      event_time: '2026-10-19 09:00:00.000',
+      blocked_reason: 'click_flood',
+      signature: '82390be476ea35cd6b72da17161a3eff5d9e3a7d6f43c6b8a8c83daf9a260f37',
+    }),
+    valid: true,
+    expected: { clickId: 'af02', eventName: 'install', status: 'rejected' },
+  },
+  {
+    name: 'appsflyer event name changed after signing',
+    network: 'appsflyer',
+    request: get({
+      clickid: 'af01',
+      event_name: 'af_complete_registration',
+      event_time: '2026-10-19 08:30:00.000',
+      signature: '18a23806f62ec8d2a96d33be469bf0f1c1d636683536c3e78fa528ff02b7493e',
+    }),
+    valid: false,
+  },
+  {
+    name: 'adjust install',
+    network: 'adjust',
+    request: get({ click_id: 'adj01', activity_kind: 'install', created_at: '1792396800', token: FIXTURE_SECRET }),
+    valid: true,
+    expected: { clickId: 'adj01', eventName: 'install', status: 'converted', occurredAt: '2026-10-19T08:00:00.000Z' },
+  },
+  {
+    name: 'adjust custom event',
+    network: 'adjust',
+    request: get({ click_id: 'adj02', activity_kind: 'event', event_name: 'Level_5', revenue: '0', currency: 'EUR', token: FIXTURE_SECRET }),
+    valid: true,
+    expected: { clickId: 'adj02', eventName: 'level_5', status: 'converted', payout: 0, currency: 'EUR' },
+  },
+  {
+    name: 'adjust rejected install',
+    network: 'adjust',
+    request: get({ click_id: 'adj03', activity_kind: 'rejected_install', token: FIXTURE_SECRET }),
+    valid: true,
+    expected: { clickId: 'adj03', eventName: 'install', status: 'rejected' },
+  },
+  {
+    name: 'adjust without token',
+    network: 'adjust',
+    request: get({ click_id: 'adj04', activity_kind: 'install' }),
+    valid: false,
+  },
+  {
+    name: 'branch purchase webhook',
+    network: 'branch',
+    request: {
+      query: {},
+      body: BRANCH_BODY,
+      headers: { 'content-type': 'application/json', 'x-branch-signature': 'f0e85bf0e0716124eeda8128d303020f7605d5f014f5e0264f6a761ddeb46dd1' },
+    },
+    valid: true,
+    expected: { clickId: 'br01', eventName: 'purchase', status: 'converted', payout: 9.99, currency: 'INR', occurredAt: '2026-10-19T08:53:20.000Z' },
+  },
+  {
+    name: 'branch body changed after signing',
+    network: 'branch',
+    request: {
+      query: {},
+      body: BRANCH_BODY.replace('9.99', '99.9'),
+      headers: { 'content-type': 'application/json', 'x-branch-signature': 'f0e85bf0e0716124eeda8128d303020f7605d5f014f5e0264f6a761ddeb46dd1' },
+    },
+    valid: false,
+  },
+];
@@ -0,0 +1,60 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { createEventQueue, isPermanentInsertError, type EventSendError } from '../eventQueue.ts';
+
+// A queue whose sends answer with the given errors in turn, then succeed; records every batch sent
+function queueWith(errors: (EventSendError | null)[], options = { maxBatch: 2, maxQueue: 5 }) {
+  const sent: number[][] = [];
+  const queue = createEventQueue<number>('test', async (batch) => {
+    sent.push(batch);
+    return { error: errors.shift() ?? null };
+  }, options);
+  return { queue, sent };
+}
+
+describe('event queue', () => {
+  it('sends rows in batches', async () => {
+    const { queue, sent } = queueWith([]);
+    [1, 2, 3].forEach((n) => queue.push(n));
+    await queue.flush();
+    await queue.flush();
+    assert.deepEqual(sent, [[1, 2], [3]]);
+    assert.equal(queue.size(), 0);
+  });
+
+  it('retries a batch that failed for a transient reason', async () => {
+    const { queue, sent } = queueWith([{ message: 'Network request failed' }]);
+    [1, 2, 3].forEach((n) => queue.push(n));
+    await queue.flush();
+    assert.equal(queue.size(), 3);
+    await queue.flush();
+    assert.deepEqual(sent, [[1, 2], [1, 2]]);
+  });
+
+  it('drops a batch the database rejected and sends the rows after it', async () => {
+    const { queue, sent } = queueWith([{ code: '23514', message: 'violates check constraint "offer_clicks_outcome_check"' }]);
+    [1, 2, 3].forEach((n) => queue.push(n));
+    await queue.flush();
+    assert.equal(queue.size(), 1);
+    await queue.flush();
+    assert.deepEqual(sent, [[1, 2], [3]]);
+    assert.equal(queue.size(), 0);
+  });
+
+  it('keeps only the newest rows past the limit', async () => {
+    const { queue, sent } = queueWith([], { maxBatch: 10, maxQueue: 3 });
+    [1, 2, 3, 4, 5].forEach((n) => queue.push(n));
+    await queue.flush();
+    assert.deepEqual(sent, [[3, 4, 5]]);
+  });
+});
+
+describe('isPermanentInsertError', () => {
+  it('treats constraint, data and RLS errors as permanent', () => {
+    for (const code of ['23514', '23503', '23502', '22P02', '42501']) assert.equal(isPermanentInsertError({ code, message: '' }), true, code);
+  });
+
+  it('treats network and server errors as transient', () => {
+    for (const code of [undefined, '', '57014', '08006', 'PGRST301']) assert.equal(isPermanentInsertError({ code, message: '' }), false, String(code));
+  });
+});
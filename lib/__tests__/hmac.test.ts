@@ -0,0 +1,68 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { hmacSha256, timingSafeEqual, toHex, verifyHmacSha256 } from '../hmac.ts';
+
+const repeat = (byte: number, length: number) => new Uint8Array(length).fill(byte);
+
+// RFC 4231 HMAC-SHA256 test cases 1-4, 6 and 7 (case 5 checks truncated output)
+const RFC_4231 = [
+  { name: 'case 1', key: repeat(0x0b, 20), data: 'Hi There', mac: 'b0344c61d8db38535ca8afceaf0bf12b881dc200c9833da726e9376c2e32cff7' },
+  { name: 'case 2', key: 'Jefe', data: 'what do ya want for nothing?', mac: '5bdcc146bf60754e6a042426089575c75a003f089d2739839dec58b964ec3843' },
+  { name: 'case 3', key: repeat(0xaa, 20), data: repeat(0xdd, 50), mac: '773ea91e36800e46854db8ebd09181a72959098b3ef8c122d9635514ced565fe' },
+  {
+    name: 'case 4',
+    key: Uint8Array.from({ length: 25 }, (_, i) => i + 1),
+    data: repeat(0xcd, 50),
+    mac: '82558a389a443c0ea4cc819899f2083a85f0faa3e578f8077a2e3ff46729665b',
+  },
+  {
+    name: 'case 6 (key longer than a block)',
+    key: repeat(0xaa, 131),
+    data: 'Test Using Larger Than Block-Size Key - Hash Key First',
+    mac: '60e431591ee0b67f0d8a26aacbf5b77f8e0bc6213728c5140546040f0ee37f54',
+  },
+  {
+    name: 'case 7 (key and data longer than a block)',
+    key: repeat(0xaa, 131),
+    data: 'This is a test using a larger than block-size key and a larger than block-size data. The key needs to be hashed before being used by the HMAC algorithm.',
+    mac: '9b09ffa71b942fcb27635fbcd5b0e944bfdc63644f0713938a7f51535c3a35e2',
+  },
+];
+
+describe('hmacSha256', () => {
+  for (const v of RFC_4231) {
+    it(`matches RFC 4231 ${v.name}`, async () => {
+      assert.equal(toHex(await hmacSha256(v.key, v.data)), v.mac);
+    });
+  }
+});
+
+describe('verifyHmacSha256', () => {
+  const [v] = RFC_4231;
+
+  it('accepts the signature in either case', async () => {
+    assert.equal(await verifyHmacSha256(v.key, v.data, v.mac), true);
+    assert.equal(await verifyHmacSha256(v.key, v.data, v.mac.toUpperCase()), true);
+  });
+
+  it('refuses a changed message, signature or key', async () => {
+    assert.equal(await verifyHmacSha256(v.key, 'Hi there', v.mac), false);
+    assert.equal(await verifyHmacSha256(v.key, v.data, `${v.mac.slice(0, -1)}8`), false);
+    assert.equal(await verifyHmacSha256('other', v.data, v.mac), false);
+  });
+
+  it('refuses malformed signatures', async () => {
+    assert.equal(await verifyHmacSha256(v.key, v.data, ''), false);
+    assert.equal(await verifyHmacSha256(v.key, v.data, v.mac.slice(1)), false);
+    assert.equal(await verifyHmacSha256(v.key, v.data, `${v.mac.slice(0, -2)}zz`), false);
+  });
+});
+
+describe('timingSafeEqual', () => {
+  it('compares whole strings', () => {
+    assert.equal(timingSafeEqual('fixture-secret', 'fixture-secret'), true);
+    assert.equal(timingSafeEqual('fixture-secret', 'fixture-secreT'), false);
+    assert.equal(timingSafeEqual('fixture-secret', 'fixture-secret2'), false);
+    assert.equal(timingSafeEqual('', 'x'), false);
+  });
+});
@@ -0,0 +1,236 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { constants, deflateSync } from 'node:zlib';
+import {
+  DHASH_SIZE,
+  DUPLICATE_DISTANCE,
+  decodeGrayscalePng,
+  differenceHash,
+  hashBands,
+  hashDistance,
+  inflate,
+  type GrayImage,
+} from '../imageHash.ts';
+
+// BTYPE of the first deflate block, after the 2-byte zlib header
+function firstBlockType(zlib: Uint8Array) {
+  return (zlib[2] >> 1) & 3;
+}
+
+// Repetitive text with some variety, so the compressor emits back-references
+function sampleBytes(length: number) {
+  const words = ['install', 'level', 'reward', 'proof', 'screenshot', 'deposit'];
+  const out = new Uint8Array(length);
+  let seed = 7;
+  for (let i = 0; i < length;) {
+    seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+    for (const c of `${words[seed % words.length]} ${seed % 97} `) if (i < length) out[i++] = c.charCodeAt(0);
+  }
+  return out;
+}
+
+describe('inflate', () => {
+  const data = sampleBytes(70000);
+
+  it('reads stored blocks', () => {
+    const z = deflateSync(data, { level: 0 });
+    assert.equal(firstBlockType(z), 0);
+    assert.deepEqual(inflate(z), data);
+  });
+
+  it('reads fixed-Huffman blocks', () => {
+    const z = deflateSync(data.subarray(0, 4000), { strategy: constants.Z_FIXED });
+    assert.equal(firstBlockType(z), 1);
+    assert.deepEqual(inflate(z), data.subarray(0, 4000));
+  });
+
+  it('reads dynamic-Huffman blocks', () => {
+    const z = deflateSync(data);
+    assert.equal(firstBlockType(z), 2);
+    assert.deepEqual(inflate(z), data);
+  });
+
+  it('reads empty input', () => {
+    assert.deepEqual(inflate(deflateSync(new Uint8Array(0))), new Uint8Array(0));
+  });
+});
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(bytes: Uint8Array) {
+  let c = 0xffffffff;
+  for (const b of bytes) c = CRC_TABLE[(c ^ b) & 0xff] ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+}
+
+function chunk(type: string, data: Uint8Array) {
+  const out = new Uint8Array(12 + data.length);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) out[4 + i] = type.charCodeAt(i);
+  out.set(data, 8);
+  view.setUint32(8 + data.length, crc32(out.subarray(4, 8 + data.length)));
+  return out;
+}
+
+function paeth(a: number, b: number, c: number) {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  return pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+}
+
+const COLOR_TYPES: Record<number, number> = { 1: 0, 2: 4, 3: 2, 4: 6 }; // channels -> PNG color type
+
+// An 8-bit PNG whose row y is written with filters[y % filters.length]
+function encodePng(width: number, height: number, channels: number, pixels: Uint8Array, filters: number[]) {
+  const stride = width * channels;
+  const raw = new Uint8Array((stride + 1) * height);
+  for (let y = 0; y < height; y++) {
+    const filter = filters[y % filters.length];
+    raw[y * (stride + 1)] = filter;
+    for (let x = 0; x < stride; x++) {
+      const v = pixels[y * stride + x];
+      const left = x >= channels ? pixels[y * stride + x - channels] : 0;
+      const up = y ? pixels[(y - 1) * stride + x] : 0;
+      const upLeft = y && x >= channels ? pixels[(y - 1) * stride + x - channels] : 0;
+      const predicted = [0, left, up, (left + up) >> 1, paeth(left, up, upLeft)][filter];
+      raw[y * (stride + 1) + 1 + x] = (v - predicted) & 0xff;
+    }
+  }
+  const ihdr = new Uint8Array(13);
+  const view = new DataView(ihdr.buffer);
+  view.setUint32(0, width);
+  view.setUint32(4, height);
+  ihdr.set([8, COLOR_TYPES[channels], 0, 0, 0], 8);
+  const parts = [
+    new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk('IHDR', ihdr),
+    chunk('IDAT', deflateSync(raw)),
+    chunk('IEND', new Uint8Array(0)),
+  ];
+  const png = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  parts.reduce((offset, p) => { png.set(p, offset); return offset + p.length; }, 0);
+  return png;
+}
+
+function noisyPixels(width: number, height: number, channels: number) {
+  const pixels = new Uint8Array(width * height * channels);
+  let seed = 42;
+  for (let i = 0; i < pixels.length; i++) {
+    seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+    pixels[i] = (i * 7 + (seed >> 16)) & 0xff;
+  }
+  return pixels;
+}
+
+function expectedGray(pixels: Uint8Array, channels: number) {
+  return Float32Array.from({ length: pixels.length / channels }, (_, i) => {
+    const p = i * channels;
+    return channels >= 3 ? 0.299 * pixels[p] + 0.587 * pixels[p + 1] + 0.114 * pixels[p + 2] : pixels[p];
+  });
+}
+
+describe('decodeGrayscalePng', () => {
+  const FILTERS = ['none', 'sub', 'up', 'average', 'paeth'];
+  for (const channels of [1, 2, 3, 4]) {
+    for (let filter = 0; filter < FILTERS.length; filter++) {
+      it(`decodes ${channels}-channel rows with the ${FILTERS[filter]} filter`, () => {
+        const pixels = noisyPixels(13, 7, channels);
+        const image = decodeGrayscalePng(encodePng(13, 7, channels, pixels, [filter]));
+        assert.equal(image.width, 13);
+        assert.equal(image.height, 7);
+        assert.deepEqual(image.gray, expectedGray(pixels, channels));
+      });
+    }
+  }
+
+  it('decodes rows that mix every filter', () => {
+    const pixels = noisyPixels(DHASH_SIZE.width, DHASH_SIZE.height, 4);
+    const image = decodeGrayscalePng(encodePng(DHASH_SIZE.width, DHASH_SIZE.height, 4, pixels, [0, 1, 2, 3, 4]));
+    assert.deepEqual(image.gray, expectedGray(pixels, 4));
+  });
+
+  it('refuses other formats', () => {
+    assert.throws(() => decodeGrayscalePng(new Uint8Array([0xff, 0xd8, 0xff, 0xe0, 0, 0, 0, 0])), /Not a PNG/);
+  });
+});
+
+// A screenshot-like test card: bright bars of varying width on a dark gradient
+function screenshot(shift = 0): GrayImage {
+  const { width, height } = DHASH_SIZE;
+  const gray = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const bar = ((x + shift) >> 3) % 3 === 0 && (y >> 3) % 2 === 0 ? 180 : 0;
+      gray[y * width + x] = 20 + x + y / 2 + bar;
+    }
+  }
+  return { width, height, gray };
+}
+
+function withNoise(image: GrayImage, amount: number): GrayImage {
+  let seed = 1;
+  const gray = image.gray.map((v) => {
+    seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+    return v + ((seed >> 16) % (2 * amount + 1)) - amount;
+  });
+  return { ...image, gray };
+}
+
+function flipBits(hash: string, bits: number[]) {
+  const nibbles = hash.split('').map((c) => parseInt(c, 16));
+  for (const b of bits) nibbles[b >> 2] ^= 8 >> (b & 3);
+  return nibbles.map((n) => n.toString(16)).join('');
+}
+
+describe('difference hash', () => {
+  it('is 16 hex chars', () => {
+    assert.match(differenceHash(screenshot()), /^[0-9a-f]{16}$/);
+  });
+
+  it('keeps a re-compressed copy within the duplicate distance', () => {
+    const original = differenceHash(screenshot());
+    const copy = differenceHash(withNoise(screenshot(), 3));
+    assert.ok(hashDistance(original, copy) <= DUPLICATE_DISTANCE, `distance ${hashDistance(original, copy)}`);
+  });
+
+  it('tells a different screenshot apart', () => {
+    const distance = hashDistance(differenceHash(screenshot()), differenceHash(screenshot(12)));
+    assert.ok(distance > DUPLICATE_DISTANCE, `distance ${distance}`);
+  });
+
+  it('hashes a decoded PNG like its pixels', () => {
+    const image = screenshot();
+    const pixels = Uint8Array.from(image.gray, (v) => Math.min(255, Math.round(v)));
+    const decoded = decodeGrayscalePng(encodePng(image.width, image.height, 1, pixels, [4]));
+    assert.equal(differenceHash(decoded), differenceHash({ ...image, gray: Float32Array.from(pixels) }));
+  });
+});
+
+describe('hash bands', () => {
+  const hash = '0123456789abcdef';
+
+  it('counts differing bits', () => {
+    assert.equal(hashDistance(hash, hash), 0);
+    assert.equal(hashDistance(hash, flipBits(hash, [0, 17, 63])), 3);
+    assert.equal(hashDistance('0000000000000000', 'ffffffffffffffff'), 64);
+  });
+
+  it('shares a band between hashes within the duplicate distance', () => {
+    // One flipped bit in each of the first three bands still leaves the last band equal
+    const near = flipBits(hash, [1, 20, 40]);
+    assert.equal(hashDistance(hash, near), DUPLICATE_DISTANCE);
+    assert.ok(hashBands(near).some((b) => hashBands(hash).includes(b)));
+  });
+
+  it('shares no band once every band differs', () => {
+    const far = flipBits(hash, [1, 20, 40, 60]);
+    assert.ok(!hashBands(far).some((b) => hashBands(hash).includes(b)));
+  });
+});
@@ -0,0 +1,51 @@
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { describe, it } from 'node:test';
+import {
+  COMPLETED_STATUSES,
+  OPEN_STATUSES,
+  REVIEW_STATUSES,
+  TRANSACTION_TRANSITIONS,
+  canTransition,
+  dbStatuses,
+  normalizeStatus,
+} from '../transactionLifecycle.ts';
+
+describe('status groupings', () => {
+  it('derives open and review statuses from the transitions', () => {
+    assert.deepEqual(OPEN_STATUSES, ['started', 'submitted', 'under_review']);
+    assert.deepEqual(REVIEW_STATUSES, ['submitted', 'under_review']);
+  });
+
+  it('keeps completed, open and review statuses apart', () => {
+    for (const s of COMPLETED_STATUSES) assert.ok(!OPEN_STATUSES.includes(s), s);
+    for (const s of REVIEW_STATUSES) assert.ok(OPEN_STATUSES.includes(s), s);
+  });
+});
+
+describe('transitions', () => {
+  it('reopens a rejected conversion for review instead of approving it', () => {
+    assert.equal(canTransition('rejected', 'approved'), false);
+    assert.equal(canTransition('rejected', 'submitted'), true);
+    assert.equal(canTransition('submitted', 'approved'), true);
+  });
+
+  it('matches the transitions the database enforces', () => {
+    const sql = readFileSync(join(process.cwd(), 'supabase/migrations/20261019000025_transaction_lifecycle.sql'), 'utf8');
+    const enforced: Record<string, string[]> = {};
+    for (const m of sql.matchAll(/when '(\w+)' then .* in \(([^)]*)\)/g)) {
+      enforced[m[1]] = m[2].split(',').map((s) => s.trim().replace(/'/g, ''));
+    }
+    const expected = Object.fromEntries(Object.entries(TRANSACTION_TRANSITIONS).filter(([, to]) => to.length));
+    assert.deepEqual(enforced, expected);
+  });
+});
+
+describe('legacy statuses', () => {
+  it("reads 'pending' as 'started' and matches it in queries", () => {
+    assert.equal(normalizeStatus('pending'), 'started');
+    assert.deepEqual(dbStatuses(OPEN_STATUSES), ['started', 'submitted', 'under_review', 'pending']);
+    assert.deepEqual(dbStatuses(COMPLETED_STATUSES), ['approved', 'paid']);
+  });
+});
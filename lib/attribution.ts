@@ -0,0 +1,234 @@
+import { hmacSha256, timingSafeEqual, toHex, verifyHmacSha256 } from './hmac.ts';
+
+/**
+ * Attribution-network postback adapters. Networks report conversions with their own parameter
+ * names, signing schemes and event names; each adapter verifies a raw postback and normalizes it
+ * into one `ConversionEvent`, and an offer's `OfferAttribution` says which network's events
+ * complete it or its milestones. The `postback` edge function verifies and parses; the app only
+ * reads the adapters' labels and events, so no app modules or '@/' paths here.
+ */
+export type AttributionNetwork = 'generic' | 'appsflyer' | 'adjust' | 'branch';
+
+// A postback as received: query string, raw body and lower-cased header names
+export type PostbackRequest = {
+  query: Record<string, string>;
+  body: string;
+  headers: Record<string, string>;
+};
+
+export type ConversionEvent = {
+  network: AttributionNetwork;
+  clickId: string | null; // the transaction's click id, echoed back by the network
+  eventName: string; // lower-cased network event, e.g. 'install' or 'af_purchase'
+  status: 'converted' | 'rejected'; // rejected: the network's fraud checks refused the conversion
+  payout: number | null; // revenue reported by the network, informational
+  currency: string | null;
+  occurredAt: string | null; // ISO
+};
+
+export type AttributionAdapter = {
+  network: AttributionNetwork;
+  label: string;
+  events: string[]; // common event names, offered in the admin form
+  defaultEvent: string; // completes the offer when it names no event
+  /** Whether the postback carries a valid signature or token for `secret`. */
+  verify(req: PostbackRequest, secret: string): Promise<boolean>;
+  parse(req: PostbackRequest): ConversionEvent;
+};
+
+// Per offer: the network whose postbacks settle it, and which events count
+export type OfferAttribution = {
+  network: AttributionNetwork;
+  completionEvent?: string; // settles the transaction the click was made for
+  stepEvents?: Record<string, string>; // milestone step id -> event that settles that milestone
+};
+
+/** Query fields merged with a form-encoded or flat JSON body; body fields win. */
+export function readFields(req: PostbackRequest): Record<string, string> {
+  const fields = { ...req.query };
+  const body = req.body.trim();
+  if (!body) return fields;
+  if (body.startsWith('{')) {
+    try {
+      const json = JSON.parse(body);
+      for (const [k, v] of Object.entries(json ?? {})) {
+        if (typeof v === 'string' || typeof v === 'number' || typeof v === 'boolean') fields[k] = String(v);
+      }
+    } catch {}
+    return fields;
+  }
+  new URLSearchParams(body).forEach((v, k) => { fields[k] = v; });
+  return fields;
+}
+
+function first(fields: Record<string, string>, names: string[]) {
+  for (const name of names) {
+    const value = fields[name]?.trim();
+    if (value) return value;
+  }
+  return null;
+}
+
+function toNumber(value: string | null | undefined) {
+  const n = Number(value);
+  return value != null && value !== '' && Number.isFinite(n) ? n : null;
+}
+
+function toIso(value: string | number | null | undefined, unit: 's' | 'ms' = 'ms') {
+  if (value == null || value === '') return null;
+  const n = Number(value);
+  // AppsFlyer sends "YYYY-MM-DD HH:mm:ss.SSS" in UTC
+  const date = Number.isFinite(n) ? new Date(unit === 's' ? n * 1000 : n) : new Date(String(value).replace(' ', 'T') + (String(value).includes('Z') ? '' : 'Z'));
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+function eventName(value: string | null | undefined, fallback: string) {
+  return (value ?? '').trim().toLowerCase() || fallback;
+}
+
+export async function signHex(secret: string, message: string) {
+  return toHex(await hmacSha256(secret, message));
+}
+
+// Our own format: the tracking link's click id and a shared secret as query, form or JSON fields
+const generic: AttributionAdapter = {
+  network: 'generic',
+  label: 'Generic (shared secret)',
+  events: ['conversion'],
+  defaultEvent: 'conversion',
+  async verify(req, secret) {
+    const given = req.headers['x-postback-secret'] || first(readFields(req), ['secret', 'token']);
+    return !!given && timingSafeEqual(given, secret);
+  },
+  parse(req) {
+    const f = readFields(req);
+    const status = (f.status ?? '').trim().toLowerCase();
+    return {
+      network: 'generic',
+      clickId: first(f, ['click_id', 'clickid', 'sub_id', 'subid']),
+      eventName: eventName(f.event, 'conversion'),
+      status: ['rejected', 'declined', 'reversed', 'fraud'].includes(status) ? 'rejected' : 'converted',
+      payout: toNumber(f.payout),
+      currency: f.currency?.trim() || null,
+      occurredAt: null,
+    };
+  },
+};
+
+// AppsFlyer-style: `signature` is HMAC-SHA256 over clickid + event_name + event_time;
+// Protect360 blocks arrive with `blocked_reason`
+const appsflyer: AttributionAdapter = {
+  network: 'appsflyer',
+  label: 'AppsFlyer',
+  events: ['install', 'af_complete_registration', 'af_level_achieved', 'af_purchase'],
+  defaultEvent: 'install',
+  async verify(req, secret) {
+    const f = readFields(req);
+    const signature = f.signature?.trim();
+    if (!signature) return false;
+    return verifyHmacSha256(secret, `${f.clickid ?? ''}${f.event_name ?? ''}${f.event_time ?? ''}`, signature);
+  },
+  parse(req) {
+    const f = readFields(req);
+    return {
+      network: 'appsflyer',
+      clickId: first(f, ['clickid', 'click_id']),
+      eventName: eventName(f.event_name, 'install'),
+      status: f.blocked_reason?.trim() || f.is_rejected === 'true' ? 'rejected' : 'converted',
+      payout: toNumber(f.event_revenue),
+      currency: f.event_revenue_currency?.trim() || null,
+      occurredAt: toIso(f.event_time),
+    };
+  },
+};
+
+// Adjust-style callbacks: static partner parameters carry the click id and a shared token;
+// `activity_kind` is install/event, or rejected_install for refused attributions
+const adjust: AttributionAdapter = {
+  network: 'adjust',
+  label: 'Adjust',
+  events: ['install', 'registration', 'level_5', 'purchase'],
+  defaultEvent: 'install',
+  async verify(req, secret) {
+    const token = first(readFields(req), ['token', 'secret']);
+    return !!token && timingSafeEqual(token, secret);
+  },
+  parse(req) {
+    const f = readFields(req);
+    const kind = eventName(f.activity_kind, 'install');
+    const rejected = kind.startsWith('rejected_');
+    return {
+      network: 'adjust',
+      clickId: first(f, ['click_id', 'clickid']),
+      eventName: kind === 'event' ? eventName(f.event_name, 'event') : rejected ? kind.slice('rejected_'.length) : kind,
+      status: rejected ? 'rejected' : 'converted',
+      payout: toNumber(f.revenue),
+      currency: f.currency?.trim() || null,
+      occurredAt: toIso(f.created_at, 's'),
+    };
+  },
+};
+
+// Branch-style webhooks: a JSON body signed in `x-branch-signature` (HMAC-SHA256 of the raw body),
+// with the click id in the last attributed touch
+const branch: AttributionAdapter = {
+  network: 'branch',
+  label: 'Branch',
+  events: ['install', 'complete_registration', 'achieve_level', 'purchase'],
+  defaultEvent: 'install',
+  async verify(req, secret) {
+    const signature = req.headers['x-branch-signature']?.trim();
+    return !!signature && verifyHmacSha256(secret, req.body, signature);
+  },
+  parse(req) {
+    let json: any = null;
+    try { json = JSON.parse(req.body); } catch {}
+    const touch = json?.last_attributed_touch_data ?? {};
+    const clickId = touch.click_id ?? touch['~click_id'] ?? touch['$3p_click_id'];
+    return {
+      network: 'branch',
+      clickId: typeof clickId === 'string' && clickId.trim() ? clickId.trim() : null,
+      eventName: eventName(json?.name, 'install'),
+      status: 'converted',
+      payout: toNumber(json?.event_data?.revenue != null ? String(json.event_data.revenue) : null),
+      currency: typeof json?.event_data?.currency === 'string' ? json.event_data.currency : null,
+      occurredAt: toIso(json?.timestamp),
+    };
+  },
+};
+
+const adapters = new Map<AttributionNetwork, AttributionAdapter>();
+
+/** Adds or replaces the adapter for its network. */
+export function registerAttributionAdapter(adapter: AttributionAdapter) {
+  adapters.set(adapter.network, adapter);
+}
+
+[generic, appsflyer, adjust, branch].forEach(registerAttributionAdapter);
+
+export function getAttributionAdapter(network: string): AttributionAdapter | null {
+  return adapters.get(network as AttributionNetwork) ?? null;
+}
+
+export function listAttributionAdapters(): AttributionAdapter[] {
+  return Array.from(adapters.values());
+}
+
+/**
+ * Which transaction an event settles: `{ stepId }` of the milestone it completes, `{ stepId: null }`
+ * for the clicked transaction itself, or null when the offer does not count this event.
+ * Offers without attribution settings take any generic postback for the clicked transaction.
+ */
+export function resolveConversionTarget(
+  attribution: OfferAttribution | null | undefined,
+  event: Pick<ConversionEvent, 'network' | 'eventName'>,
+): { stepId: string | null } | null {
+  if (!attribution) return event.network === 'generic' ? { stepId: null } : null;
+  if (attribution.network !== event.network) return null;
+  for (const [stepId, name] of Object.entries(attribution.stepEvents ?? {})) {
+    if (name.trim().toLowerCase() === event.eventName) return { stepId };
+  }
+  const completion = attribution.completionEvent?.trim().toLowerCase()
+    || getAttributionAdapter(attribution.network)?.defaultEvent;
+  return completion === event.eventName ? { stepId: null } : null;
+}
@@ -1,9 +1,85 @@
 import { supabase } from './supabase';
+import { recordRevision, type Revision } from './revisions';
+import { byCreatedAtDesc, subscribeLiveQuery, type LiveQuery } from './realtime';
+import { readCachedRows } from './offlineCache';
+import type { OfferAttribution } from './attribution';
+
+// Editorial workflow: only published content reaches users (null status = legacy, published)
+export type ContentStatus = 'draft' | 'in_review' | 'published';
+
+export const CONTENT_STATUS_LABELS: Record<ContentStatus, string> = {
+  draft: 'Draft',
+  in_review: 'In review',
+  published: 'Published',
+};
+
+export function isPublished(item: { status?: ContentStatus }) {
+  return !item.status || item.status === 'published';
+}
 
 export type Slide = {
   id: string;
   image: string; // image URL
+  thumbnail?: string; // small copy of the banner for admin lists
   link?: string; // optional external or in-app link
+  status?: ContentStatus;
+  position?: number; // carousel order, ascending; unpositioned slides go last
+  startsAt?: string; // ISO timestamp; hidden from the carousel before this
+  endsAt?: string; // ISO timestamp; hidden from the carousel from this on
+};
+
+export type OfferCategory = 'games' | 'finance' | 'shopping' | 'surveys' | 'entertainment' | 'other';
+
+export const OFFER_CATEGORIES: { id: OfferCategory; label: string }[] = [
+  { id: 'games', label: 'Games' },
+  { id: 'finance', label: 'Finance' },
+  { id: 'shopping', label: 'Shopping' },
+  { id: 'surveys', label: 'Surveys' },
+  { id: 'entertainment', label: 'Entertainment' },
+  { id: 'other', label: 'Other' },
+];
+
+export type OfferPlatform = 'android' | 'ios' | 'web';
+
+// English lives in the base title/description/steps; other locales are optional overrides
+export type OfferLocale = 'en' | 'hi' | 'bn' | 'ta' | 'te' | 'mr';
+
+export const OFFER_LOCALES: { id: OfferLocale; label: string }[] = [
+  { id: 'en', label: 'English' },
+  { id: 'hi', label: 'हिन्दी' },
+  { id: 'bn', label: 'বাংলা' },
+  { id: 'ta', label: 'தமிழ்' },
+  { id: 'te', label: 'తెలుగు' },
+  { id: 'mr', label: 'मराठी' },
+];
+
+// How a milestone is confirmed before it pays out
+export type StepVerification = 'manual' | 'proof' | 'postback';
+
+export const STEP_VERIFICATIONS: { id: StepVerification; label: string }[] = [
+  { id: 'manual', label: 'Manual review' },
+  { id: 'proof', label: 'Screenshot proof' },
+  { id: 'postback', label: 'Tracking postback' },
+];
+
+export type OfferStep = {
+  id: string; // stable within the offer; milestone transactions reference it
+  text: string;
+  reward?: number; // ₹ paid for this milestone; steps without one are instructions only
+  verification?: StepVerification; // defaults to 'manual'
+};
+
+// Who may take an offer, on top of device targeting; all rules must pass
+export type EligibilityRule =
+  | { kind: 'joined_within_days'; days: number } // new users only
+  | { kind: 'min_paid_tasks'; count: number } // proven users only
+  | { kind: 'not_completed_offer'; offerId: string } // e.g. skip users who already did a sister offer
+  | { kind: 'once_per_device' }; // one user per device may take the offer
+
+export type OfferTranslation = {
+  title?: string;
+  description?: string;
+  steps?: string[];
 };
 
 export type OfferItem = {
@@ -11,31 +87,90 @@ export type OfferItem = {
   title: string;
   amount: number;
   icon?: string;
+  iconThumb?: string; // small copy of the icon for dense lists
   label?: string;
   description?: string;
-  steps?: string[];
+  steps?: OfferStep[];
   storeUrl?: string; // optional redirect link
+  trackingUrl?: string; // advertiser tracking link template with {click_id}, {user_id}, {offer_id}; opened instead of storeUrl
+  attribution?: OfferAttribution; // which attribution network's postbacks complete the offer and its milestones
   active?: boolean; // visibility toggle
   requiresProof?: boolean; // whether users must upload screenshot proof
+  startsAt?: string; // ISO; hidden from users before this instant
+  endsAt?: string; // ISO; hidden from users after this instant
+  capTotal?: number; // max conversions (pending + paid) over the campaign
+  capDaily?: number; // max conversions per UTC day
+  budgetTotal?: number; // max ₹ committed over the campaign
+  budgetDaily?: number; // max ₹ committed per UTC day
+  category?: OfferCategory;
+  tags?: string[]; // free-form, lowercase
+  platforms?: OfferPlatform[]; // empty/undefined = all platforms
+  minAppVersion?: string; // inclusive, e.g. "1.2.0"
+  maxAppVersion?: string; // inclusive
+  translations?: Partial<Record<OfferLocale, OfferTranslation>>;
+  eligibility?: EligibilityRule[];
+  status?: ContentStatus;
 };
+
+export type OfferCaps = Pick<OfferItem, 'capTotal' | 'capDaily' | 'budgetTotal' | 'budgetDaily'>;
+
+export function hasOfferCaps(caps: OfferCaps) {
+  return !!(caps.capTotal || caps.capDaily || caps.budgetTotal || caps.budgetDaily);
+}
 // Mapping helpers for Supabase rows <-> app types
-type SlideRow = { id: string; image: string; link: string | null; created_at: string };
+type SlideRow = {
+  id: string;
+  image: string;
+  thumbnail: string | null;
+  link: string | null;
+  status: string | null;
+  position: number | null;
+  starts_at: string | null;
+  ends_at: string | null;
+  created_at: string;
+};
 type OfferRow = {
   id: string;
   title: string;
   amount: number;
   icon: string | null;
+  icon_thumb: string | null;
   label: string | null;
   description: string | null;
-  steps: string[] | null; // jsonb array of text
+  steps: (string | OfferStep)[] | null; // jsonb; legacy rows hold plain text
   store_url: string | null;
+  tracking_url: string | null;
+  attribution: OfferAttribution | null; // jsonb
   active: boolean | null;
   requires_proof: boolean | null;
+  starts_at: string | null;
+  ends_at: string | null;
+  cap_total: number | null;
+  cap_daily: number | null;
+  budget_total: number | null;
+  budget_daily: number | null;
+  category: string | null;
+  tags: string[] | null; // text[]
+  platforms: string[] | null; // text[]
+  min_app_version: string | null;
+  max_app_version: string | null;
+  translations: Partial<Record<OfferLocale, OfferTranslation>> | null; // jsonb
+  eligibility: EligibilityRule[] | null; // jsonb
+  status: string | null;
   created_at: string;
 };
 
 function fromSlideRow(r: SlideRow): Slide {
-  return { id: r.id, image: r.image, link: r.link ?? undefined };
+  return {
+    id: r.id,
+    image: r.image,
+    thumbnail: r.thumbnail ?? undefined,
+    link: r.link ?? undefined,
+    status: (r.status as ContentStatus | null) ?? undefined,
+    position: r.position ?? undefined,
+    startsAt: r.starts_at ?? undefined,
+    endsAt: r.ends_at ?? undefined,
+  };
 }
 function fromOfferRow(r: OfferRow): OfferItem {
   return {
@@ -43,12 +178,29 @@ function fromOfferRow(r: OfferRow): OfferItem {
     title: r.title,
     amount: r.amount,
     icon: r.icon ?? undefined,
+    iconThumb: r.icon_thumb ?? undefined,
     label: r.label ?? undefined,
     description: r.description ?? undefined,
-    steps: r.steps ?? undefined,
+    steps: r.steps ? normalizeSteps(r.steps) : undefined,
     storeUrl: r.store_url ?? undefined,
+    trackingUrl: r.tracking_url ?? undefined,
+    attribution: r.attribution ?? undefined,
     active: r.active ?? undefined,
     requiresProof: r.requires_proof ?? undefined,
+    startsAt: r.starts_at ?? undefined,
+    endsAt: r.ends_at ?? undefined,
+    capTotal: r.cap_total ?? undefined,
+    capDaily: r.cap_daily ?? undefined,
+    budgetTotal: r.budget_total ?? undefined,
+    budgetDaily: r.budget_daily ?? undefined,
+    category: (r.category as OfferCategory | null) ?? undefined,
+    tags: r.tags ?? undefined,
+    platforms: (r.platforms as OfferPlatform[] | null) ?? undefined,
+    minAppVersion: r.min_app_version ?? undefined,
+    maxAppVersion: r.max_app_version ?? undefined,
+    translations: r.translations ?? undefined,
+    eligibility: r.eligibility?.length ? r.eligibility : undefined,
+    status: (r.status as ContentStatus | null) ?? undefined,
   };
 }
 
@@ -57,17 +209,34 @@ function toOfferInsert(input: Omit<OfferItem, 'id' | 'label'> & { id?: string; l
     title: input.title,
     amount: input.amount,
     icon: input.icon ?? null,
+    icon_thumb: input.iconThumb ?? null,
     label: input.label ?? null,
     description: input.description ?? null,
     steps: input.steps ?? null,
     store_url: input.storeUrl ?? null,
+    tracking_url: input.trackingUrl ?? null,
+    attribution: input.attribution ?? null,
     active: input.active ?? true,
     requires_proof: input.requiresProof ?? false,
+    starts_at: input.startsAt ?? null,
+    ends_at: input.endsAt ?? null,
+    cap_total: input.capTotal ?? null,
+    cap_daily: input.capDaily ?? null,
+    budget_total: input.budgetTotal ?? null,
+    budget_daily: input.budgetDaily ?? null,
+    category: input.category ?? null,
+    tags: input.tags?.length ? normalizeTags(input.tags) : null,
+    platforms: input.platforms?.length ? input.platforms : null,
+    min_app_version: input.minAppVersion ?? null,
+    max_app_version: input.maxAppVersion ?? null,
+    translations: input.translations ?? null,
+    eligibility: input.eligibility?.length ? input.eligibility : null,
+    status: input.status ?? null,
   };
 }
 
 function toOfferPatch(patch: Partial<OfferItem>) {
-  return {
+  const update: Record<string, any> = {
     title: patch.title,
     amount: patch.amount,
     icon: patch.icon ?? undefined,
@@ -77,78 +246,261 @@ function toOfferPatch(patch: Partial<OfferItem>) {
     store_url: patch.storeUrl ?? undefined,
     active: patch.active ?? undefined,
     requires_proof: patch.requiresProof ?? undefined,
+    status: patch.status ?? undefined,
   };
+  // Schedule bounds are clearable, so an explicit undefined maps to null
+  if (Object.prototype.hasOwnProperty.call(patch, 'startsAt')) update.starts_at = patch.startsAt ?? null;
+  if (Object.prototype.hasOwnProperty.call(patch, 'endsAt')) update.ends_at = patch.endsAt ?? null;
+  // Caps are clearable as well
+  if (Object.prototype.hasOwnProperty.call(patch, 'capTotal')) update.cap_total = patch.capTotal ?? null;
+  if (Object.prototype.hasOwnProperty.call(patch, 'capDaily')) update.cap_daily = patch.capDaily ?? null;
+  if (Object.prototype.hasOwnProperty.call(patch, 'budgetTotal')) update.budget_total = patch.budgetTotal ?? null;
+  if (Object.prototype.hasOwnProperty.call(patch, 'budgetDaily')) update.budget_daily = patch.budgetDaily ?? null;
+  if (Object.prototype.hasOwnProperty.call(patch, 'category')) update.category = patch.category ?? null;
+  if (Object.prototype.hasOwnProperty.call(patch, 'tags')) update.tags = patch.tags?.length ? normalizeTags(patch.tags) : null;
+  if (Object.prototype.hasOwnProperty.call(patch, 'platforms')) update.platforms = patch.platforms?.length ? patch.platforms : null;
+  if (Object.prototype.hasOwnProperty.call(patch, 'minAppVersion')) update.min_app_version = patch.minAppVersion ?? null;
+  if (Object.prototype.hasOwnProperty.call(patch, 'maxAppVersion')) update.max_app_version = patch.maxAppVersion ?? null;
+  if (Object.prototype.hasOwnProperty.call(patch, 'translations')) update.translations = patch.translations ?? null;
+  if (Object.prototype.hasOwnProperty.call(patch, 'trackingUrl')) update.tracking_url = patch.trackingUrl ?? null;
+  if (Object.prototype.hasOwnProperty.call(patch, 'attribution')) update.attribution = patch.attribution ?? null;
+  if (Object.prototype.hasOwnProperty.call(patch, 'eligibility')) update.eligibility = patch.eligibility?.length ? patch.eligibility : null;
+  // A new icon without a thumbnail must not keep the old icon's thumbnail
+  if (Object.prototype.hasOwnProperty.call(patch, 'iconThumb')) update.icon_thumb = patch.iconThumb ?? null;
+  return update;
+}
+
+// Plain-text steps predate milestones; they become unrewarded steps with positional ids
+export function normalizeSteps(raw: (string | Partial<OfferStep>)[]): OfferStep[] {
+  return raw.map((step, i) => {
+    if (typeof step === 'string') return { id: `s${i + 1}`, text: step };
+    const reward = Number(step.reward);
+    return {
+      id: step.id || `s${i + 1}`,
+      text: String(step.text ?? ''),
+      reward: reward > 0 ? reward : undefined,
+      verification: step.verification,
+    };
+  });
+}
+
+// Multi-stage offers pay per milestone: every step with a reward is a milestone
+export function getMilestones(offer: Pick<OfferItem, 'steps'>): OfferStep[] {
+  return (offer.steps ?? []).filter((s) => (s.reward ?? 0) > 0);
+}
+
+export function isMultiStageOffer(offer: Pick<OfferItem, 'steps'>) {
+  return getMilestones(offer).length > 0;
+}
+
+/** What a user can earn in total: the sum of milestone rewards, or the flat amount. */
+export function offerTotalReward(offer: Pick<OfferItem, 'steps' | 'amount'>) {
+  const milestones = getMilestones(offer);
+  return milestones.length ? milestones.reduce((sum, s) => sum + (s.reward ?? 0), 0) : offer.amount;
+}
+
+// Tags are stored trimmed, lowercase and unique so filtering is exact
+export function normalizeTags(tags: string[]) {
+  return Array.from(new Set(tags.map((t) => t.trim().toLowerCase()).filter(Boolean)));
+}
+
+// Localization helpers: pick the user's locale per field, falling back to the English base
+export function localizeOffer<T extends Pick<OfferItem, 'title' | 'description' | 'steps' | 'translations'>>(offer: T, locale: OfferLocale): T {
+  if (locale === 'en') return offer;
+  const tr = offer.translations?.[locale];
+  if (!tr) return offer;
+  return {
+    ...offer,
+    title: tr.title?.trim() || offer.title,
+    description: tr.description?.trim() || offer.description,
+    // Step texts are only swapped as a whole so numbering never mixes languages;
+    // ids and rewards always come from the base steps
+    steps: offer.steps && tr.steps?.length === offer.steps.length
+      ? offer.steps.map((s, i) => ({ ...s, text: tr.steps![i]?.trim() || s.text }))
+      : offer.steps,
+  };
+}
+
+/** Locales (other than English) where some base field has no translation. */
+export function missingTranslations(offer: Pick<OfferItem, 'description' | 'steps' | 'translations'>): OfferLocale[] {
+  return OFFER_LOCALES.filter((l) => l.id !== 'en')
+    .map((l) => l.id)
+    .filter((id) => {
+      const tr = offer.translations?.[id];
+      if (!tr?.title?.trim()) return true;
+      if (offer.description && !tr.description?.trim()) return true;
+      if (offer.steps?.length && (tr.steps?.length ?? 0) !== offer.steps.length) return true;
+      return false;
+    });
+}
+
+// Scheduling helpers: an offer is live when active and `now` falls inside its window
+export type OfferWindowState = 'scheduled' | 'live' | 'ended';
+
+function parseIso(iso?: string): number | null {
+  if (!iso) return null;
+  const ms = Date.parse(iso);
+  return Number.isNaN(ms) ? null : ms;
+}
+
+export function getOfferWindowState(offer: Pick<OfferItem, 'startsAt' | 'endsAt'>, now = Date.now()): OfferWindowState {
+  const start = parseIso(offer.startsAt);
+  const end = parseIso(offer.endsAt);
+  if (start !== null && now < start) return 'scheduled';
+  if (end !== null && now >= end) return 'ended';
+  return 'live';
+}
+
+export function isOfferLive(offer: Pick<OfferItem, 'active' | 'startsAt' | 'endsAt'>, now = Date.now()) {
+  return offer.active !== false && getOfferWindowState(offer, now) === 'live';
+}
+
+// Slides share the offer window semantics
+export function isSlideLive(slide: Pick<Slide, 'startsAt' | 'endsAt'>, now = Date.now()) {
+  return getOfferWindowState(slide, now) === 'live';
+}
+
+// Offers ending within this window get a countdown on Home and details
+export const EXPIRING_SOON_MS = 24 * 60 * 60 * 1000;
+
+/** Milliseconds until the offer ends, or null when it has no end or is not live. */
+export function msUntilOfferEnds(offer: Pick<OfferItem, 'startsAt' | 'endsAt'>, now = Date.now()): number | null {
+  const end = parseIso(offer.endsAt);
+  if (end === null || getOfferWindowState(offer, now) !== 'live') return null;
+  return end - now;
+}
+
+// Seconds are shown only in the last hour, when the countdown ticks every second
+export function formatCountdown(ms: number) {
+  const total = Math.max(0, Math.floor(ms / 1000));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = total % 60;
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return h > 0 ? `${h}h ${pad(m)}m` : `${m}m ${pad(s)}s`;
+}
+
+// Public feeds only see published (or legacy, status-less) rows; admin passes includeDrafts
+export type ContentQueryOptions = { includeDrafts?: boolean };
+
+export function publishedOnly<Q extends { or: (filters: string) => Q }>(query: Q): Q {
+  return query.or('status.is.null,status.eq.published');
 }
 
 export function seedContent() {
   // No-op when using Supabase
 }
 
-export function getSlides(): Slide[] {
-  // This synchronous API is kept for backward-compat. It returns an empty array immediately.
-  // Use subscribeSlides to receive realtime data shortly after.
-  return [];
+// Offline cache keys (shared with the live lists) so screens can show a "last updated" hint
+export function slidesCacheKey(options?: ContentQueryOptions) {
+  return options?.includeDrafts ? 'slides:all' : 'slides:published';
+}
+export function offersCacheKey(options?: ContentQueryOptions) {
+  return options?.includeDrafts ? 'offers:all' : 'offers:published';
 }
-export function subscribeSlides(cb: (items: Slide[]) => void) {
-  let cancelled = false;
-  // initial load
-  (async () => {
-    const { data, error } = await supabase
-      .from('slides')
-      .select('*')
-      .order('created_at', { ascending: false });
-    if (!cancelled) cb((data as SlideRow[] | null)?.map(fromSlideRow) ?? []);
-    if (error) console.warn('[slides] load error', error.message);
-  })();
 
-  const channel = supabase
-    .channel('slides-changes')
-    .on('postgres_changes', { event: '*', schema: 'public', table: 'slides' }, async () => {
-      const { data } = await supabase
-        .from('slides')
-        .select('*')
-        .order('created_at', { ascending: false });
-      if (!cancelled) cb((data as SlideRow[] | null)?.map(fromSlideRow) ?? []);
-    })
-    .subscribe();
+export function getSlides(options?: ContentQueryOptions): Slide[] {
+  // Synchronous snapshot of the last known slides from the offline cache ([] on first run).
+  // Use subscribeSlides to receive fresh realtime data shortly after.
+  return (readCachedRows(slidesCacheKey(options)) as SlideRow[] | null)?.map(fromSlideRow) ?? [];
+}
+// Carousel order: explicit position first, newest unpositioned slides after
+function compareSlideRows(a: Record<string, any>, b: Record<string, any>) {
+  const pa = a.position ?? Number.POSITIVE_INFINITY;
+  const pb = b.position ?? Number.POSITIVE_INFINITY;
+  if (pa !== pb) return pa < pb ? -1 : 1;
+  return byCreatedAtDesc(a, b);
+}
+export function orderSlides<Q extends { order: (column: string, options?: { ascending?: boolean; nullsFirst?: boolean }) => Q }>(query: Q): Q {
+  return query.order('position', { ascending: true, nullsFirst: false }).order('created_at', { ascending: false });
+}
 
-  return () => {
-    cancelled = true;
-    supabase.removeChannel(channel);
+// Live list definitions, shared by the subscribe* functions and the data hooks
+export function slidesQuery(options?: ContentQueryOptions): LiveQuery<Slide> {
+  return {
+    key: slidesCacheKey(options),
+    table: 'slides',
+    label: 'slides',
+    cache: true,
+    load: () => {
+      const query = orderSlides(supabase.from('slides').select('*'));
+      return options?.includeDrafts ? query : publishedOnly(query);
+    },
+    include: options?.includeDrafts ? undefined : (r) => isPublished({ status: r.status ?? undefined }),
+    compare: compareSlideRows,
+    map: (r) => fromSlideRow(r as SlideRow),
   };
 }
+export function subscribeSlides(cb: (items: Slide[]) => void, options?: ContentQueryOptions) {
+  return subscribeLiveQuery(slidesQuery(options), cb);
+}
 export function addSlide(input: Omit<Slide, 'id'> & { id?: string }) {
   // Fire and forget; return a local object for immediate UI response
   const id = input.id?.trim() || cryptoRandomId('slide');
-  const newSlide: Slide = { id, image: input.image, link: input.link };
-  supabase.from('slides').insert({ id, image: input.image, link: input.link ?? null }).then(({ error }: { error: any }) => {
-    if (error) console.warn('[slides] insert error', error.message);
+  // New slides start as drafts so they never appear on Home before review
+  const newSlide: Slide = { ...input, id, status: input.status ?? 'draft' };
+  supabase.from('slides').insert({ id, ...toSlideRow(newSlide) }).then(({ error }: { error: any }) => {
+    if (error) { console.warn('[slides] insert error', error.message); return; }
+    recordRevision({ entity: 'slide', entityId: id, action: 'create', before: null, after: newSlide });
   });
   return newSlide;
 }
+async function fetchSlideById(id: string): Promise<Slide | null> {
+  const { data, error } = await supabase.from('slides').select('*').eq('id', id).limit(1);
+  if (error) throw error;
+  const row = (data as SlideRow[] | null)?.[0];
+  return row ? fromSlideRow(row) : null;
+}
 export function deleteSlide(id: string) {
-  supabase.from('slides').delete().eq('id', id).then(({ error }: { error: any }) => {
-    if (error) console.warn('[slides] delete error', error.message);
-  });
+  (async () => {
+    const before = await fetchSlideById(id).catch(() => null);
+    const { error } = await supabase.from('slides').delete().eq('id', id);
+    if (error) { console.warn('[slides] delete error', error.message); return; }
+    if (before) recordRevision({ entity: 'slide', entityId: id, action: 'delete', before, after: null });
+  })();
+}
+
+function toSlideRow(input: Omit<Slide, 'id'>) {
+  return {
+    image: input.image,
+    thumbnail: input.thumbnail ?? null,
+    link: input.link ?? null,
+    status: input.status ?? null,
+    position: input.position ?? null,
+    starts_at: input.startsAt ?? null,
+    ends_at: input.endsAt ?? null,
+  };
 }
 
 export function updateSlide(id: string, patch: Partial<Slide>) {
-  const update = {
+  const update: Record<string, any> = {
     image: patch.image,
-    link: patch.link ?? undefined,
-  } as { image?: string; link?: string | null };
+    status: patch.status,
+  };
   // Map undefined to leave untouched, and explicit nulls for nullable columns
-  if (Object.prototype.hasOwnProperty.call(patch, 'link')) {
-    update.link = patch.link ?? null;
-  }
-  supabase.from('slides').update(update).eq('id', id).then(({ error }: { error: any }) => {
-    if (error) console.warn('[slides] update error', error.message);
+  if (Object.prototype.hasOwnProperty.call(patch, 'link')) update.link = patch.link ?? null;
+  if (Object.prototype.hasOwnProperty.call(patch, 'thumbnail')) update.thumbnail = patch.thumbnail ?? null;
+  if (Object.prototype.hasOwnProperty.call(patch, 'position')) update.position = patch.position ?? null;
+  if (Object.prototype.hasOwnProperty.call(patch, 'startsAt')) update.starts_at = patch.startsAt ?? null;
+  if (Object.prototype.hasOwnProperty.call(patch, 'endsAt')) update.ends_at = patch.endsAt ?? null;
+  (async () => {
+    const before = await fetchSlideById(id).catch(() => null);
+    const { error } = await supabase.from('slides').update(update).eq('id', id);
+    if (error) { console.warn('[slides] update error', error.message); return; }
+    if (before) recordRevision({ entity: 'slide', entityId: id, action: 'update', before, after: { ...before, ...patch } });
+  })();
+}
+
+/** Persist a new carousel order; only slides whose position changed are written. */
+export function reorderSlides(ordered: Slide[]) {
+  ordered.forEach((s, index) => {
+    if (s.position !== index) updateSlide(s.id, { position: index });
   });
 }
 
-export function getOffers(): OfferItem[] {
-  // For backward-compat synchronous calls. Use subscribeOffers for data.
-  return [];
+export function getOffers(options?: ContentQueryOptions): OfferItem[] {
+  // Last known offers from the offline cache; subscribeOffers revalidates in the background.
+  return (readCachedRows(offersCacheKey(options)) as OfferRow[] | null)?.map(fromOfferRow) ?? [];
 }
 export function getOfferById(id: string): OfferItem | undefined {
   // Synchronous fallback returns undefined; rely on subscribeOffers to populate UI
@@ -165,94 +517,154 @@ export async function fetchOfferById(id: string): Promise<OfferItem | null> {
   return row ? fromOfferRow(row) : null;
 }
 export function subscribeOfferById(id: string, cb: (item: OfferItem | null) => void) {
-  let cancelled = false;
-  (async () => {
-    try {
-      const first = await fetchOfferById(id);
-      if (!cancelled) cb(first);
-    } catch (e) {
-      if (!cancelled) cb(null);
-    }
-  })();
-
-  const channel = supabase
-    .channel(`offer-${id}-changes`)
-    .on('postgres_changes', { event: '*', schema: 'public', table: 'offers', filter: `id=eq.${id}` }, async () => {
-      try {
-        const next = await fetchOfferById(id);
-        if (!cancelled) cb(next);
-      } catch {
-        if (!cancelled) cb(null);
-      }
-    })
-    .subscribe();
-
-  return () => {
-    cancelled = true;
-    supabase.removeChannel(channel);
-  };
+  return subscribeLiveQuery<OfferItem>({
+    key: `offers:id:${id}`,
+    table: 'offers',
+    filter: `id=eq.${id}`,
+    label: 'offers',
+    load: () => supabase.from('offers').select('*').eq('id', id).limit(1),
+    compare: byCreatedAtDesc,
+    map: (r) => fromOfferRow(r as OfferRow),
+  }, (items) => cb(items[0] ?? null));
 }
-export function subscribeOffers(cb: (items: OfferItem[]) => void) {
-  let cancelled = false;
-  (async () => {
-    const { data, error } = await supabase
-      .from('offers')
-      .select('*')
-      .order('created_at', { ascending: false });
-    if (!cancelled) cb((data as OfferRow[] | null)?.map(fromOfferRow) ?? []);
-    if (error) console.warn('[offers] load error', error.message);
-  })();
-
-  const channel = supabase
-    .channel('offers-changes')
-    .on('postgres_changes', { event: '*', schema: 'public', table: 'offers' }, async () => {
-      const { data } = await supabase
+export function offersQuery(options?: ContentQueryOptions): LiveQuery<OfferItem> {
+  return {
+    key: offersCacheKey(options),
+    table: 'offers',
+    label: 'offers',
+    cache: true,
+    load: () => {
+      const query = supabase
         .from('offers')
         .select('*')
         .order('created_at', { ascending: false });
-      if (!cancelled) cb((data as OfferRow[] | null)?.map(fromOfferRow) ?? []);
-    })
-    .subscribe();
-
-  return () => {
-    cancelled = true;
-    supabase.removeChannel(channel);
+      return options?.includeDrafts ? query : publishedOnly(query);
+    },
+    include: options?.includeDrafts ? undefined : (r) => isPublished({ status: r.status ?? undefined }),
+    compare: byCreatedAtDesc,
+    map: (r) => fromOfferRow(r as OfferRow),
   };
 }
-export function addOffer(input: Omit<OfferItem, 'id' | 'label'> & { id?: string; label?: string }) {
+export function subscribeOffers(cb: (items: OfferItem[]) => void, options?: ContentQueryOptions) {
+  return subscribeLiveQuery(offersQuery(options), cb);
+}
+type NewOfferInput = Omit<OfferItem, 'id' | 'label'> & { id?: string; label?: string };
+
+export function addOffer(input: NewOfferInput) {
+  const { created, write } = prepareOfferInsert(input);
+  write.catch((e: any) => console.warn('[offers] insert error', e?.message || e));
+  return created;
+}
+
+/** Like addOffer, but resolves once the row is written and rejects when the insert fails. */
+export async function createOffer(input: NewOfferInput) {
+  const { created, write } = prepareOfferInsert(input);
+  await write;
+  return created;
+}
+
+function prepareOfferInsert(input: NewOfferInput) {
   const id = input.id?.trim() || cryptoRandomId('offer');
   const label = input.label || null; // label is optional now
-  const insert = { id, ...toOfferInsert({ ...input, label: label ?? undefined }) } as any;
-  supabase.from('offers').insert(insert).then(({ error }: { error: any }) => {
-    if (error) console.warn('[offers] insert error', error.message);
-  });
-  return fromOfferRow({
+  // New offers start as drafts so they never appear on Home before review
+  const status = input.status ?? 'draft';
+  const insert = { id, ...toOfferInsert({ ...input, label: label ?? undefined, status }) } as any;
+  const created = fromOfferRow({
     id,
     title: input.title,
     amount: input.amount,
     icon: input.icon ?? null,
+    icon_thumb: input.iconThumb ?? null,
     label,
     description: input.description ?? null,
     steps: input.steps ?? null,
     store_url: input.storeUrl ?? null,
+    tracking_url: input.trackingUrl ?? null,
+    attribution: input.attribution ?? null,
     active: input.active ?? true,
     requires_proof: input.requiresProof ?? false,
+    starts_at: input.startsAt ?? null,
+    ends_at: input.endsAt ?? null,
+    cap_total: input.capTotal ?? null,
+    cap_daily: input.capDaily ?? null,
+    budget_total: input.budgetTotal ?? null,
+    budget_daily: input.budgetDaily ?? null,
+    category: input.category ?? null,
+    tags: input.tags?.length ? normalizeTags(input.tags) : null,
+    platforms: input.platforms?.length ? input.platforms : null,
+    min_app_version: input.minAppVersion ?? null,
+    max_app_version: input.maxAppVersion ?? null,
+    translations: input.translations ?? null,
+    eligibility: input.eligibility?.length ? input.eligibility : null,
+    status,
     created_at: new Date().toISOString(),
   });
+  const write = (async () => {
+    const { error } = await supabase.from('offers').insert(insert);
+    if (error) throw error;
+    recordRevision({ entity: 'offer', entityId: id, action: 'create', before: null, after: created });
+  })();
+  return { created, write };
 }
 export function updateOffer(id: string, patch: Partial<OfferItem>) {
+  patchOffer(id, patch).catch((e: any) => console.warn('[offers] update error', e?.message || e));
+}
+
+/** Like updateOffer, but resolves once the row is written and rejects when the update fails. */
+export async function patchOffer(id: string, patch: Partial<OfferItem>) {
   const update = toOfferPatch(patch);
-  supabase.from('offers').update(update).eq('id', id).then(({ error }: { error: any }) => {
-    if (error) console.warn('[offers] update error', error.message);
-  });
+  // Snapshot first so the revision keeps what the row used to be
+  const before = await fetchOfferById(id).catch(() => null);
+  const { error } = await supabase.from('offers').update(update).eq('id', id);
+  if (error) throw error;
+  if (before) recordRevision({ entity: 'offer', entityId: id, action: 'update', before, after: { ...before, ...patch } });
 }
 export function deleteOffer(id: string) {
-  supabase.from('offers').delete().eq('id', id).then(({ error }: { error: any }) => {
-    if (error) console.warn('[offers] delete error', error.message);
-  });
+  (async () => {
+    const before = await fetchOfferById(id).catch(() => null);
+    const { error } = await supabase.from('offers').delete().eq('id', id);
+    if (error) { console.warn('[offers] delete error', error.message); return; }
+    if (before) recordRevision({ entity: 'offer', entityId: id, action: 'delete', before, after: null });
+  })();
 }
-export function setOfferVisibility(id: string, active: boolean) {
-  updateOffer(id, { active });
+// Workflow transitions: draft -> in_review -> published (and back to draft to unpublish)
+export function setOfferStatus(id: string, status: ContentStatus) {
+  updateOffer(id, { status });
+}
+export function setSlideStatus(id: string, status: ContentStatus) {
+  updateSlide(id, { status });
+}
+
+// Reverted content is new content: a live item goes back to review instead of staying published
+function revertedStatus(current: { status?: ContentStatus } | null): ContentStatus {
+  if (!current) return 'draft';
+  return isPublished(current) ? 'in_review' : current.status ?? 'draft';
+}
+
+/**
+ * Restore an offer or slide to the state captured by a revision: the snapshot after the change,
+ * or the pre-delete snapshot for deletions. Deleted rows are re-created as drafts.
+ * The workflow status is not part of the restore: a revert never publishes or skips review, so a
+ * published item is taken off Home and sent back to review until it is published again.
+ */
+export async function revertToRevision(rev: Revision) {
+  const snapshot = (rev.after ?? rev.before) as Record<string, any> | null;
+  if (!snapshot) throw new Error('Revision has no snapshot to restore');
+  if (rev.entity === 'offer') {
+    const before = await fetchOfferById(rev.entity_id).catch(() => null);
+    const target: OfferItem = { ...(snapshot as OfferItem), status: revertedStatus(before) };
+    const { error } = await supabase.from('offers').upsert({ id: rev.entity_id, ...toOfferInsert(target) }, { onConflict: 'id' });
+    if (error) throw error;
+    await recordRevision({ entity: 'offer', entityId: rev.entity_id, action: 'revert', before, after: { ...target, id: rev.entity_id } });
+  } else {
+    const before = await fetchSlideById(rev.entity_id).catch(() => null);
+    const target: Slide = { ...(snapshot as Slide), status: revertedStatus(before) };
+    const { error } = await supabase
+      .from('slides')
+      .upsert({ id: rev.entity_id, ...toSlideRow(target) }, { onConflict: 'id' });
+    if (error) throw error;
+    await recordRevision({ entity: 'slide', entityId: rev.entity_id, action: 'revert', before, after: { ...target, id: rev.entity_id } });
+  }
 }
 
 // Simple local ID generator to mimic previous synchronous behavior
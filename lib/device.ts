@@ -0,0 +1,29 @@
+import 'react-native-get-random-values';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+// Random per-install id, used to limit offers to one user per device
+const DEVICE_ID_KEY = 'device:id';
+
+let cached: Promise<string> | null = null;
+
+/** Cryptographically random hex string of `byteCount` bytes. */
+export function randomHex(byteCount = 16) {
+  const bytes = new Uint8Array(byteCount);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+export function getDeviceId(): Promise<string> {
+  cached ||= (async () => {
+    try {
+      const existing = await AsyncStorage.getItem(DEVICE_ID_KEY);
+      if (existing) return existing;
+    } catch {}
+    const id = randomHex();
+    await AsyncStorage.setItem(DEVICE_ID_KEY, id).catch((e: any) => {
+      console.warn('[device] save id error', e?.message || e);
+    });
+    return id;
+  })();
+  return cached;
+}
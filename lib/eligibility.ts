@@ -0,0 +1,112 @@
+import { supabase } from '@/lib/supabase';
+import { getDeviceId } from '@/lib/device';
+import type { EligibilityRule, OfferItem } from '@/lib/content';
+import { COMPLETED_STATUSES, isTransactionComplete, type Transaction } from '@/lib/transactions';
+
+/**
+ * Offer eligibility: declarative rules on an offer, checked against the user's signup date,
+ * transaction history and the offers another user already took on this device (`device_claims`).
+ * Home hides ineligible offers, details explain why, and starting a conversion re-checks with
+ * fresh data.
+ */
+export type EligibilityContext = {
+  userId: string;
+  joinedAt: string | null; // auth signup time
+  paidOfferIds: Set<string>; // offers with a paid transaction
+  completedOfferIds: Set<string>; // offers with an approved or paid transaction
+  takenOnDevice: Set<string>; // offers another user started on this device
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function buildEligibilityContext(
+  userId: string,
+  joinedAt: string | null | undefined,
+  txs: Pick<Transaction, 'offer_id' | 'status'>[],
+  takenOnDevice: Iterable<string>
+): EligibilityContext {
+  const paidOfferIds = new Set(txs.filter((t) => t.status === 'paid' && !!t.offer_id).map((t) => String(t.offer_id)));
+  const completedOfferIds = new Set(txs.filter((t) => isTransactionComplete(t) && !!t.offer_id).map((t) => String(t.offer_id)));
+  return { userId, joinedAt: joinedAt ?? null, paidOfferIds, completedOfferIds, takenOnDevice: new Set(takenOnDevice) };
+}
+
+/** Returns why the user may not take the offer, or null when every rule passes. */
+export function getEligibilityMismatch(
+  offer: Pick<OfferItem, 'id' | 'eligibility'>,
+  ctx: EligibilityContext,
+  now = Date.now()
+): string | null {
+  for (const rule of offer.eligibility ?? []) {
+    switch (rule.kind) {
+      case 'joined_within_days': {
+        const joined = ctx.joinedAt ? Date.parse(ctx.joinedAt) : NaN;
+        if (Number.isNaN(joined) || now - joined > rule.days * DAY_MS) {
+          return `This offer is only for users who joined in the last ${rule.days} day${rule.days === 1 ? '' : 's'}.`;
+        }
+        break;
+      }
+      case 'min_paid_tasks': {
+        // Milestones of one offer count as a single task
+        const missing = rule.count - ctx.paidOfferIds.size;
+        if (missing > 0) return `Complete ${missing} more task${missing === 1 ? '' : 's'} to unlock this offer.`;
+        break;
+      }
+      case 'not_completed_offer':
+        if (ctx.completedOfferIds.has(rule.offerId)) return 'This offer is not available because you completed a similar offer.';
+        break;
+      case 'once_per_device':
+        if (ctx.takenOnDevice.has(offer.id)) {
+          return 'This offer has already been taken on this device.';
+        }
+        break;
+    }
+  }
+  return null;
+}
+
+export function isOfferEligible(offer: Pick<OfferItem, 'id' | 'eligibility'>, ctx: EligibilityContext, now?: number) {
+  return getEligibilityMismatch(offer, ctx, now) === null;
+}
+
+/** Short admin-facing summary of a rule. */
+export function describeEligibilityRule(rule: EligibilityRule): string {
+  switch (rule.kind) {
+    case 'joined_within_days': return `Joined ≤ ${rule.days}d ago`;
+    case 'min_paid_tasks': return `≥ ${rule.count} paid tasks`;
+    case 'not_completed_offer': return `Not done ${rule.offerId}`;
+    case 'once_per_device': return 'One per device';
+  }
+}
+
+// The answer depends on the caller, so the key names the user too
+export function deviceConflictsQueryKey(deviceId: string, userId: string) {
+  return `device_claim_conflicts:${deviceId}:${userId}`;
+}
+
+/** Offers another user took on the device (device_claim_conflicts); who took them is not revealed. */
+export async function fetchDeviceConflicts(deviceId: string): Promise<string[]> {
+  const { data, error } = await supabase.rpc('device_claim_conflicts', { device_id: deviceId, offer_ids: null });
+  if (error) throw error;
+  return ((data as { offer_id: string }[] | null) ?? []).map((r) => r.offer_id);
+}
+
+/** Remember that this device took the offer; later users on the device fail `once_per_device`. */
+export async function recordDeviceClaim(offerId: string, userId: string) {
+  const deviceId = await getDeviceId();
+  const { error } = await supabase
+    .from('device_claims')
+    .upsert({ device_id: deviceId, offer_id: offerId, user_id: userId }, { onConflict: 'device_id,offer_id', ignoreDuplicates: true });
+  if (error) throw error;
+}
+
+/** Fresh context straight from the backend, for the check right before a conversion starts. */
+export async function fetchEligibilityContext(userId: string): Promise<EligibilityContext> {
+  const [{ data: auth }, completed, taken] = await Promise.all([
+    supabase.auth.getUser(),
+    supabase.from('transactions').select('offer_id,status').eq('user_id', userId).in('status', COMPLETED_STATUSES),
+    getDeviceId().then(fetchDeviceConflicts),
+  ]);
+  if (completed.error) throw completed.error;
+  const joinedAt = auth.user?.id === userId ? auth.user.created_at : null;
+  return buildEligibilityContext(userId, joinedAt, (completed.data as Pick<Transaction, 'offer_id' | 'status'>[] | null) ?? [], taken);
+}
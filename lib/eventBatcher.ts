@@ -0,0 +1,45 @@
+import { AppState, type AppStateStatus } from 'react-native';
+import { supabase } from './supabase';
+import { createEventQueue } from './eventQueue';
+
+// Analytics rows queued locally and inserted into `table` in batches: every FLUSH_INTERVAL_MS, once a
+// batch is full, and when the app leaves the foreground. A failed batch is retried on the next tick,
+// unless the database refused it (see lib/eventQueue). Rows get `user_id` from the session at flush
+// time, as the insert policies require, so signing in or out with rows queued does not strand them.
+export type EventBatcher<T> = {
+  enqueue(row: T): void;
+  flush(): Promise<void>;
+};
+
+const FLUSH_INTERVAL_MS = 15 * 1000;
+const MAX_BATCH = 25;
+const MAX_QUEUE = 500; // drop the oldest events if the backend stays unreachable
+
+export function createEventBatcher<T extends object>(
+  table: string,
+  options: { onAppStateChange?: (state: AppStateStatus) => void } = {},
+): EventBatcher<T> {
+  const queue = createEventQueue<T>(table, async (batch) => {
+    const { data } = await supabase.auth.getSession();
+    const userId = data.session?.user.id ?? null;
+    return supabase.from(table).insert(batch.map((row) => ({ ...row, user_id: userId })));
+  }, { maxBatch: MAX_BATCH, maxQueue: MAX_QUEUE });
+  let flushTimer: ReturnType<typeof setInterval> | null = null;
+
+  function ensureFlushLoop() {
+    if (flushTimer) return;
+    flushTimer = setInterval(() => { queue.flush(); }, FLUSH_INTERVAL_MS);
+    AppState.addEventListener('change', (state) => {
+      options.onAppStateChange?.(state);
+      // Send what we have before the OS may suspend the app
+      if (state !== 'active') queue.flush();
+    });
+  }
+
+  function enqueue(row: T) {
+    ensureFlushLoop();
+    if (queue.push(row) >= MAX_BATCH) queue.flush();
+  }
+
+  return { enqueue, flush: queue.flush };
+}
@@ -0,0 +1,59 @@
+/**
+ * The queue behind lib/eventBatcher: rows wait here until `send` inserts them in batches of
+ * `maxBatch`. A batch that fails for a transient reason (network, timeout, server error) goes back
+ * to the front and is retried on the next flush; one the database refuses outright (a constraint
+ * or row-level security) would fail the same way forever and block every later row, so it is
+ * dropped. No React Native or app imports, so the tests can run it.
+ */
+export type EventSendError = { code?: string; message: string };
+
+export type EventQueue<T> = {
+  push(row: T): number; // the queue length afterwards
+  flush(): Promise<void>;
+  size(): number;
+};
+
+// Postgres data exceptions (22xxx), integrity violations (23xxx, checks and foreign keys included)
+// and insufficient privilege (42501, which RLS refusals report)
+export function isPermanentInsertError(error: EventSendError) {
+  const code = error.code ?? '';
+  return code.startsWith('22') || code.startsWith('23') || code === '42501';
+}
+
+export function createEventQueue<T>(
+  label: string,
+  send: (batch: T[]) => Promise<{ error: EventSendError | null }>,
+  options: { maxBatch: number; maxQueue: number },
+): EventQueue<T> {
+  let queue: T[] = [];
+  let flushing = false;
+
+  function push(row: T) {
+    queue.push(row);
+    // Drop the oldest rows if the backend stays unreachable
+    if (queue.length > options.maxQueue) queue = queue.slice(-options.maxQueue);
+    return queue.length;
+  }
+
+  async function flush() {
+    if (flushing || !queue.length) return;
+    flushing = true;
+    const batch = queue.slice(0, options.maxBatch);
+    queue = queue.slice(batch.length);
+    try {
+      const { error } = await send(batch);
+      if (error && isPermanentInsertError(error)) {
+        console.warn(`[${label}] dropped ${batch.length} refused rows`, error.code, error.message);
+      } else if (error) {
+        throw error;
+      }
+    } catch (e: any) {
+      queue = [...batch, ...queue].slice(-options.maxQueue);
+      console.warn(`[${label}] flush error`, e?.message || e);
+    } finally {
+      flushing = false;
+    }
+  }
+
+  return { push, flush, size: () => queue.length };
+}
@@ -0,0 +1,42 @@
+/**
+ * HMAC-SHA256 on Web Crypto (crypto.subtle), for attribution postback signatures. Only the
+ * `postback` edge function (Deno) signs and verifies, so the platform implementation is always
+ * there; Node provides it too for the tests.
+ */
+
+type Bytes = Uint8Array | string;
+
+function bytes(input: Bytes): Uint8Array {
+  return typeof input === 'string' ? new TextEncoder().encode(input) : input;
+}
+
+function importKey(key: Bytes, usage: 'sign' | 'verify') {
+  return crypto.subtle.importKey('raw', bytes(key), { name: 'HMAC', hash: 'SHA-256' }, false, [usage]);
+}
+
+function fromHex(hex: string) {
+  if (!/^(?:[0-9a-f]{2})*$/i.test(hex)) return null;
+  return Uint8Array.from(hex.match(/../g) ?? [], (h) => parseInt(h, 16));
+}
+
+export function toHex(data: Uint8Array) {
+  return Array.from(data, (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+export async function hmacSha256(key: Bytes, message: Bytes): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.sign('HMAC', await importKey(key, 'sign'), bytes(message)));
+}
+
+/** Whether `signatureHex` is the HMAC-SHA256 of `message`; Web Crypto compares in constant time. */
+export async function verifyHmacSha256(key: Bytes, message: Bytes, signatureHex: string): Promise<boolean> {
+  const signature = fromHex(signatureHex.trim());
+  if (!signature?.length) return false;
+  return crypto.subtle.verify('HMAC', await importKey(key, 'verify'), signature, bytes(message));
+}
+
+/** Compares two strings (shared tokens) in time that depends only on the longer one's length. */
+export function timingSafeEqual(a: string, b: string) {
+  let diff = a.length ^ b.length;
+  for (let i = 0; i < Math.max(a.length, b.length); i++) diff |= (a.charCodeAt(i) | 0) ^ (b.charCodeAt(i) | 0);
+  return diff === 0;
+}
@@ -0,0 +1,249 @@
+/**
+ * Perceptual hashing of proof screenshots, free of app modules so it runs under node:test.
+ * lib/proofHash scales a screenshot down to DHASH_SIZE as a PNG with expo-image-manipulator;
+ * this module decodes that PNG to grayscale and computes its 64-bit difference hash (dHash).
+ * Screenshots whose hashes differ in at most DUPLICATE_DISTANCE bits are treated as the same image.
+ */
+export const DUPLICATE_DISTANCE = 3;
+
+const BANDS = 4;
+const GRID_W = 9;
+const GRID_H = 8;
+const BLOCK = 8; // source pixels per grid cell; the image is scaled to 72x64 and box-averaged
+
+export const DHASH_SIZE = { width: GRID_W * BLOCK, height: GRID_H * BLOCK };
+
+// ---- Minimal zlib inflate (RFC 1950/1951), enough for the small PNGs the image manipulator writes ----
+
+class BitReader {
+  pos = 0;
+  private bit = 0;
+  constructor(readonly data: Uint8Array) {}
+
+  bits(n: number) {
+    let v = 0;
+    for (let i = 0; i < n; i++) {
+      if (this.pos >= this.data.length) throw new Error('Unexpected end of image data');
+      v |= ((this.data[this.pos] >> this.bit) & 1) << i;
+      if (++this.bit === 8) { this.bit = 0; this.pos++; }
+    }
+    return v;
+  }
+
+  align() {
+    if (this.bit) { this.bit = 0; this.pos++; }
+  }
+}
+
+type Huffman = { counts: Uint16Array; symbols: Uint16Array };
+
+function buildHuffman(lengths: ArrayLike<number>): Huffman {
+  const counts = new Uint16Array(16);
+  for (let i = 0; i < lengths.length; i++) counts[lengths[i]]++;
+  counts[0] = 0;
+  const offsets = new Uint16Array(16);
+  for (let len = 1; len < 16; len++) offsets[len] = offsets[len - 1] + counts[len - 1];
+  const symbols = new Uint16Array(lengths.length);
+  for (let s = 0; s < lengths.length; s++) if (lengths[s]) symbols[offsets[lengths[s]]++] = s;
+  return { counts, symbols };
+}
+
+function decodeSymbol(r: BitReader, h: Huffman) {
+  let code = 0;
+  let first = 0;
+  let index = 0;
+  for (let len = 1; len < 16; len++) {
+    code |= r.bits(1);
+    const count = h.counts[len];
+    if (code < first + count) return h.symbols[index + (code - first)];
+    index += count;
+    first = (first + count) << 1;
+    code <<= 1;
+  }
+  throw new Error('Invalid Huffman code');
+}
+
+const LENGTH_BASE = [3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258];
+const LENGTH_EXTRA = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0];
+const DIST_BASE = [1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577];
+const DIST_EXTRA = [0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13];
+const CODE_LENGTH_ORDER = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15];
+
+function fixedTables(): [Huffman, Huffman] {
+  const lit = new Uint8Array(288);
+  lit.fill(8, 0, 144);
+  lit.fill(9, 144, 256);
+  lit.fill(7, 256, 280);
+  lit.fill(8, 280, 288);
+  return [buildHuffman(lit), buildHuffman(new Uint8Array(30).fill(5))];
+}
+
+function dynamicTables(r: BitReader): [Huffman, Huffman] {
+  const hlit = r.bits(5) + 257;
+  const hdist = r.bits(5) + 1;
+  const hclen = r.bits(4) + 4;
+  const clLengths = new Uint8Array(19);
+  for (let i = 0; i < hclen; i++) clLengths[CODE_LENGTH_ORDER[i]] = r.bits(3);
+  const cl = buildHuffman(clLengths);
+  const lengths: number[] = [];
+  while (lengths.length < hlit + hdist) {
+    const sym = decodeSymbol(r, cl);
+    if (sym < 16) lengths.push(sym);
+    else if (sym === 16) {
+      if (!lengths.length) throw new Error('Invalid code lengths');
+      const prev = lengths[lengths.length - 1];
+      for (let n = 3 + r.bits(2); n > 0; n--) lengths.push(prev);
+    } else if (sym === 17) {
+      for (let n = 3 + r.bits(3); n > 0; n--) lengths.push(0);
+    } else {
+      for (let n = 11 + r.bits(7); n > 0; n--) lengths.push(0);
+    }
+  }
+  return [buildHuffman(lengths.slice(0, hlit)), buildHuffman(lengths.slice(hlit, hlit + hdist))];
+}
+
+export function inflate(data: Uint8Array): Uint8Array {
+  const r = new BitReader(data.subarray(2)); // skip the zlib header
+  const out: number[] = [];
+  let final = 0;
+  while (!final) {
+    final = r.bits(1);
+    const type = r.bits(2);
+    if (type === 0) {
+      r.align();
+      const len = r.data[r.pos] | (r.data[r.pos + 1] << 8);
+      r.pos += 4;
+      for (let i = 0; i < len; i++) out.push(r.data[r.pos++]);
+      continue;
+    }
+    if (type !== 1 && type !== 2) throw new Error('Invalid deflate block');
+    const [lit, dist] = type === 1 ? fixedTables() : dynamicTables(r);
+    for (;;) {
+      let sym = decodeSymbol(r, lit);
+      if (sym < 256) { out.push(sym); continue; }
+      if (sym === 256) break;
+      sym -= 257;
+      const len = LENGTH_BASE[sym] + r.bits(LENGTH_EXTRA[sym]);
+      const d = decodeSymbol(r, dist);
+      const back = DIST_BASE[d] + r.bits(DIST_EXTRA[d]);
+      for (let i = 0; i < len; i++) out.push(out[out.length - back]);
+    }
+  }
+  return Uint8Array.from(out);
+}
+
+// ---- PNG decoding to grayscale (8-bit, non-interlaced gray/RGB/RGBA) ----
+
+function paeth(a: number, b: number, c: number) {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  return pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+}
+
+export type GrayImage = { width: number; height: number; gray: Float32Array };
+
+export function decodeGrayscalePng(bytes: Uint8Array): GrayImage {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (view.getUint32(0) !== 0x89504e47) throw new Error('Not a PNG image');
+  let width = 0;
+  let height = 0;
+  let channels = 0;
+  const idat: Uint8Array[] = [];
+  for (let pos = 8; pos < bytes.length;) {
+    const len = view.getUint32(pos);
+    const type = String.fromCharCode(bytes[pos + 4], bytes[pos + 5], bytes[pos + 6], bytes[pos + 7]);
+    const data = bytes.subarray(pos + 8, pos + 8 + len);
+    if (type === 'IHDR') {
+      width = view.getUint32(pos + 8);
+      height = view.getUint32(pos + 12);
+      const [depth, colorType, , , interlace] = data.subarray(8, 13);
+      channels = ({ 0: 1, 2: 3, 4: 2, 6: 4 } as Record<number, number>)[colorType] ?? 0;
+      if (depth !== 8 || !channels || interlace) throw new Error('Unsupported PNG format');
+    } else if (type === 'IDAT') {
+      idat.push(data);
+    } else if (type === 'IEND') {
+      break;
+    }
+    pos += 12 + len;
+  }
+  const compressed = new Uint8Array(idat.reduce((n, c) => n + c.length, 0));
+  idat.reduce((offset, c) => { compressed.set(c, offset); return offset + c.length; }, 0);
+  const raw = inflate(compressed);
+
+  const stride = width * channels;
+  const pixels = new Uint8Array(stride * height);
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)];
+    const src = y * (stride + 1) + 1;
+    const row = y * stride;
+    for (let x = 0; x < stride; x++) {
+      const left = x >= channels ? pixels[row + x - channels] : 0;
+      const up = y ? pixels[row - stride + x] : 0;
+      const upLeft = y && x >= channels ? pixels[row - stride + x - channels] : 0;
+      const v = raw[src + x];
+      pixels[row + x] = (filter === 1 ? v + left
+        : filter === 2 ? v + up
+        : filter === 3 ? v + ((left + up) >> 1)
+        : filter === 4 ? v + paeth(left, up, upLeft)
+        : v) & 0xff;
+    }
+  }
+
+  const gray = new Float32Array(width * height);
+  for (let i = 0; i < width * height; i++) {
+    const p = i * channels;
+    gray[i] = channels >= 3 ? 0.299 * pixels[p] + 0.587 * pixels[p + 1] + 0.114 * pixels[p + 2] : pixels[p];
+  }
+  return { width, height, gray };
+}
+
+// ---- Hashing ----
+
+/**
+ * 64-bit dHash of a DHASH_SIZE grayscale image as 16 hex chars: each bit tells whether a cell is
+ * brighter than its right neighbour.
+ */
+export function differenceHash({ width, height, gray }: GrayImage): string {
+  if (width !== DHASH_SIZE.width || height !== DHASH_SIZE.height) throw new Error(`Expected a ${DHASH_SIZE.width}x${DHASH_SIZE.height} image`);
+  // Box-average each cell; a direct 9x8 resize aliases on sharp screenshot text
+  const cells = new Float32Array(GRID_W * GRID_H);
+  for (let gy = 0; gy < GRID_H; gy++) {
+    for (let gx = 0; gx < GRID_W; gx++) {
+      let sum = 0;
+      for (let y = 0; y < BLOCK; y++) {
+        for (let x = 0; x < BLOCK; x++) sum += gray[(gy * BLOCK + y) * width + gx * BLOCK + x];
+      }
+      cells[gy * GRID_W + gx] = sum / (BLOCK * BLOCK);
+    }
+  }
+  let hex = '';
+  for (let gy = 0; gy < GRID_H; gy++) {
+    let byte = 0;
+    for (let gx = 0; gx < GRID_W - 1; gx++) {
+      byte = (byte << 1) | (cells[gy * GRID_W + gx] > cells[gy * GRID_W + gx + 1] ? 1 : 0);
+    }
+    hex += byte.toString(16).padStart(2, '0');
+  }
+  return hex;
+}
+
+/**
+ * The hash split into BANDS tagged slices; two hashes within DUPLICATE_DISTANCE bits share at least
+ * one. record_proof_hashes derives the same bands in the database.
+ */
+export function hashBands(hash: string) {
+  const size = hash.length / BANDS;
+  return Array.from({ length: BANDS }, (_, i) => `${i}:${hash.slice(i * size, (i + 1) * size)}`);
+}
+
+/** Number of differing bits between two hashes, as proof_duplicates counts them. */
+export function hashDistance(a: string, b: string) {
+  let bits = 0;
+  for (let i = 0; i < a.length; i += 8) {
+    let x = (parseInt(a.slice(i, i + 8), 16) ^ parseInt(b.slice(i, i + 8), 16)) >>> 0;
+    for (; x; x &= x - 1) bits++;
+  }
+  return bits;
+}
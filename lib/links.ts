@@ -0,0 +1,165 @@
+import 'react-native-url-polyfill/auto';
+import { Linking, Platform } from 'react-native';
+import { router, type Href } from 'expo-router';
+
+/**
+ * One place to turn link strings (slide links, offer store URLs, notification payloads)
+ * into something typed, and to open them. Admin forms validate with the same parser.
+ */
+export const APP_SCHEME = 'earnbyapps';
+
+export type AppRoute =
+  | { name: 'home' }
+  | { name: 'offer'; offerId: string }
+  | { name: 'wallet' }
+  | { name: 'profile' };
+
+export type ResolvedLink =
+  | { kind: 'route'; route: AppRoute; href: Href }
+  | { kind: 'store'; store: 'play' | 'app_store'; appId: string; url: string }
+  | { kind: 'web'; url: string }
+  | { kind: 'invalid'; raw: string; reason: string };
+
+export type LinkContext = 'any' | 'store';
+
+export type LinkError = { code: 'INVALID_LINK' | 'UNSUPPORTED_LINK'; message: string };
+
+// Android package ids: two or more dot-separated identifiers (com.example.app)
+const PACKAGE_ID = /^[A-Za-z][A-Za-z0-9_]*(\.[A-Za-z][A-Za-z0-9_]*)+$/;
+
+function routeHref(route: AppRoute): Href {
+  switch (route.name) {
+    case 'home': return '/(tabs)' as Href;
+    case 'offer': return `/offer/${encodeURIComponent(route.offerId)}` as Href;
+    case 'wallet': return '/(tabs)/wallet' as Href;
+    case 'profile': return '/(tabs)/profile' as Href;
+  }
+}
+
+function parseRoute(path: string): AppRoute | null {
+  const clean = path.split(/[?#]/)[0].replace(/\/+$/, '');
+  // Group segments like "(tabs)" are not part of the public path
+  const parts = clean.split('/').filter((p) => p && !/^\(.*\)$/.test(p));
+  if (parts.length === 0 || (parts.length === 1 && parts[0] === 'home')) return { name: 'home' };
+  if (parts[0] === 'offer' && parts.length === 2) return { name: 'offer', offerId: decodeURIComponent(parts[1]) };
+  if (parts.length === 1 && parts[0] === 'wallet') return { name: 'wallet' };
+  if (parts.length === 1 && parts[0] === 'profile') return { name: 'profile' };
+  return null;
+}
+
+function routeLink(path: string, raw: string): ResolvedLink {
+  const route = parseRoute(path);
+  return route
+    ? { kind: 'route', route, href: routeHref(route) }
+    : { kind: 'invalid', raw, reason: `Unknown in-app route "${path}". Use /offer/<id>, /wallet or /profile.` };
+}
+
+function playLink(appId: string): ResolvedLink {
+  return { kind: 'store', store: 'play', appId, url: `https://play.google.com/store/apps/details?id=${appId}` };
+}
+
+function appStoreLink(appId: string): ResolvedLink {
+  return { kind: 'store', store: 'app_store', appId, url: `https://apps.apple.com/app/id${appId}` };
+}
+
+function parseHttp(raw: string, url: URL): ResolvedLink {
+  const host = url.hostname.toLowerCase();
+  if (host === 'play.google.com') {
+    const id = url.searchParams.get('id');
+    if (url.pathname.startsWith('/store/apps/details') && id && PACKAGE_ID.test(id)) return playLink(id);
+    if (url.pathname.startsWith('/store/apps/details')) return { kind: 'invalid', raw, reason: 'Play Store link is missing a valid ?id= package.' };
+  }
+  if (host === 'apps.apple.com' || host === 'itunes.apple.com') {
+    const m = /\/id(\d+)/.exec(url.pathname);
+    if (m) return appStoreLink(m[1]);
+  }
+  return { kind: 'web', url: url.toString() };
+}
+
+/**
+ * Parse a link string. In the 'store' context (offer store URLs) a bare package id is read
+ * as a Play Store app and in-app routes are rejected.
+ */
+export function resolveLink(input?: string | null, context: LinkContext = 'any'): ResolvedLink {
+  const raw = String(input ?? '').trim();
+  if (!raw) return { kind: 'invalid', raw, reason: 'Link is empty.' };
+  if (/\s/.test(raw)) return { kind: 'invalid', raw, reason: 'Link must not contain spaces.' };
+
+  let resolved: ResolvedLink;
+  if (raw.startsWith('/')) {
+    resolved = routeLink(raw, raw);
+  } else if (raw.toLowerCase().startsWith(`${APP_SCHEME}://`)) {
+    resolved = routeLink(`/${raw.slice(APP_SCHEME.length + 3)}`, raw);
+  } else if (/^market:\/\//i.test(raw)) {
+    const id = /[?&]id=([^&]+)/.exec(raw)?.[1];
+    resolved = id && PACKAGE_ID.test(id) ? playLink(id) : { kind: 'invalid', raw, reason: 'market:// link is missing a valid ?id= package.' };
+  } else if (/^itms-apps:\/\//i.test(raw)) {
+    const id = /\/id(\d+)/.exec(raw)?.[1];
+    resolved = id ? appStoreLink(id) : { kind: 'invalid', raw, reason: 'App Store link is missing the app id.' };
+  } else if (context === 'store' && PACKAGE_ID.test(raw)) {
+    resolved = playLink(raw);
+  } else {
+    // Web URL, with https assumed when the scheme is missing
+    const candidate = /^[a-z][a-z0-9+.-]*:\/\//i.test(raw) ? raw : `https://${raw}`;
+    let url: URL | null = null;
+    try { url = new URL(candidate); } catch {}
+    if (!url || !/^https?:$/.test(url.protocol) || !url.hostname.includes('.')) {
+      resolved = { kind: 'invalid', raw, reason: 'Not a valid web, store or in-app link.' };
+    } else {
+      resolved = parseHttp(raw, url);
+    }
+  }
+
+  if (context === 'store' && resolved.kind === 'route') {
+    return { kind: 'invalid', raw, reason: 'Store links must point to an app store or website, not an in-app screen.' };
+  }
+  return resolved;
+}
+
+/** Error message for an admin form, or null when the link is usable. Empty input is allowed. */
+export function validateLink(input: string | undefined, context: LinkContext = 'any'): string | null {
+  if (!input?.trim()) return null;
+  const link = resolveLink(input, context);
+  return link.kind === 'invalid' ? link.reason : null;
+}
+
+async function openExternal(url: string) {
+  if (!(await Linking.canOpenURL(url).catch(() => false))) {
+    const err: LinkError = { code: 'UNSUPPORTED_LINK', message: 'The link seems invalid or unsupported on your device.' };
+    throw err;
+  }
+  await Linking.openURL(url);
+}
+
+/**
+ * Navigate in-app or hand off to the OS. Store links try the native store app first and fall back
+ * to the web listing. Throws a LinkError when the link cannot be opened.
+ */
+export async function openLink(link: ResolvedLink | string, context: LinkContext = 'any') {
+  const resolved = typeof link === 'string' ? resolveLink(link, context) : link;
+  switch (resolved.kind) {
+    case 'route':
+      router.push(resolved.href);
+      return;
+    case 'store': {
+      const native = resolved.store === 'play'
+        ? (Platform.OS === 'android' ? `market://details?id=${resolved.appId}` : null)
+        : (Platform.OS === 'ios' ? `itms-apps://apps.apple.com/app/id${resolved.appId}` : null);
+      if (native) {
+        try {
+          await openExternal(native);
+          return;
+        } catch {}
+      }
+      await openExternal(resolved.url);
+      return;
+    }
+    case 'web':
+      await openExternal(resolved.url);
+      return;
+    case 'invalid': {
+      const err: LinkError = { code: 'INVALID_LINK', message: resolved.reason };
+      throw err;
+    }
+  }
+}
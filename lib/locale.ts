@@ -0,0 +1,11 @@
+import { OFFER_LOCALES, type OfferLocale } from '@/lib/content';
+
+// Resolve the device language to one of the offer content locales (English fallback)
+export function getDeviceLocale(): OfferLocale {
+  let tag = 'en';
+  try {
+    tag = Intl.DateTimeFormat().resolvedOptions().locale || 'en';
+  } catch {}
+  const lang = tag.toLowerCase().split(/[-_]/)[0];
+  return (OFFER_LOCALES.find((l) => l.id === lang)?.id ?? 'en');
+}
@@ -0,0 +1,151 @@
+import { Platform } from 'react-native';
+import Constants from 'expo-constants';
+import { manipulateAsync, SaveFormat } from 'expo-image-manipulator';
+import { supabase, SUPABASE_ANON_KEY, SUPABASE_URL } from './supabase';
+
+/**
+ * Image uploads (admin banners and icons, user proof screenshots): picked images are resized to
+ * the size they are shown at, get a small thumbnail, and go to Storage. Banners and icons go to the
+ * public `media` bucket and the stored value is the public URL. Proof screenshots carry personal
+ * details, so they go to the private `proofs` bucket under the user's id; the stored value is the
+ * object path, shown through short-lived signed URLs (resolveProofUrls) to the owner and admins.
+ * Development builds without Storage (no SUPABASE_URL, or MEDIA_STORAGE=local in app.json extra or
+ * EXPO_PUBLIC_MEDIA_STORAGE) keep the resized files on the device and store their local URIs, which
+ * only that device can show. Release builds always upload; the local stack (`supabase start`) gets
+ * the same buckets from supabase/migrations.
+ */
+export const MEDIA_BUCKET = 'media';
+export const PROOF_BUCKET = 'proofs';
+
+// Signed proof links stay valid this long; screens resolve them again when they load
+const PROOF_URL_TTL_S = 60 * 60;
+
+export type MediaKind = 'banner' | 'icon' | 'proof';
+
+export type UploadedImage = {
+  url: string;
+  thumbnailUrl: string;
+};
+
+export type MediaError = { code: 'RESIZE_FAILED' | 'UPLOAD_FAILED'; message: string };
+
+// Banners show edge to edge in the 16:9 carousel; icons at up to 64pt on 3x screens;
+// proof screenshots only need to stay readable for reviewers
+const SIZES: Record<MediaKind, { width: number; thumbWidth: number; compress: number }> = {
+  banner: { width: 1200, thumbWidth: 400, compress: 0.8 },
+  icon: { width: 256, thumbWidth: 96, compress: 0.85 },
+  proof: { width: 1080, thumbWidth: 240, compress: 0.7 },
+};
+
+const extra = Constants.expoConfig?.extra as any | undefined;
+const useLocalFiles = __DEV__ && (!SUPABASE_URL || (extra?.MEDIA_STORAGE || process.env.EXPO_PUBLIC_MEDIA_STORAGE || '') === 'local');
+
+type Rendition = { uri: string };
+
+async function resize(uri: string, width: number, compress: number): Promise<Rendition> {
+  try {
+    const result = await manipulateAsync(uri, [{ resize: { width } }], { compress, format: SaveFormat.JPEG });
+    return { uri: result.uri };
+  } catch (e: any) {
+    const err: MediaError = { code: 'RESIZE_FAILED', message: e?.message || 'Could not process the image.' };
+    throw err;
+  }
+}
+
+// Every upload gets its own folder, so a replaced image never serves a cached old copy.
+// Proofs sit under the uploader's id, which the `proofs` bucket policies check.
+function objectFolder(kind: MediaKind, userId: string | undefined) {
+  const unique = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+  if (kind !== 'proof') return `${kind}s/${unique}`;
+  if (!userId) {
+    const err: MediaError = { code: 'UPLOAD_FAILED', message: 'Sign in to upload proof.' };
+    throw err;
+  }
+  return `${userId}/${unique}`;
+}
+
+// supabase-js does not report upload progress, so the upload goes through XHR against the Storage API
+async function putObject(bucket: string, path: string, token: string, file: Rendition, onProgress: (fraction: number) => void) {
+  const body = new FormData();
+  body.append('cacheControl', '31536000');
+  if (Platform.OS === 'web') {
+    body.append('', await (await fetch(file.uri)).blob());
+  } else {
+    // React Native streams the file from disk when given a { uri, name, type } part
+    body.append('', { uri: file.uri, name: path.split('/').pop(), type: 'image/jpeg' } as any);
+  }
+  await new Promise<void>((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open('POST', `${SUPABASE_URL}/storage/v1/object/${bucket}/${path}`);
+    xhr.setRequestHeader('apikey', SUPABASE_ANON_KEY);
+    xhr.setRequestHeader('Authorization', `Bearer ${token}`);
+    xhr.upload.onprogress = (e) => {
+      if (e.lengthComputable && e.total > 0) onProgress(e.loaded / e.total);
+    };
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) { resolve(); return; }
+      let message = `Upload failed (${xhr.status})`;
+      try { message = JSON.parse(xhr.responseText)?.message || message; } catch {}
+      const err: MediaError = { code: 'UPLOAD_FAILED', message };
+      reject(err);
+    };
+    xhr.onerror = () => {
+      const err: MediaError = { code: 'UPLOAD_FAILED', message: 'Network error while uploading.' };
+      reject(err);
+    };
+    xhr.send(body);
+  });
+}
+
+/**
+ * Resize a picked image for `kind`, upload it and its thumbnail, and return their public URLs
+ * (object paths in the proof bucket for proofs; local file URIs in development builds without
+ * Storage). `onProgress` receives 0..1 across both uploads. Throws a MediaError.
+ */
+export async function uploadImage(uri: string, kind: MediaKind, onProgress: (fraction: number) => void = () => {}): Promise<UploadedImage> {
+  if (!SUPABASE_URL && !useLocalFiles) {
+    const err: MediaError = { code: 'UPLOAD_FAILED', message: 'Image uploads need Supabase Storage. Set SUPABASE_URL.' };
+    throw err;
+  }
+  const size = SIZES[kind];
+  onProgress(0);
+  const full = await resize(uri, size.width, size.compress);
+  const thumb = await resize(full.uri, size.thumbWidth, size.compress);
+  if (useLocalFiles) {
+    onProgress(1);
+    return { url: full.uri, thumbnailUrl: thumb.uri };
+  }
+
+  const { data } = await supabase.auth.getSession();
+  const token = data.session?.access_token ?? SUPABASE_ANON_KEY;
+  const bucket = kind === 'proof' ? PROOF_BUCKET : MEDIA_BUCKET;
+  const folder = objectFolder(kind, data.session?.user.id);
+  const stored = (path: string) => (kind === 'proof' ? path : supabase.storage.from(bucket).getPublicUrl(path).data.publicUrl);
+  // The thumbnail is a small fraction of the bytes, so it gets a matching share of the bar
+  await putObject(bucket, `${folder}/full.jpg`, token, full, (f) => onProgress(f * 0.85));
+  await putObject(bucket, `${folder}/thumb.jpg`, token, thumb, (f) => onProgress(0.85 + f * 0.15));
+  onProgress(1);
+  return { url: stored(`${folder}/full.jpg`), thumbnailUrl: stored(`${folder}/thumb.jpg`) };
+}
+
+// Proofs stored before the private bucket (public URLs), inline data: URIs and development builds'
+// local files are shown as they are
+function isDirectUrl(ref: string) {
+  return /^(https?:|data:|file:|blob:)/i.test(ref);
+}
+
+/**
+ * Viewable URLs for stored proof references, in order: signed URLs for objects in the private
+ * proof bucket, which Storage only issues to the uploader and admins. Unresolvable references
+ * come back as null.
+ */
+export async function resolveProofUrls(refs: string[]): Promise<(string | null)[]> {
+  const paths = refs.filter((r) => !isDirectUrl(r));
+  const signed = new Map<string, string>();
+  if (paths.length) {
+    const { data, error } = await supabase.storage.from(PROOF_BUCKET).createSignedUrls(paths, PROOF_URL_TTL_S);
+    if (error) throw error;
+    for (const d of data ?? []) if (d.path && d.signedUrl) signed.set(d.path, d.signedUrl);
+  }
+  return refs.map((r) => (isDirectUrl(r) ? r : signed.get(r) ?? null));
+}
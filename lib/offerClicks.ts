@@ -0,0 +1,96 @@
+import { Platform } from 'react-native';
+import { supabase } from './supabase';
+import { getClientContext } from './targeting';
+import { getDeviceId, randomHex } from './device';
+import { createEventBatcher } from './eventBatcher';
+
+// Offer CTA clicks: every tap on "Install App" is queued locally and written to `offer_clicks` in
+// batches, whether or not it starts a transaction
+export type OfferClickOutcome =
+  | 'opened' // the store or tracking link was opened
+  | 'blocked' // the offer could not be started (unavailable, full, not eligible, no valid link)
+  | 'open_failed' // the device could not open the link
+  | 'sign_in'; // signed-out user sent to sign in
+
+// user_id is added when the batch is sent
+type OfferClickRow = {
+  offer_id: string;
+  device_id: string;
+  session_id: string;
+  platform: string;
+  os_version: string;
+  app_version: string;
+  store_url: string | null; // the link actually opened (tracking link when the offer has one)
+  click_id: string | null; // the transaction's click id sent along a tracking link
+  outcome: OfferClickOutcome;
+  created_at: string;
+};
+
+export type OfferClickStats = {
+  clicks: number;
+  clickers: number; // distinct users, or devices for signed-out taps
+  conversions: number; // distinct clickers with an approved or paid transaction for the offer
+  conversionRate: number; // conversions / clickers, 0 without clickers
+};
+
+// A session ends after this long in the background
+const SESSION_IDLE_MS = 30 * 60 * 1000;
+let sessionId = randomHex(8);
+let backgroundedAt: number | null = null;
+
+const clicks = createEventBatcher<OfferClickRow>('offer_clicks', {
+  onAppStateChange(state) {
+    if (state !== 'active') {
+      backgroundedAt ??= Date.now();
+      return;
+    }
+    if (backgroundedAt && Date.now() - backgroundedAt > SESSION_IDLE_MS) sessionId = randomHex(8);
+    backgroundedAt = null;
+  },
+});
+
+export function trackOfferClick(input: {
+  offerId: string;
+  storeUrl?: string | null;
+  clickId?: string | null;
+  outcome: OfferClickOutcome;
+}) {
+  const { platform, appVersion } = getClientContext();
+  const createdAt = new Date().toISOString();
+  const session = sessionId;
+  getDeviceId().then((deviceId) => {
+    clicks.enqueue({
+      offer_id: input.offerId,
+      device_id: deviceId,
+      session_id: session,
+      platform,
+      os_version: String(Platform.Version ?? ''),
+      app_version: appVersion,
+      store_url: input.storeUrl ?? null,
+      click_id: input.clickId ?? null,
+      outcome: input.outcome,
+      created_at: createdAt,
+    });
+  });
+}
+
+export function flushOfferClicks() {
+  return clicks.flush();
+}
+
+/**
+ * Clicks, unique clickers and click-to-conversion rate per offer for clicks in [from, to), counted by
+ * the database (offer_click_stats). A clicker converts when they have an approved or paid transaction
+ * for the offer started in the same range.
+ */
+export async function fetchOfferClickStats(range: { from?: string; to?: string } = {}): Promise<Record<string, OfferClickStats>> {
+  const { data, error } = await supabase.rpc('offer_click_stats', { from_ts: range.from ?? null, to_ts: range.to ?? null });
+  if (error) throw error;
+  const stats: Record<string, OfferClickStats> = {};
+  for (const r of (data as any[] | null) ?? []) {
+    const clickers = Number(r.clickers) || 0;
+    const conversions = Number(r.conversions) || 0;
+    stats[r.offer_id] = { clicks: Number(r.clicks) || 0, clickers, conversions, conversionRate: clickers ? conversions / clickers : 0 };
+  }
+  return stats;
+}
@@ -0,0 +1,296 @@
+import { createOffer, normalizeSteps, patchOffer, STEP_VERIFICATIONS, type OfferItem, type OfferStep } from '@/lib/content';
+import { validateLink } from '@/lib/links';
+
+// Bulk import/export of the offer catalog. Both formats share the same columns;
+// in CSV, steps are separated by "|" and written as "[<id>] <text>=<reward>@<verification>", where
+// only the text is required (a step with a reward is a paid milestone), a backslash escapes a literal
+// \, |, =, @, [ or ] in the text, and booleans are true/false (or yes/no, 1/0). JSON steps are step
+// objects, or plain strings taken as the step text as-is.
+export const IMPORT_COLUMNS = ['id', 'title', 'amount', 'storeUrl', 'steps', 'label', 'active', 'requiresProof'] as const;
+
+export type ImportFormat = 'csv' | 'json';
+
+type ImportedFields = Pick<OfferItem, 'title' | 'amount' | 'storeUrl' | 'steps' | 'label' | 'active' | 'requiresProof'>;
+
+export type ImportRow = {
+  line: number; // 1-based data row (CSV header excluded)
+  id?: string;
+  input?: ImportedFields;
+  errors: string[];
+  action?: 'create' | 'update';
+  targetId?: string; // existing offer id for updates
+};
+
+export type ImportPlan = {
+  rows: ImportRow[];
+  creates: number;
+  updates: number;
+  errors: number;
+};
+
+export function detectFormat(text: string): ImportFormat {
+  const t = text.trim();
+  return t.startsWith('[') || t.startsWith('{') ? 'json' : 'csv';
+}
+
+/** Minimal RFC 4180 parser: quoted fields, escaped quotes ("") and newlines inside quotes. */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (inQuotes) {
+      if (c === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (c === '"') inQuotes = false;
+      else field += c;
+    } else if (c === '"') {
+      inQuotes = true;
+    } else if (c === ',') {
+      row.push(field); field = '';
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && text[i + 1] === '\n') i++;
+      row.push(field); field = '';
+      if (row.some((v) => v.trim() !== '')) rows.push(row);
+      row = [];
+    } else {
+      field += c;
+    }
+  }
+  row.push(field);
+  if (row.some((v) => v.trim() !== '')) rows.push(row);
+  return rows;
+}
+
+function csvEscape(v: string) {
+  return /[",\n\r]/.test(v) ? `"${v.replace(/"/g, '""')}"` : v;
+}
+
+function parseBool(v: unknown, field: string, errors: string[]): boolean | undefined {
+  if (v === undefined || v === null || v === '') return undefined;
+  if (typeof v === 'boolean') return v;
+  const t = String(v).trim().toLowerCase();
+  if (['true', 'yes', '1'].includes(t)) return true;
+  if (['false', 'no', '0'].includes(t)) return false;
+  errors.push(`${field} must be true or false`);
+  return undefined;
+}
+
+// Validate one raw record against the OfferItem shape
+function validateRecord(raw: Record<string, unknown>, line: number): ImportRow {
+  const errors: string[] = [];
+  const str = (k: string) => (raw[k] === undefined || raw[k] === null ? '' : String(raw[k]).trim());
+
+  const title = str('title');
+  if (!title) errors.push('title is required');
+
+  const amountText = str('amount');
+  const amount = Number(amountText);
+  if (!amountText) errors.push('amount is required');
+  else if (!Number.isFinite(amount) || amount <= 0) errors.push(`amount "${amountText}" must be a positive number`);
+
+  const storeUrl = str('storeUrl') || undefined;
+  const linkError = validateLink(storeUrl, 'store');
+  if (linkError) errors.push(`storeUrl: ${linkError}`);
+
+  let steps: OfferStep[] | undefined;
+  const rawSteps = raw.steps;
+  if (Array.isArray(rawSteps)) {
+    if (!rawSteps.every((s) => typeof s === 'string' || (s && typeof s === 'object' && typeof s.text === 'string'))) {
+      errors.push('steps must be a list of text or { text, reward, verification } objects');
+    } else {
+      steps = normalizeSteps(rawSteps)
+        .map((s) => ({ ...s, text: s.text.trim() }))
+        .filter((s) => s.text);
+    }
+  } else if (rawSteps !== undefined && rawSteps !== null && rawSteps !== '') {
+    steps = normalizeSteps(parseStepsCell(String(rawSteps))).filter((s) => s.text);
+  }
+  const badVerification = steps?.find((s) => s.verification && !STEP_VERIFICATIONS.some((v) => v.id === s.verification));
+  if (badVerification) errors.push(`step "${badVerification.text}": unknown verification "${badVerification.verification}"`);
+
+  const active = parseBool(raw.active, 'active', errors);
+  const requiresProof = parseBool(raw.requiresProof, 'requiresProof', errors);
+
+  const unknown = Object.keys(raw).filter((k) => !(IMPORT_COLUMNS as readonly string[]).includes(k));
+  if (unknown.length) errors.push(`unknown column(s): ${unknown.join(', ')}`);
+
+  return {
+    line,
+    id: str('id') || undefined,
+    errors,
+    input: errors.length ? undefined : {
+      title,
+      amount,
+      storeUrl,
+      steps: steps?.length ? steps : undefined,
+      label: str('label') || undefined,
+      active,
+      requiresProof,
+    },
+  };
+}
+
+// Escaped characters are swapped for private-use code points while a cell is split and parsed, so
+// they never act as separators
+const STEP_SPECIAL = /[\\|=@[\]]/g;
+const ESCAPE_BASE = 0xe000;
+
+function hideEscapes(text: string) {
+  return text.replace(/\\([\\|=@[\]])/g, (_, c: string) => String.fromCharCode(ESCAPE_BASE + c.charCodeAt(0)));
+}
+
+function restoreEscapes(text: string) {
+  return text.replace(/[\ue000-\ue07f]/g, (c) => String.fromCharCode(c.charCodeAt(0) - ESCAPE_BASE));
+}
+
+function escapeStepText(text: string) {
+  return text.replace(STEP_SPECIAL, '\\$&');
+}
+
+function parseStepsCell(cell: string): Partial<OfferStep>[] {
+  return hideEscapes(cell).split('|').map(parseStepText);
+}
+
+// "[s2] Reach level 10 = 5 @proof" -> milestone s2 paying ₹5, verified by screenshot proof;
+// "Reach level 10 = 5" alone gets its id from its position
+function parseStepText(text: string): Partial<OfferStep> {
+  const m = /^(?:\[([^\]]+)\]\s*)?(.*?)(?:\s*=\s*(\d+(?:\.\d+)?))?(?:\s*@([a-z_]+))?$/.exec(text.trim());
+  if (!m) return { text: restoreEscapes(text.trim()) };
+  return {
+    id: m[1]?.trim() ? restoreEscapes(m[1].trim()) : undefined,
+    text: restoreEscapes(m[2]),
+    reward: m[3] ? Number(m[3]) : undefined,
+    verification: m[4] as OfferStep['verification'],
+  };
+}
+
+function formatStepText(step: OfferStep) {
+  return `[${escapeStepText(step.id)}] ${escapeStepText(step.text)}${step.reward ? `=${step.reward}` : ''}${step.verification ? `@${step.verification}` : ''}`;
+}
+
+// Steps compared by what milestones and progress depend on
+function sameSteps(a: OfferStep[] | undefined, b: OfferStep[] | undefined) {
+  const key = (steps: OfferStep[] | undefined) => JSON.stringify(normalizeSteps(steps ?? []));
+  return key(a) === key(b);
+}
+
+/** Parse CSV or JSON text into validated rows. Structural problems are returned as a single errored row. */
+export function parseImport(text: string, format: ImportFormat = detectFormat(text)): ImportRow[] {
+  if (format === 'json') {
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch (e: any) {
+      return [{ line: 0, errors: [`Invalid JSON: ${e?.message || e}`] }];
+    }
+    const list = Array.isArray(data) ? data : [data];
+    return list.map((item, i) => (
+      item && typeof item === 'object' && !Array.isArray(item)
+        ? validateRecord(item as Record<string, unknown>, i + 1)
+        : { line: i + 1, errors: ['row must be an object'] }
+    ));
+  }
+
+  const table = parseCsv(text);
+  if (!table.length) return [{ line: 0, errors: ['File is empty'] }];
+  const header = table[0].map((h) => h.trim());
+  if (!header.includes('title') || !header.includes('amount')) {
+    return [{ line: 0, errors: ['Header row must include at least title and amount'] }];
+  }
+  return table.slice(1).map((cells, i) => {
+    const raw: Record<string, unknown> = {};
+    header.forEach((h, idx) => { if (h) raw[h] = cells[idx] ?? ''; });
+    const row = validateRecord(raw, i + 1);
+    if (cells.length > header.length) row.errors.push(`has ${cells.length} cells but header has ${header.length}`);
+    if (row.errors.length) row.input = undefined;
+    return row;
+  });
+}
+
+/**
+ * Dry run: match each valid row to an existing offer (by id, then by store link) to decide
+ * between update and create. Nothing is written.
+ */
+export function planImport(rows: ImportRow[], existing: OfferItem[]): ImportPlan {
+  const byId = new Map(existing.map((o) => [o.id, o]));
+  const byStore = new Map(existing.filter((o) => o.storeUrl).map((o) => [o.storeUrl as string, o]));
+  const seen = new Set<string>();
+  let creates = 0;
+  let updates = 0;
+  let errors = 0;
+  const planned = rows.map((r) => {
+    const row = { ...r, errors: [...r.errors] };
+    if (!row.errors.length && row.input) {
+      const match = (row.id && byId.get(row.id)) || (row.input.storeUrl && byStore.get(row.input.storeUrl)) || undefined;
+      const key = match?.id ?? row.id;
+      if (key && seen.has(key)) row.errors.push('duplicates an earlier row');
+      else if (row.id && !match) row.errors.push(`no offer with id "${row.id}"`);
+      if (key) seen.add(key);
+      if (!row.errors.length) {
+        row.action = match ? 'update' : 'create';
+        row.targetId = match?.id;
+        // Rewriting identical steps would still replace the column; leave them alone
+        if (match && row.input.steps && sameSteps(row.input.steps, match.steps)) row.input = { ...row.input, steps: undefined };
+      }
+    }
+    if (row.errors.length) { row.input = undefined; errors++; }
+    else if (row.action === 'update') updates++;
+    else creates++;
+    return row;
+  });
+  return { rows: planned, creates, updates, errors };
+}
+
+/**
+ * Apply a plan that has no errors. Created offers start as drafts (see addOffer).
+ * Resolves the rows that could not be written, each with the database error.
+ */
+export async function applyImport(plan: ImportPlan): Promise<ImportRow[]> {
+  if (plan.errors) throw new Error('Fix the errored rows before applying the import');
+  const results = await Promise.all(plan.rows.map(async (row): Promise<ImportRow | null> => {
+    if (!row.input) return null;
+    try {
+      if (row.action === 'update' && row.targetId) {
+        // Only overwrite columns the file actually provided
+        const patch = Object.fromEntries(Object.entries(row.input).filter(([, v]) => v !== undefined)) as Partial<OfferItem>;
+        await patchOffer(row.targetId, patch);
+      } else {
+        await createOffer(row.input);
+      }
+      return null;
+    } catch (e: any) {
+      return { ...row, errors: [`${row.action === 'update' ? 'update' : 'insert'} failed: ${e?.message || e}`] };
+    }
+  }));
+  return results.filter((r): r is ImportRow => !!r);
+}
+
+export function exportOffers(offers: OfferItem[], format: ImportFormat): string {
+  const records = offers.map((o) => ({
+    id: o.id,
+    title: o.title,
+    amount: o.amount,
+    storeUrl: o.storeUrl ?? '',
+    steps: o.steps ?? [],
+    label: o.label ?? '',
+    active: o.active !== false,
+    requiresProof: !!o.requiresProof,
+  }));
+  if (format === 'json') return JSON.stringify(records, null, 2);
+  const lines = [IMPORT_COLUMNS.join(',')];
+  for (const r of records) {
+    lines.push([
+      r.id,
+      r.title,
+      String(r.amount),
+      r.storeUrl,
+      r.steps.map(formatStepText).join('|'),
+      r.label,
+      String(r.active),
+      String(r.requiresProof),
+    ].map(csvEscape).join(','));
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,92 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+/**
+ * Last known rows of the live lists (slides, offers, the user's transactions), persisted on device.
+ * The app hydrates it once at startup so the synchronous get* functions can serve it, and lists
+ * revalidate in the background. A key counts as stale until it has been refreshed this session.
+ * Per-user lists are dropped when the user signs out.
+ */
+const PREFIX = 'cache:v1:';
+
+type Row = Record<string, any>;
+type Entry = { rows: Row[]; updatedAt: number };
+
+const memory = new Map<string, Entry>();
+const fresh = new Set<string>();
+const listeners = new Set<() => void>();
+let hydration: Promise<void> | null = null;
+
+function notify() {
+  listeners.forEach((l) => l());
+}
+
+export function hydrateOfflineCache() {
+  hydration ||= (async () => {
+    try {
+      const keys = (await AsyncStorage.getAllKeys()).filter((k) => k.startsWith(PREFIX));
+      const pairs = await AsyncStorage.multiGet(keys);
+      for (const [k, v] of pairs) {
+        if (!v) continue;
+        try {
+          const entry = JSON.parse(v) as Entry;
+          // Never let a stale disk copy replace rows already refreshed this session
+          if (Array.isArray(entry?.rows) && !memory.has(k.slice(PREFIX.length))) memory.set(k.slice(PREFIX.length), entry);
+        } catch {}
+      }
+    } catch (e: any) {
+      console.warn('[cache] hydrate error', e?.message || e);
+    }
+    notify();
+  })();
+  return hydration;
+}
+
+export function readCachedRows(key: string): Row[] | null {
+  return memory.get(key)?.rows ?? null;
+}
+
+export function writeCachedRows(key: string, rows: Row[]) {
+  const entry: Entry = { rows, updatedAt: Date.now() };
+  memory.set(key, entry);
+  fresh.add(key);
+  notify();
+  AsyncStorage.setItem(PREFIX + key, JSON.stringify(entry)).catch((e: any) => {
+    console.warn('[cache] write error', e?.message || e);
+  });
+}
+
+// Per-user lists are cached under keys containing ":user:<id>"
+const USER_KEY = /:user:/;
+
+/** Forget every per-user list, in memory and on disk, so the next account on the device never sees them. */
+export async function clearUserCachedRows() {
+  for (const k of Array.from(memory.keys())) {
+    if (!USER_KEY.test(k)) continue;
+    memory.delete(k);
+    fresh.delete(k);
+  }
+  notify();
+  try {
+    const keys = (await AsyncStorage.getAllKeys()).filter((k) => k.startsWith(PREFIX) && USER_KEY.test(k.slice(PREFIX.length)));
+    if (keys.length) await AsyncStorage.multiRemove(keys);
+  } catch (e: any) {
+    console.warn('[cache] clear error', e?.message || e);
+  }
+}
+
+export type CacheStatus = {
+  stale: boolean; // some key is being served from disk and has not been revalidated yet
+  updatedAt: number | null; // oldest save time among the stale keys
+};
+
+export function getCacheStatus(keys: string[]): CacheStatus {
+  const staleTimes = keys
+    .filter((k) => !fresh.has(k) && memory.has(k))
+    .map((k) => memory.get(k)!.updatedAt);
+  return staleTimes.length ? { stale: true, updatedAt: Math.min(...staleTimes) } : { stale: false, updatedAt: null };
+}
+
+export function subscribeCacheStatus(cb: () => void) {
+  listeners.add(cb);
+  return () => { listeners.delete(cb); };
+}
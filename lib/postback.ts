@@ -0,0 +1,165 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getAttributionAdapter, resolveConversionTarget, type ConversionEvent, type OfferAttribution, type PostbackRequest } from './attribution.ts';
+import { COMPLETED_STATUSES, OPEN_STATUSES, canTransition, normalizeStatus } from './transactionLifecycle.ts';
+
+/**
+ * Server-to-server conversion postbacks. Starting an offer gives the transaction a click id that
+ * is sent along the advertiser's tracking link; when the attribution network calls back with that
+ * click id, the network's adapter (lib/attribution) verifies and normalizes the call, and the
+ * event the offer counts settles the matching transaction without manual review.
+ * The `postback` edge function runs this with a service-role client, for networks and for the admin
+ * simulator (lib/postbackSimulation), so it must not import app modules or '@/' paths.
+ */
+export type PostbackError = {
+  code: 'UNKNOWN_NETWORK' | 'UNAUTHORIZED' | 'MISSING_CLICK_ID' | 'UNKNOWN_CLICK' | 'ALREADY_SETTLED' | 'CAMPAIGN_FULL';
+  message: string;
+};
+
+// ignored: a valid postback for an event the offer does not count; acknowledged so networks stop retrying.
+// submitted: a conversion reported after a rejection, sent back to review
+export type PostbackResult =
+  | { ok: true; event: ConversionEvent; transactionId: string | null; status: 'approved' | 'submitted' | 'rejected' | 'reversed' | 'ignored'; duplicate: boolean }
+  | ({ ok: false } & PostbackError);
+
+// Refusals are final, so none is a 5xx: networks retry 5xx answers, which is meant for outages only
+export const POSTBACK_HTTP_STATUS: Record<PostbackError['code'], number> = {
+  UNKNOWN_NETWORK: 404,
+  UNAUTHORIZED: 401,
+  MISSING_CLICK_ID: 400,
+  UNKNOWN_CLICK: 404,
+  ALREADY_SETTLED: 409,
+  CAMPAIGN_FULL: 409,
+};
+
+const TX_COLUMNS = 'id,user_id,offer_id,step_id,status';
+
+function fail(code: PostbackError['code'], message: string): PostbackResult {
+  return { ok: false, code, message };
+}
+
+// The caps trigger refuses a conversion past the offer's caps with hint CAMPAIGN_FULL
+function toCampaignFull(error: any): PostbackError | null {
+  return error?.hint === 'CAMPAIGN_FULL' ? { code: 'CAMPAIGN_FULL', message: error.message } : null;
+}
+
+/**
+ * The transaction for a milestone other than the clicked one: its latest row, or a new one when
+ * the network reports a milestone the user has not claimed in the app. Throws a PostbackError
+ * (CAMPAIGN_FULL) when the milestone's reward no longer fits the offer's budget.
+ */
+async function findOrCreateMilestoneTransaction(client: SupabaseClient, clicked: any, stepId: string, steps: any[] | null) {
+  const { data, error } = await client
+    .from('transactions')
+    .select(TX_COLUMNS)
+    .eq('user_id', clicked.user_id)
+    .eq('offer_id', clicked.offer_id)
+    .eq('step_id', stepId)
+    .order('created_at', { ascending: false })
+    .limit(1);
+  if (error) throw error;
+  const existing = (data as any[] | null)?.[0];
+  if (existing) return existing;
+
+  const step = (steps ?? []).find((s) => s && typeof s === 'object' && s.id === stepId);
+  const { data: inserted, error: insertErr } = await client
+    .from('transactions')
+    .insert({
+      user_id: clicked.user_id,
+      offer_id: clicked.offer_id,
+      step_id: stepId,
+      offer_title: clicked.offer_title ?? null,
+      step_title: step?.text ?? null,
+      offer_icon_url: clicked.offer_icon_url ?? null,
+      amount: Number(step?.reward) > 0 ? Number(step.reward) : null,
+      status: 'started',
+    })
+    .select(TX_COLUMNS)
+    .limit(1);
+  if (insertErr) throw toCampaignFull(insertErr) ?? insertErr;
+  return (inserted as any[] | null)?.[0] ?? null;
+}
+
+/**
+ * Verifies a postback from `network` and settles the transaction its event counts for: approved on
+ * a conversion, rejected when the network refused it, or reversed when it refuses a conversion
+ * already approved or paid. A conversion for a rejected transaction reopens it for a reviewer
+ * instead of overriding the rejection. Networks retry postbacks, so repeating a call is a success.
+ */
+export async function processPostback(client: SupabaseClient, network: string, req: PostbackRequest, secret: string): Promise<PostbackResult> {
+  const adapter = getAttributionAdapter(network);
+  if (!adapter) return fail('UNKNOWN_NETWORK', `No postback adapter for "${network}".`);
+  if (!secret || !(await adapter.verify(req, secret))) return fail('UNAUTHORIZED', 'Invalid postback signature or secret.');
+  const event = adapter.parse(req);
+  if (!event.clickId) return fail('MISSING_CLICK_ID', 'The postback carries no click id.');
+
+  const { data, error } = await client
+    .from('transactions')
+    .select(`${TX_COLUMNS},offer_title,offer_icon_url`)
+    .eq('click_id', event.clickId)
+    .limit(1);
+  if (error) throw error;
+  const clicked = (data as any[] | null)?.[0];
+  if (!clicked) return fail('UNKNOWN_CLICK', `No transaction for click ${event.clickId}.`);
+
+  let attribution: OfferAttribution | null = null;
+  let steps: any[] | null = null;
+  if (clicked.offer_id) {
+    const { data: offers, error: offerErr } = await client.from('offers').select('attribution,steps').eq('id', clicked.offer_id).limit(1);
+    if (offerErr) throw offerErr;
+    attribution = (offers as any[] | null)?.[0]?.attribution ?? null;
+    steps = (offers as any[] | null)?.[0]?.steps ?? null;
+  }
+  const target = resolveConversionTarget(attribution, event);
+  if (!target) return { ok: true, event, transactionId: null, status: 'ignored', duplicate: false };
+
+  let tx = clicked;
+  if (target.stepId && target.stepId !== clicked.step_id) {
+    try {
+      tx = await findOrCreateMilestoneTransaction(client, clicked, target.stepId, steps);
+    } catch (e: any) {
+      if (e?.code === 'CAMPAIGN_FULL') return fail('CAMPAIGN_FULL', e.message);
+      throw e;
+    }
+  }
+  if (!tx) return fail('UNKNOWN_CLICK', 'The milestone transaction could not be created.');
+
+  // Open conversions are approved or rejected, confirmed ones can only be reversed, and rejected
+  // ones go back to review
+  const current = normalizeStatus(tx.status);
+  const confirmed = COMPLETED_STATUSES.includes(current);
+  if (event.status === 'converted' && confirmed) return { ok: true, event, transactionId: tx.id, status: 'approved', duplicate: true };
+  if (event.status === 'rejected' && (tx.status === 'rejected' || tx.status === 'reversed')) {
+    return { ok: true, event, transactionId: tx.id, status: tx.status, duplicate: true };
+  }
+  const open = OPEN_STATUSES.includes(current);
+  const reopen = event.status === 'converted' && !open && canTransition(current, 'submitted');
+  const status = reopen ? 'submitted' : event.status === 'converted' ? 'approved' : confirmed ? 'reversed' : 'rejected';
+  if (!confirmed && !open && !reopen) return fail('ALREADY_SETTLED', `Transaction is already ${tx.status}.`);
+
+  const verb = { approved: 'Confirmed', submitted: 'Reopened', reversed: 'Reversed', rejected: 'Rejected' }[status];
+  const { data: updated, error: updateErr } = await client
+    .from('transactions')
+    .update({
+      status,
+      notes: `${verb} by ${adapter.label} postback (${event.eventName})`,
+      reviewed_by: null,
+      reviewed_at: reopen ? null : new Date().toISOString(),
+    })
+    .eq('id', tx.id)
+    .eq('status', tx.status)
+    .select('id');
+  const full = toCampaignFull(updateErr);
+  if (full) return fail(full.code, full.message);
+  if (updateErr) throw updateErr;
+  // Settled by someone else between the read and the update
+  if (!(updated as any[] | null)?.length) return fail('ALREADY_SETTLED', 'Transaction was settled meanwhile.');
+
+  // An approved milestone checks its step off for the user, as an admin approval does
+  if (status === 'approved' && tx.offer_id && tx.step_id) {
+    const { error: stepErr } = await client
+      .from('step_progress')
+      .upsert({ user_id: tx.user_id, offer_id: tx.offer_id, step_id: tx.step_id, source: 'verified' }, { onConflict: 'user_id,offer_id,step_id' });
+    if (stepErr) console.warn('[postback] step verify error', stepErr.message);
+  }
+  return { ok: true, event, transactionId: tx.id, status, duplicate: false };
+}
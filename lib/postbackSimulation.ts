@@ -0,0 +1,64 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getAttributionAdapter, signHex, type AttributionNetwork, type OfferAttribution, type PostbackRequest } from './attribution.ts';
+import { processPostback, type PostbackResult } from './postback.ts';
+
+/**
+ * Admin stand-in for the advertiser's conversion call, run by the `postback` edge function
+ * (POST /postback/simulate) so the network secrets never leave the server. Like lib/postback it
+ * must not import app modules or '@/' paths.
+ */
+
+function get(query: Record<string, string>): PostbackRequest {
+  return { query, body: '', headers: {} };
+}
+
+/** A correctly signed postback for `eventName` in the network's own format, for simulating conversions. */
+export async function buildSamplePostback(network: AttributionNetwork, input: { clickId: string; eventName: string; secret: string }): Promise<PostbackRequest> {
+  const { clickId, eventName, secret } = input;
+  switch (network) {
+    case 'appsflyer': {
+      const eventTime = new Date().toISOString().replace('T', ' ').replace('Z', '');
+      return get({ clickid: clickId, event_name: eventName, event_time: eventTime, signature: await signHex(secret, `${clickId}${eventName}${eventTime}`) });
+    }
+    case 'adjust':
+      return get(eventName === 'install'
+        ? { click_id: clickId, activity_kind: 'install', created_at: String(Math.floor(Date.now() / 1000)), token: secret }
+        : { click_id: clickId, activity_kind: 'event', event_name: eventName, created_at: String(Math.floor(Date.now() / 1000)), token: secret });
+    case 'branch': {
+      const body = JSON.stringify({ name: eventName.toUpperCase(), timestamp: Date.now(), last_attributed_touch_data: { '~click_id': clickId } });
+      return { query: {}, body, headers: { 'content-type': 'application/json', 'x-branch-signature': await signHex(secret, body) } };
+    }
+    default:
+      return get({ click_id: clickId, event: eventName, secret });
+  }
+}
+
+/**
+ * Plays the attribution network's call for `clickId` in the offer's network format, with the event
+ * that completes the transaction's milestone (or the offer), and processes it as a real postback.
+ */
+export async function simulatePostback(
+  client: SupabaseClient,
+  clickId: string,
+  secretFor: (network: string) => string,
+): Promise<PostbackResult> {
+  const { data, error } = await client.from('transactions').select('offer_id,step_id').eq('click_id', clickId).limit(1);
+  if (error) throw error;
+  const tx = (data as any[] | null)?.[0];
+  if (!tx) return { ok: false, code: 'UNKNOWN_CLICK', message: `No transaction for click ${clickId}.` };
+
+  let attribution: OfferAttribution | null = null;
+  if (tx.offer_id) {
+    const { data: offers, error: offerErr } = await client.from('offers').select('attribution').eq('id', tx.offer_id).limit(1);
+    if (offerErr) throw offerErr;
+    attribution = (offers as any[] | null)?.[0]?.attribution ?? null;
+  }
+  const network = attribution?.network ?? 'generic';
+  const eventName = (tx.step_id && attribution?.stepEvents?.[tx.step_id])
+    || attribution?.completionEvent
+    || getAttributionAdapter(network)?.defaultEvent
+    || 'conversion';
+  const secret = secretFor(network);
+  const request = await buildSamplePostback(network, { clickId, eventName: eventName.trim().toLowerCase(), secret });
+  return processPostback(client, network, request, secret);
+}
@@ -0,0 +1,24 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+// Small per-user UI preferences persisted on device
+const HOME_FILTER_KEY = 'prefs:home-filter';
+
+function keyFor(base: string, userId?: string | null) {
+  return `${base}:${userId || 'anon'}`;
+}
+
+export async function getHomeFilter(userId?: string | null): Promise<string | null> {
+  try {
+    return await AsyncStorage.getItem(keyFor(HOME_FILTER_KEY, userId));
+  } catch {
+    return null;
+  }
+}
+
+export async function setHomeFilter(userId: string | null | undefined, value: string) {
+  try {
+    await AsyncStorage.setItem(keyFor(HOME_FILTER_KEY, userId), value);
+  } catch (e: any) {
+    console.warn('[prefs] save home filter error', e?.message || e);
+  }
+}
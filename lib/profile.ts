@@ -1,4 +1,5 @@
 import { supabase } from '@/lib/supabase';
+import { invalidateQuery } from '@/lib/queryCache';
 
 export type UserProfile = {
   id: string;
@@ -9,6 +10,10 @@ export type UserProfile = {
   updated_at?: string | null;
 };
 
+export function profileQueryKey(userId: string) {
+  return `profile:${userId}`;
+}
+
 export async function getProfile(userId: string): Promise<UserProfile | null> {
   const { data, error } = await supabase
     .from('profiles')
@@ -33,4 +38,6 @@ export async function upsertProfile(profile: UserProfile): Promise<void> {
     ignoreDuplicates: false,
   });
   if (error) throw error;
+  // Screens reading the profile through useProfile pick up the saved values
+  invalidateQuery(profileQueryKey(profile.id));
 }
@@ -0,0 +1,73 @@
+import { manipulateAsync, SaveFormat } from 'expo-image-manipulator';
+import { supabase } from '@/lib/supabase';
+import { DHASH_SIZE, DUPLICATE_DISTANCE, decodeGrayscalePng, differenceHash } from '@/lib/imageHash';
+
+/**
+ * Duplicate proof detection. Every proof screenshot gets a 64-bit difference hash (dHash) kept in
+ * `proof_hashes`; screenshots whose hashes differ in at most DUPLICATE_DISTANCE bits are treated
+ * as the same image, even after re-compression, resizing or a different status bar.
+ * The hash is split into 4 bands stored as text[] (see hashBands): two hashes within 3 bits share at least one
+ * band, so candidates are found with an index-friendly overlap query. The comparison runs in the
+ * database (proof_duplicates), which flags only the later of two matching submissions.
+ */
+export { DUPLICATE_DISTANCE };
+
+/** 64-bit dHash of an image as 16 hex chars (see lib/imageHash). */
+export async function computeProofHash(uri: string): Promise<string> {
+  const small = await manipulateAsync(uri, [{ resize: { width: DHASH_SIZE.width, height: DHASH_SIZE.height } }], { format: SaveFormat.PNG, base64: true });
+  return differenceHash(decodeGrayscalePng(base64ToBytes(small.base64 ?? '')));
+}
+
+function base64ToBytes(b64: string) {
+  const bin = atob(b64);
+  const bytes = new Uint8Array(bin.length);
+  for (let i = 0; i < bin.length; i++) bytes[i] = bin.charCodeAt(i);
+  return bytes;
+}
+
+// ---- Storage and lookup ----
+
+export type ProofHashEntry = { url: string; hash: string };
+
+/**
+ * Store the hashes of a transaction's just-submitted proof (record_proof_hashes). A screenshot
+ * resubmitted with the same hash keeps its row, and so the time it was first seen; screenshots
+ * left out of the proof stay on record as replaced.
+ */
+export async function recordProofHashes(tx: { id: string }, entries: ProofHashEntry[]) {
+  const { error } = await supabase.rpc('record_proof_hashes', { tx_id: tx.id, entries });
+  if (error) throw error;
+}
+
+export type ProofDuplicate = {
+  url: string; // screenshot of this transaction
+  matchTransactionId: string; // transaction that submitted the matching screenshot earlier
+  matchUserId: string;
+  matchOfferId: string | null;
+  matchUrl: string;
+  distance: number; // differing bits, 0 = identical
+  sameUser: boolean;
+};
+
+/**
+ * Near-duplicates of earlier screenshots in other transactions, keyed by transaction id (absent =
+ * none found). The earliest submission of a screenshot is never flagged.
+ */
+export async function fetchProofDuplicates(transactionIds: string[]): Promise<Record<string, ProofDuplicate[]>> {
+  const result: Record<string, ProofDuplicate[]> = {};
+  if (!transactionIds.length) return result;
+  const { data, error } = await supabase.rpc('proof_duplicates', { transaction_ids: transactionIds, max_distance: DUPLICATE_DISTANCE });
+  if (error) throw error;
+  for (const r of (data as any[] | null) ?? []) {
+    (result[r.transaction_id] ||= []).push({
+      url: r.url,
+      matchTransactionId: r.match_transaction_id,
+      matchUserId: r.match_user_id,
+      matchOfferId: r.match_offer_id ?? null,
+      matchUrl: r.match_url,
+      distance: Number(r.distance) || 0,
+      sameUser: !!r.same_user,
+    });
+  }
+  return result;
+}
@@ -0,0 +1,76 @@
+/**
+ * Shared cache for one-shot reads (e.g. profiles). Entries are keyed, concurrent fetches of a key
+ * share one request, and every subscriber of a key sees the same data/loading/error state.
+ * Realtime lists live in lib/realtime instead.
+ */
+export type QueryState<T> = {
+  data: T | undefined;
+  loading: boolean;
+  error: string | null;
+};
+
+type Entry = {
+  state: QueryState<unknown>;
+  inflight: Promise<unknown> | null;
+  fetcher: (() => Promise<unknown>) | null; // last fetcher, reused by invalidateQuery
+  listeners: Set<() => void>;
+};
+
+const entries = new Map<string, Entry>();
+const EMPTY: QueryState<never> = { data: undefined, loading: false, error: null };
+
+function entryFor(key: string) {
+  let e = entries.get(key);
+  if (!e) {
+    e = { state: EMPTY, inflight: null, fetcher: null, listeners: new Set() };
+    entries.set(key, e);
+  }
+  return e;
+}
+
+function setState(e: Entry, patch: Partial<QueryState<unknown>>) {
+  e.state = { ...e.state, ...patch };
+  e.listeners.forEach((l) => l());
+}
+
+export function getQueryState<T>(key: string): QueryState<T> {
+  return (entries.get(key)?.state ?? EMPTY) as QueryState<T>;
+}
+
+/** Fetch `key` unless cached (or `force`); concurrent calls share one request. */
+export function fetchQuery<T>(key: string, fetcher: () => Promise<T>, options?: { force?: boolean }): Promise<T> {
+  const e = entryFor(key);
+  e.fetcher = fetcher;
+  if (e.inflight) return e.inflight as Promise<T>;
+  if (!options?.force && e.state.data !== undefined) return Promise.resolve(e.state.data as T);
+  setState(e, { loading: true });
+  const p = fetcher()
+    .then((data) => {
+      setState(e, { data, loading: false, error: null });
+      return data;
+    })
+    .catch((err: any) => {
+      setState(e, { loading: false, error: err?.message || String(err) });
+      throw err;
+    })
+    .finally(() => { e.inflight = null; });
+  e.inflight = p;
+  return p;
+}
+
+export function subscribeQuery(key: string, cb: () => void) {
+  const e = entryFor(key);
+  e.listeners.add(cb);
+  return () => { e.listeners.delete(cb); };
+}
+
+/** Replace cached data after a local write, without a round trip. */
+export function setQueryData<T>(key: string, data: T) {
+  setState(entryFor(key), { data, error: null });
+}
+
+/** Refetch a key in the background if anyone has fetched it before. */
+export function invalidateQuery(key: string) {
+  const e = entries.get(key);
+  if (e?.fetcher) fetchQuery(key, e.fetcher, { force: true }).catch(() => {});
+}
@@ -0,0 +1,210 @@
+import type { RealtimeChannel, RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+import { readCachedRows, writeCachedRows } from './offlineCache';
+
+/**
+ * Realtime multiplexer. Each table/filter pair gets one reference-counted channel, and each live
+ * list (a query plus its client-side predicate and order) keeps its rows in memory and applies
+ * INSERT/UPDATE/DELETE payloads directly instead of refetching. Subscribers of the same list share it.
+ */
+type AnyRow = Record<string, any>;
+type ChangeHandler = (payload: RealtimePostgresChangesPayload<AnyRow>) => void;
+type Snapshot = PromiseLike<{ data: any[] | null; error: { message: string } | null }>;
+
+type SharedChannel = {
+  channel: RealtimeChannel;
+  handlers: Set<ChangeHandler>;
+  onSubscribed: Set<(resubscribed: boolean) => void>;
+};
+
+const channels = new Map<string, SharedChannel>();
+
+function channelKey(table: string, filter?: string) {
+  return filter ? `${table}:${filter}` : table;
+}
+
+// Attach a handler to the shared channel for a table/filter; the channel closes with its last handler
+function listenToTable(
+  table: string,
+  filter: string | undefined,
+  handler: ChangeHandler,
+  onSubscribed: (resubscribed: boolean) => void,
+) {
+  const key = channelKey(table, filter);
+  let shared = channels.get(key);
+  if (!shared) {
+    const handlers = new Set<ChangeHandler>();
+    const subscribed = new Set<(resubscribed: boolean) => void>();
+    let subscribedOnce = false;
+    const channel = supabase
+      .channel(`live:${key}`)
+      .on('postgres_changes', { event: '*', schema: 'public', table, ...(filter ? { filter } : {}) }, (payload: RealtimePostgresChangesPayload<AnyRow>) => {
+        handlers.forEach((h) => h(payload));
+      })
+      .subscribe((status: string) => {
+        if (status !== 'SUBSCRIBED') return;
+        // Events are not replayed after a dropped socket, so lists resync on reconnect
+        subscribed.forEach((r) => r(subscribedOnce));
+        subscribedOnce = true;
+      });
+    shared = { channel, handlers, onSubscribed: subscribed };
+    channels.set(key, shared);
+  }
+  shared.handlers.add(handler);
+  shared.onSubscribed.add(onSubscribed);
+  const current = shared;
+  return () => {
+    current.handlers.delete(handler);
+    current.onSubscribed.delete(onSubscribed);
+    if (current.handlers.size === 0) {
+      channels.delete(key);
+      supabase.removeChannel(current.channel);
+    }
+  };
+}
+
+export type LiveQuery<Item> = {
+  key: string; // identifies the list; equal keys must describe the same query
+  table: string;
+  filter?: string; // postgres_changes filter, e.g. `user_id=eq.<id>`
+  load: () => Snapshot; // initial and resync snapshot
+  include?: (row: AnyRow) => boolean; // rows from payloads outside the list are dropped
+  compare: (a: AnyRow, b: AnyRow) => number;
+  limit?: number;
+  map: (row: AnyRow) => Item;
+  label?: string; // log prefix
+  cache?: boolean; // persist rows in the offline cache under `key`, and serve them until the first snapshot
+};
+
+export type LiveState<Item> = {
+  items: Item[];
+  ready: boolean; // items hold something worth showing (snapshot, cache, or an empty result after a failure)
+  loading: boolean; // a snapshot request is in flight
+  error: string | null; // last snapshot error, cleared by the next successful one
+};
+
+type LiveList = {
+  rows: AnyRow[] | null; // null until the first snapshot arrives
+  state: LiveState<unknown>;
+  inflight: Promise<void> | null; // concurrent loads share one request
+  load: () => Promise<void>;
+  pending: RealtimePostgresChangesPayload<AnyRow>[];
+  listeners: Set<(state: LiveState<unknown>) => void>;
+  release: () => void;
+};
+
+const lists = new Map<string, LiveList>();
+
+function applyChange(rows: AnyRow[], payload: RealtimePostgresChangesPayload<AnyRow>, q: LiveQuery<unknown>) {
+  const oldId = (payload.old as AnyRow | undefined)?.id;
+  const next = (payload.new as AnyRow | undefined) ?? {};
+  const id = next.id ?? oldId;
+  const rest = rows.filter((r) => r.id !== id);
+  if (payload.eventType === 'DELETE') return rest;
+  // UPDATEs can move a row in or out of the list (e.g. a status change), so re-check it
+  if (q.include && !q.include(next)) return rest;
+  const merged = [...rest, next].sort(q.compare);
+  return q.limit ? merged.slice(0, q.limit) : merged;
+}
+
+/** Subscribe to the full state of a live list; the callback runs right away with the current state. */
+export function subscribeLiveState<Item>(q: LiveQuery<Item>, cb: (state: LiveState<Item>) => void): () => void {
+  const query = q as LiveQuery<unknown>;
+  let list = lists.get(q.key);
+  if (!list) {
+    const cached = q.cache ? readCachedRows(q.key) : null;
+    const created: LiveList = {
+      rows: null,
+      state: { items: cached ? cached.map(query.map) : [], ready: !!cached, loading: false, error: null },
+      inflight: null,
+      load: async () => {},
+      pending: [],
+      listeners: new Set(),
+      release: () => {},
+    };
+    const setState = (patch: Partial<LiveState<unknown>>) => {
+      created.state = { ...created.state, ...patch };
+      created.listeners.forEach((l) => l(created.state));
+    };
+    const publish = (rows: AnyRow[]) => setState({ items: rows.map(query.map), ready: true });
+    const fetchSnapshot = async () => {
+      setState({ loading: true });
+      let result: Awaited<ReturnType<typeof query.load>>;
+      try {
+        result = await query.load();
+      } catch (e: any) {
+        result = { data: null, error: { message: e?.message || String(e) } };
+      }
+      if (lists.get(q.key) !== created) return; // released meanwhile
+      if (result.error) {
+        console.warn(`[${q.label ?? q.table}] load error`, result.error.message);
+        // Keep serving the cache; without one, settle on an empty list until the next resync
+        setState({ loading: false, error: result.error.message, ...(created.state.ready ? {} : { items: [], ready: true }) });
+        return;
+      }
+      let rows = result.data ?? [];
+      // Changes that raced the snapshot are replayed on top of it
+      for (const p of created.pending) rows = applyChange(rows, p, query);
+      created.pending = [];
+      created.rows = rows;
+      if (q.cache) writeCachedRows(q.key, rows);
+      setState({ items: rows.map(query.map), ready: true, loading: false, error: null });
+    };
+    created.load = () => {
+      created.inflight ||= fetchSnapshot().finally(() => { created.inflight = null; });
+      return created.inflight;
+    };
+    created.release = listenToTable(q.table, q.filter, (payload) => {
+      if (!created.rows) { created.pending.push(payload); return; }
+      created.rows = applyChange(created.rows, payload, query);
+      if (q.cache) writeCachedRows(q.key, created.rows);
+      publish(created.rows);
+    }, (resubscribed) => {
+      // Resync after a reconnect, or retry a snapshot that failed (e.g. started offline)
+      if (resubscribed || !created.rows) created.load();
+    });
+    lists.set(q.key, created);
+    created.load();
+    list = created;
+  }
+  const listener = cb as (state: LiveState<unknown>) => void;
+  list.listeners.add(listener);
+  cb(list.state as LiveState<Item>);
+  const current = list;
+  return () => {
+    current.listeners.delete(listener);
+    if (current.listeners.size === 0) {
+      lists.delete(q.key);
+      current.release();
+    }
+  };
+}
+
+/** Subscribe to a live list's items. The callback receives the current items right away when already loaded. */
+export function subscribeLiveQuery<Item>(q: LiveQuery<Item>, cb: (items: Item[]) => void): () => void {
+  let last: Item[] | null = null;
+  return subscribeLiveState(q, (state) => {
+    // Loading/error transitions alone do not concern item subscribers
+    if (!state.ready || state.items === last) return;
+    last = state.items;
+    cb(state.items);
+  });
+}
+
+/** Current state of a live list without subscribing: the open list, else the offline cache, else idle. */
+export function peekLiveState<Item>(q: LiveQuery<Item>): LiveState<Item> {
+  const open = lists.get(q.key);
+  if (open) return open.state as LiveState<Item>;
+  const cached = q.cache ? readCachedRows(q.key) : null;
+  return { items: cached ? cached.map(q.map) : [], ready: !!cached, loading: false, error: null };
+}
+
+/** Re-run the snapshot of an open live list (deduplicated with any request in flight). */
+export function refetchLiveQuery(key: string): Promise<void> {
+  return lists.get(key)?.load() ?? Promise.resolve();
+}
+
+// Common orderings for live lists
+export function byCreatedAtDesc(a: AnyRow, b: AnyRow) {
+  return String(b.created_at ?? '').localeCompare(String(a.created_at ?? ''));
+}
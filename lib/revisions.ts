@@ -0,0 +1,72 @@
+import { supabase } from '@/lib/supabase';
+
+// Audit trail for admin-edited content. Snapshots are stored in app shape (OfferItem / Slide)
+// so diffs and reverts never need the row mappers.
+export type RevisionEntity = 'offer' | 'slide';
+export type RevisionAction = 'create' | 'update' | 'delete' | 'revert';
+
+export type Revision<T = Record<string, any>> = {
+  id: string;
+  entity: RevisionEntity;
+  entity_id: string;
+  action: RevisionAction;
+  before: T | null;
+  after: T | null;
+  actor_id: string | null;
+  created_at: string;
+};
+
+export type FieldChange = { field: string; before: unknown; after: unknown };
+
+async function currentActorId(): Promise<string | null> {
+  try {
+    const { data } = await supabase.auth.getSession();
+    return data.session?.user.id ?? null;
+  } catch {
+    return null;
+  }
+}
+
+export async function recordRevision(input: {
+  entity: RevisionEntity;
+  entityId: string;
+  action: RevisionAction;
+  before: Record<string, any> | null;
+  after: Record<string, any> | null;
+}) {
+  const actorId = await currentActorId();
+  const { error } = await supabase.from('content_revisions').insert({
+    entity: input.entity,
+    entity_id: input.entityId,
+    action: input.action,
+    before: input.before,
+    after: input.after,
+    actor_id: actorId,
+  });
+  if (error) console.warn('[revisions] insert error', error.message);
+}
+
+export async function fetchRevisions(entity: RevisionEntity, entityId: string, limit = 50): Promise<Revision[]> {
+  const { data, error } = await supabase
+    .from('content_revisions')
+    .select('id,entity,entity_id,action,before,after,actor_id,created_at')
+    .eq('entity', entity)
+    .eq('entity_id', entityId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+  if (error) throw error;
+  return (data as Revision[] | null) ?? [];
+}
+
+/** Field-level differences between two snapshots (ids and undefined-vs-missing are ignored). */
+export function diffSnapshots(before: Record<string, any> | null, after: Record<string, any> | null): FieldChange[] {
+  const keys = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+  keys.delete('id');
+  const changes: FieldChange[] = [];
+  for (const field of Array.from(keys).sort()) {
+    const b = before?.[field];
+    const a = after?.[field];
+    if (JSON.stringify(b ?? null) !== JSON.stringify(a ?? null)) changes.push({ field, before: b, after: a });
+  }
+  return changes;
+}
@@ -0,0 +1,59 @@
+import { supabase } from './supabase';
+import { createEventBatcher } from './eventBatcher';
+
+// Carousel analytics: impressions and clicks are queued locally and written to `slide_events` in batches
+export type SlideEventKind = 'impression' | 'click';
+
+// user_id is added when the batch is sent
+type SlideEventRow = {
+  slide_id: string;
+  kind: SlideEventKind;
+  created_at: string;
+};
+
+export type SlideStats = {
+  impressions: number;
+  clicks: number;
+  viewers: number; // distinct signed-in users with an impression
+  ctr: number; // clicks / impressions, 0 when there are no impressions
+};
+
+// A slide must stay on screen this long to count as seen
+export const IMPRESSION_MIN_VISIBLE_MS = 1000;
+// Autoplay loops the same banners; count a slide again only after this long
+const IMPRESSION_COOLDOWN_MS = 30 * 60 * 1000;
+const events = createEventBatcher<SlideEventRow>('slide_events');
+const lastImpressionAt = new Map<string, number>();
+
+export function trackSlideImpression(slideId: string) {
+  const now = Date.now();
+  const last = lastImpressionAt.get(slideId);
+  if (last && now - last < IMPRESSION_COOLDOWN_MS) return;
+  lastImpressionAt.set(slideId, now);
+  events.enqueue({ slide_id: slideId, kind: 'impression', created_at: new Date(now).toISOString() });
+}
+
+export function trackSlideClick(slideId: string) {
+  events.enqueue({ slide_id: slideId, kind: 'click', created_at: new Date().toISOString() });
+}
+
+export function flushSlideEvents() {
+  return events.flush();
+}
+
+/** Impressions, clicks and CTR per slide for events in [from, to), counted by the database (slide_stats). */
+export async function fetchSlideStats(range: { from?: string; to?: string } = {}): Promise<Record<string, SlideStats>> {
+  const { data, error } = await supabase.rpc('slide_stats', { from_ts: range.from ?? null, to_ts: range.to ?? null });
+  if (error) throw error;
+  const stats: Record<string, SlideStats> = {};
+  for (const r of (data as any[] | null) ?? []) {
+    const impressions = Number(r.impressions) || 0;
+    const clicks = Number(r.clicks) || 0;
+    stats[r.slide_id] = { impressions, clicks, viewers: Number(r.viewers) || 0, ctr: impressions ? clicks / impressions : 0 };
+  }
+  return stats;
+}
+
+export function formatCtr(ctr: number) {
+  return `${(ctr * 100).toFixed(ctr > 0 && ctr < 0.01 ? 2 : 1)}%`;
+}
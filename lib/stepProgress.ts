@@ -0,0 +1,129 @@
+import { supabase } from '@/lib/supabase';
+import { byCreatedAtDesc, type LiveQuery } from '@/lib/realtime';
+import type { OfferItem, OfferStep } from '@/lib/content';
+import { isTransactionComplete, type Transaction } from '@/lib/transactions';
+
+/**
+ * Which offer steps a user has completed, one `step_progress` row per (user, offer, step).
+ * Users tick steps off themselves; admin review and tracking postbacks mark them verified,
+ * and a verified row is never downgraded by the user.
+ */
+export type StepProgressSource = 'self' | 'verified';
+
+export type StepProgress = {
+  id: string;
+  user_id: string;
+  offer_id: string;
+  step_id: string;
+  source: StepProgressSource;
+  created_at: string; // completion time
+};
+
+function mapRow(r: any): StepProgress {
+  return {
+    id: r.id,
+    user_id: r.user_id,
+    offer_id: r.offer_id,
+    step_id: r.step_id,
+    source: r.source === 'verified' ? 'verified' : 'self',
+    created_at: r.created_at,
+  };
+}
+
+export function stepProgressCacheKey(userId: string) {
+  return `step_progress:user:${userId}`;
+}
+
+export function stepProgressQuery(userId: string): LiveQuery<StepProgress> {
+  return {
+    key: stepProgressCacheKey(userId),
+    table: 'step_progress',
+    filter: `user_id=eq.${userId}`,
+    label: 'step_progress',
+    cache: true,
+    load: () => supabase
+      .from('step_progress')
+      .select('id,user_id,offer_id,step_id,source,created_at')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(500),
+    compare: byCreatedAtDesc,
+    limit: 500,
+    map: mapRow,
+  };
+}
+
+/** Self-report a step as done; a no-op when the step is already recorded. */
+export async function markStepDone(userId: string, offerId: string, stepId: string) {
+  const { error } = await supabase
+    .from('step_progress')
+    .upsert({ user_id: userId, offer_id: offerId, step_id: stepId, source: 'self' }, { onConflict: 'user_id,offer_id,step_id', ignoreDuplicates: true });
+  if (error) throw error;
+}
+
+/** Undo a self-reported step. Verified steps stay. */
+export async function unmarkStepDone(userId: string, offerId: string, stepId: string) {
+  const { error } = await supabase
+    .from('step_progress')
+    .delete()
+    .eq('user_id', userId)
+    .eq('offer_id', offerId)
+    .eq('step_id', stepId)
+    .eq('source', 'self');
+  if (error) throw error;
+}
+
+/** Record a step as verified (admin approval or postback), upgrading a self-reported row. */
+export async function markStepVerified(userId: string, offerId: string, stepId: string) {
+  const { error } = await supabase
+    .from('step_progress')
+    .upsert({ user_id: userId, offer_id: offerId, step_id: stepId, source: 'verified' }, { onConflict: 'user_id,offer_id,step_id' });
+  if (error) throw error;
+}
+
+export type StepCheck = {
+  step: OfferStep;
+  done: boolean;
+  source: StepProgressSource | null;
+};
+
+export type StepChecklist = {
+  steps: StepCheck[];
+  completed: number;
+  total: number;
+  next: { index: number; step: OfferStep } | null; // first step not done yet: where the user resumes
+};
+
+/**
+ * Step-by-step state of an offer for one user. An approved or paid milestone counts as verified
+ * even before its progress row exists, and a confirmed single-payout offer verifies all of its steps.
+ */
+export function getStepChecklist(
+  offer: Pick<OfferItem, 'id'>,
+  steps: OfferStep[],
+  rows: StepProgress[],
+  txs: Transaction[] = []
+): StepChecklist {
+  const sources = new Map<string, StepProgressSource>();
+  for (const r of rows) {
+    if (r.offer_id !== offer.id) continue;
+    if (sources.get(r.step_id) !== 'verified') sources.set(r.step_id, r.source);
+  }
+  let offerPaid = false;
+  for (const t of txs) {
+    if (t.offer_id !== offer.id || !isTransactionComplete(t)) continue;
+    if (t.step_id) sources.set(t.step_id, 'verified');
+    else offerPaid = true;
+  }
+  const checks = steps.map((step) => {
+    const source = offerPaid ? 'verified' : sources.get(step.id) ?? null;
+    return { step, done: !!source, source };
+  });
+  const nextIndex = checks.findIndex((c) => !c.done);
+  return {
+    steps: checks,
+    completed: checks.filter((c) => c.done).length,
+    total: checks.length,
+    next: nextIndex >= 0 ? { index: nextIndex, step: checks[nextIndex].step } : null,
+  };
+}
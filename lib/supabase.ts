@@ -7,8 +7,8 @@ import Constants from 'expo-constants';
 
 // Resolve config from Expo extra or env
 const extra = Constants.expoConfig?.extra as any | undefined;
-const SUPABASE_URL = (extra?.SUPABASE_URL || process.env.EXPO_PUBLIC_SUPABASE_URL || '').trim();
-const SUPABASE_ANON_KEY = (extra?.SUPABASE_ANON_KEY || process.env.EXPO_PUBLIC_SUPABASE_ANON_KEY || '').trim();
+export const SUPABASE_URL = (extra?.SUPABASE_URL || process.env.EXPO_PUBLIC_SUPABASE_URL || '').trim();
+export const SUPABASE_ANON_KEY = (extra?.SUPABASE_ANON_KEY || process.env.EXPO_PUBLIC_SUPABASE_ANON_KEY || '').trim();
 
 if (!SUPABASE_URL || !SUPABASE_ANON_KEY) {
   // This will help catch misconfiguration early during development
@@ -0,0 +1,51 @@
+import { Platform } from 'react-native';
+import Constants from 'expo-constants';
+import type { OfferItem, OfferPlatform } from '@/lib/content';
+
+export type ClientContext = {
+  platform: OfferPlatform;
+  appVersion: string;
+};
+
+// Resolve the running platform and app version from expo-constants
+export function getClientContext(): ClientContext {
+  const platform: OfferPlatform = Platform.OS === 'ios' ? 'ios' : Platform.OS === 'web' ? 'web' : 'android';
+  const appVersion = Constants.expoConfig?.version || '0.0.0';
+  return { platform, appVersion };
+}
+
+/** Numeric dot-separated comparison ("1.10.0" > "1.9.2"); missing parts count as 0. */
+export function compareVersions(a: string, b: string) {
+  const pa = a.split('.').map((n) => parseInt(n, 10) || 0);
+  const pb = b.split('.').map((n) => parseInt(n, 10) || 0);
+  for (let i = 0; i < Math.max(pa.length, pb.length); i++) {
+    const d = (pa[i] ?? 0) - (pb[i] ?? 0);
+    if (d !== 0) return d < 0 ? -1 : 1;
+  }
+  return 0;
+}
+
+export function isValidVersion(v: string) {
+  return /^\d+(\.\d+){0,3}$/.test(v.trim());
+}
+
+/** Returns why the offer is not available for this client, or null when it is targeted. */
+export function getTargetingMismatch(
+  offer: Pick<OfferItem, 'platforms' | 'minAppVersion' | 'maxAppVersion'>,
+  ctx: ClientContext = getClientContext()
+): string | null {
+  if (offer.platforms?.length && !offer.platforms.includes(ctx.platform)) {
+    return 'This offer is not available on your device.';
+  }
+  if (offer.minAppVersion && compareVersions(ctx.appVersion, offer.minAppVersion) < 0) {
+    return 'Please update the app to access this offer.';
+  }
+  if (offer.maxAppVersion && compareVersions(ctx.appVersion, offer.maxAppVersion) > 0) {
+    return 'This offer is not available on your app version.';
+  }
+  return null;
+}
+
+export function isOfferTargeted(offer: Pick<OfferItem, 'platforms' | 'minAppVersion' | 'maxAppVersion'>, ctx?: ClientContext) {
+  return getTargetingMismatch(offer, ctx) === null;
+}
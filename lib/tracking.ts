@@ -0,0 +1,49 @@
+import Constants from 'expo-constants';
+import { supabase } from '@/lib/supabase';
+import { randomHex } from '@/lib/device';
+import type { PostbackResult } from '@/lib/postback';
+
+/**
+ * Advertiser tracking links. An offer's tracking URL is a template; starting the offer fills in
+ * the transaction's click id and the user, and the advertiser's attribution network later reports
+ * the conversion with that click id through the `postback` edge function (lib/postback).
+ * Set POSTBACK_MODE=local (app.json extra or EXPO_PUBLIC_POSTBACK_MODE) to show admins a button that
+ * simulates the advertiser's call from the review screen; the edge function needs POSTBACK_MODE=local
+ * too, and signs the call with its own secret.
+ */
+export const TRACKING_PLACEHOLDERS = ['{click_id}', '{user_id}', '{offer_id}'] as const;
+
+const extra = Constants.expoConfig?.extra as any | undefined;
+export const isLocalPostback = (extra?.POSTBACK_MODE || process.env.EXPO_PUBLIC_POSTBACK_MODE || '') === 'local';
+
+export function newClickId() {
+  return randomHex(12);
+}
+
+/** Fills the template's placeholders; unknown placeholders are left as they are. */
+export function buildTrackingUrl(template: string, values: { clickId: string; userId: string; offerId: string }) {
+  return template
+    .replace(/\{click_id\}/g, encodeURIComponent(values.clickId))
+    .replace(/\{user_id\}/g, encodeURIComponent(values.userId))
+    .replace(/\{offer_id\}/g, encodeURIComponent(values.offerId));
+}
+
+/** Returns a problem with a tracking URL template, or null when it can be used (or is empty). */
+export function validateTrackingTemplate(template: string): string | null {
+  const t = template.trim();
+  if (!t) return null;
+  if (!/^https?:\/\/\S+$/i.test(t)) return 'Tracking URL must be an http(s) link without spaces.';
+  if (!t.includes('{click_id}')) return 'Tracking URL must include {click_id} so conversions can be matched.';
+  return null;
+}
+
+/**
+ * Asks the `postback` edge function to play the attribution network's call for `clickId`, in the
+ * offer's network format and with the event that completes the transaction's milestone (or the offer).
+ */
+export async function simulatePostback(clickId: string): Promise<PostbackResult> {
+  const { data, error } = await supabase.functions.invoke<PostbackResult>('postback/simulate', { body: { clickId } });
+  if (error) throw error;
+  if (!data) throw new Error('Empty response from the postback function.');
+  return data;
+}
@@ -0,0 +1,56 @@
+/**
+ * Lifecycle of a conversion: started → (submitted → under_review →) approved → paid, leaving
+ * through rejected (the user may retry), expired (left unfinished) or reversed (clawed back after
+ * approval). Every status change goes through TRANSACTION_TRANSITIONS, and the status groupings
+ * below derive from it. Shared by lib/transactions and the `postback` edge function (lib/postback),
+ * so no app modules or '@/' paths here.
+ */
+export type TransactionStatus =
+  | 'started' // offer opened, task not done yet
+  | 'submitted' // proof uploaded, waiting for a reviewer
+  | 'under_review' // a reviewer has picked it up
+  | 'approved' // conversion confirmed, reward not paid out yet
+  | 'paid'
+  | 'rejected'
+  | 'expired'
+  | 'reversed';
+
+export const TRANSACTION_STATUSES: TransactionStatus[] = ['started', 'submitted', 'under_review', 'approved', 'paid', 'rejected', 'expired', 'reversed'];
+
+// Allowed status changes; a status listed under itself may be refreshed in place
+export const TRANSACTION_TRANSITIONS: Record<TransactionStatus, TransactionStatus[]> = {
+  started: ['started', 'submitted', 'under_review', 'approved', 'rejected', 'expired'],
+  submitted: ['submitted', 'under_review', 'approved', 'rejected', 'expired'],
+  under_review: ['approved', 'rejected'],
+  approved: ['paid', 'reversed'],
+  paid: ['reversed'],
+  rejected: ['started', 'submitted'],
+  expired: ['started'],
+  reversed: [],
+};
+
+export function canTransition(from: TransactionStatus, to: TransactionStatus) {
+  return TRANSACTION_TRANSITIONS[from].includes(to);
+}
+
+// Confirmed conversions: nothing is left for the user to do
+export const COMPLETED_STATUSES: TransactionStatus[] = ['approved', 'paid'];
+
+// Conversions still waiting on the advertiser or a reviewer: they can be approved or rejected
+export const OPEN_STATUSES = TRANSACTION_STATUSES.filter((s) => canTransition(s, 'approved') && canTransition(s, 'rejected'));
+
+// Proof review queue: open conversions with proof, submitted or already picked up by a reviewer
+export const REVIEW_STATUSES = OPEN_STATUSES.filter((s) => s === 'submitted' || canTransition('submitted', s));
+
+// Rows written before the lifecycle existed
+const LEGACY_STATUSES: Record<string, TransactionStatus> = { pending: 'started' };
+
+export function normalizeStatus(status: string): TransactionStatus {
+  return LEGACY_STATUSES[status] ?? (status as TransactionStatus);
+}
+
+// Status values to match in queries, legacy spellings included
+export function dbStatuses(statuses: TransactionStatus[]): string[] {
+  const legacy = Object.keys(LEGACY_STATUSES).filter((k) => statuses.includes(LEGACY_STATUSES[k]));
+  return [...statuses, ...legacy];
+}
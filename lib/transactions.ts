@@ -1,17 +1,62 @@
 import { supabase } from '@/lib/supabase';
 import { emitTransaction } from '@/lib/txEvents';
+import { getMilestones, isMultiStageOffer, type EligibilityRule, type OfferCaps, type OfferItem, type OfferStep } from '@/lib/content';
+import { byCreatedAtDesc, subscribeLiveQuery, type LiveQuery } from '@/lib/realtime';
+import { readCachedRows } from '@/lib/offlineCache';
+import { markStepVerified } from '@/lib/stepProgress';
+import { fetchEligibilityContext, getEligibilityMismatch, recordDeviceClaim } from '@/lib/eligibility';
+import { newClickId } from '@/lib/tracking';
+import {
+  COMPLETED_STATUSES,
+  OPEN_STATUSES,
+  REVIEW_STATUSES,
+  TRANSACTION_STATUSES,
+  TRANSACTION_TRANSITIONS,
+  canTransition,
+  dbStatuses,
+  normalizeStatus,
+  type TransactionStatus,
+} from '@/lib/transactionLifecycle';
 
-export type TransactionStatus = 'pending' | 'rejected' | 'paid';
+// Statuses and transitions live in lib/transactionLifecycle, which the postback edge function shares
+export {
+  COMPLETED_STATUSES,
+  OPEN_STATUSES,
+  REVIEW_STATUSES,
+  TRANSACTION_STATUSES,
+  TRANSACTION_TRANSITIONS,
+  canTransition,
+  type TransactionStatus,
+};
+
+export const TRANSACTION_STATUS_LABELS: Record<TransactionStatus, string> = {
+  started: 'Started',
+  submitted: 'Proof submitted',
+  under_review: 'Under review',
+  approved: 'Approved',
+  paid: 'Paid',
+  rejected: 'Rejected',
+  expired: 'Expired',
+  reversed: 'Reversed',
+};
+
+export function isTransactionComplete(tx: Pick<Transaction, 'status'>) {
+  return COMPLETED_STATUSES.includes(tx.status);
+}
 
 export type Transaction = {
   id: string; // uuid
   user_id: string; // uuid
   offer_id: string | null; // text FK to offers.id
+  step_id: string | null; // milestone of a multi-stage offer; null for single-payout offers
   offer_title: string | null;
+  step_title: string | null;
   offer_icon_url: string | null;
   amount: number | null;
   status: TransactionStatus;
-  proof_url: string | null;
+  proof_url: string | null; // first screenshot, kept for older clients
+  proof_urls: string[]; // every screenshot of the current submission
+  click_id: string | null; // sent to the advertiser's tracking link; postbacks settle the row by it
   notes: string | null;
   reviewed_by: string | null; // uuid
   reviewed_at: string | null; // ISO
@@ -24,11 +69,15 @@ function mapRow(r: any): Transaction {
     id: r.id,
     user_id: r.user_id,
     offer_id: r.offer_id,
+    step_id: r.step_id ?? null,
     offer_title: r.offer_title,
+    step_title: r.step_title ?? null,
     offer_icon_url: r.offer_icon_url,
     amount: r.amount,
-    status: r.status,
+    status: normalizeStatus(r.status),
     proof_url: r.proof_url,
+    proof_urls: r.proof_urls?.length ? r.proof_urls : r.proof_url ? [r.proof_url] : [],
+    click_id: r.click_id ?? null,
     notes: r.notes,
     reviewed_by: r.reviewed_by,
     reviewed_at: r.reviewed_at,
@@ -37,39 +86,180 @@ function mapRow(r: any): Transaction {
   } as Transaction;
 }
 
+// Conversion caps: every transaction that is not rejected, expired or reversed consumes an offer's
+// caps/budget. A multi-stage offer counts one conversion per user, however many milestones they reach.
+// The database counts usage and refuses conversions past the caps (see
+// supabase/migrations/*_offer_caps.sql). Admins read the usage (offer_usage); users only what is left
+// (offer_availability), to explain a full campaign.
+export type OfferUsage = {
+  count: number;
+  countToday: number;
+  spent: number; // ₹ across consuming transactions
+  spentToday: number;
+};
+
+// Room left for the next conversion; null where the offer has no such cap
+export type OfferAvailability = {
+  slotsLeft: number | null;
+  slotsLeftToday: number | null;
+  budgetLeft: number | null; // ₹
+  budgetLeftToday: number | null;
+};
+
+export type TransactionError = {
+  code: 'CAMPAIGN_FULL' | 'OFFER_UNAVAILABLE' | 'NOT_ELIGIBLE' | 'INVALID_TRANSITION';
+  message: string;
+};
+
+function assertTransition(from: TransactionStatus, to: TransactionStatus) {
+  if (canTransition(from, to)) return;
+  const err: TransactionError = {
+    code: 'INVALID_TRANSITION',
+    message: `A transaction that is ${TRANSACTION_STATUS_LABELS[from].toLowerCase()} cannot become ${TRANSACTION_STATUS_LABELS[to].toLowerCase()}.`,
+  };
+  throw err;
+}
+
+/** Consumed caps/budget per offer id, counted by the database across all users. Admins only. */
+export async function fetchOfferUsage(offerIds: string[]): Promise<Record<string, OfferUsage>> {
+  const usage: Record<string, OfferUsage> = {};
+  if (!offerIds.length) return usage;
+  const { data, error } = await supabase.rpc('offer_usage', { offer_ids: offerIds });
+  if (error) throw error;
+  for (const r of (data as any[] | null) ?? []) {
+    usage[r.offer_id] = {
+      count: Number(r.count) || 0,
+      countToday: Number(r.count_today) || 0,
+      spent: Number(r.spent) || 0,
+      spentToday: Number(r.spent_today) || 0,
+    };
+  }
+  return usage;
+}
+
+function toNullableNumber(value: unknown) {
+  return value == null ? null : Number(value) || 0;
+}
+
+export async function fetchOfferAvailability(offerId: string): Promise<OfferAvailability> {
+  const { data, error } = await supabase.rpc('offer_availability', { offer_ids: [offerId] });
+  if (error) throw error;
+  const r = (data as any[] | null)?.[0];
+  return {
+    slotsLeft: toNullableNumber(r?.slots_left),
+    slotsLeftToday: toNullableNumber(r?.slots_left_today),
+    budgetLeft: toNullableNumber(r?.budget_left),
+    budgetLeftToday: toNullableNumber(r?.budget_left_today),
+  };
+}
+
 /**
- * Ensure only one active (non-paid) transaction exists per (user, offer).
- * If a pending/rejected transaction exists, reuse it by setting status back to 'pending'
- * and refreshing updated_at; otherwise insert a new pending row.
+ * Returns a human-readable reason when starting one more conversion worth `amount` (for a
+ * multi-stage offer, the reward of the milestone it starts, as the caps trigger counts it)
+ * would exceed a cap, or null when there is room. `daily` tells whether only a daily cap is hit.
  */
-export async function createOrReuseActiveTransaction(input: {
+export function checkOfferCaps(availability: OfferAvailability, amount = 0): { reason: string; daily: boolean } | null {
+  const { slotsLeft, slotsLeftToday, budgetLeft, budgetLeftToday } = availability;
+  if (slotsLeft !== null && slotsLeft <= 0) return { reason: 'All slots for this campaign are taken.', daily: false };
+  if (budgetLeft !== null && amount > budgetLeft) return { reason: 'This campaign has used its budget.', daily: false };
+  if (slotsLeftToday !== null && slotsLeftToday <= 0) return { reason: "Today's slots are taken. Come back tomorrow.", daily: true };
+  if (budgetLeftToday !== null && amount > budgetLeftToday) return { reason: "Today's budget is used up. Come back tomorrow.", daily: true };
+  return null;
+}
+
+/** Remaining ₹ budget (total), or null when the offer has no total budget. */
+export function remainingBudget(caps: OfferCaps, usage: OfferUsage): number | null {
+  if (!caps.budgetTotal) return null;
+  return Math.max(0, caps.budgetTotal - usage.spent);
+}
+
+// Triggers refuse a conversion past the offer's caps with hint CAMPAIGN_FULL, one on an unpublished
+// offer with OFFER_UNAVAILABLE, and a status change outside the lifecycle with INVALID_TRANSITION
+const TRIGGER_ERRORS: TransactionError['code'][] = ['CAMPAIGN_FULL', 'OFFER_UNAVAILABLE', 'INVALID_TRANSITION'];
+
+function toTransactionError(error: any) {
+  if (!TRIGGER_ERRORS.includes(error?.hint)) return error;
+  const err: TransactionError = { code: error.hint, message: error.message };
+  return err;
+}
+
+type ActiveTransactionInput = {
   userId: string;
   offerId: string;
+  stepId?: string; // milestone of a multi-stage offer
   offerTitle?: string;
+  stepTitle?: string;
   offerIconUrl?: string;
   amount?: number;
+};
+
+/**
+ * Ensure only one active (non-paid) transaction exists per (user, offer), or per
+ * (user, offer, milestone) for multi-stage offers.
+ * A started, rejected or expired transaction is reused by moving it (back) to 'started' and
+ * refreshing updated_at; otherwise a new started row is inserted. Throws INVALID_TRANSITION
+ * when the latest transaction cannot be restarted (reversed), CAMPAIGN_FULL when a new or
+ * re-opened conversion does not fit the offer's caps, and OFFER_UNAVAILABLE when the offer is not
+ * published.
+ */
+export async function createOrReuseActiveTransaction(input: ActiveTransactionInput & {
+  eligibility?: EligibilityRule[]; // when set, new conversions are checked against the user's history
 }): Promise<Transaction> {
-  // 1) Find latest non-paid tx for this user/offer
-  const { data: existingRows, error: findErr } = await supabase
+  // 1) Find latest non-paid tx for this user/offer (and milestone)
+  let findQuery = supabase
     .from('transactions')
     .select('*')
     .eq('user_id', input.userId)
-    .eq('offer_id', input.offerId)
+    .eq('offer_id', input.offerId);
+  findQuery = input.stepId ? findQuery.eq('step_id', input.stepId) : findQuery.is('step_id', null);
+  const { data: existingRows, error: findErr } = await findQuery
     .neq('status', 'paid')
     .order('created_at', { ascending: false })
     .limit(1);
   if (findErr) throw findErr;
   const existing = (existingRows as any[] | null)?.[0];
+  const existingStatus = existing ? normalizeStatus(existing.status) : null;
+
+  // Eligibility is decided when a conversion starts; users already on the offer keep going
+  const checkEligibility = !!input.eligibility?.length && !existing;
+  if (checkEligibility) await assertEligible(input.userId, input.offerId, input.eligibility!);
+
+  // Conversions in review or approved are left alone until they settle
+  if (existingStatus === 'submitted' || existingStatus === 'under_review' || existingStatus === 'approved') return mapRow(existing);
+  if (existingStatus) assertTransition(existingStatus, 'started');
+  const tx = await reuseOrInsertTransaction(input, existing);
+  // The device is claimed only once the conversion exists, so a failed start never locks it
+  if (checkEligibility && input.eligibility!.some((r) => r.kind === 'once_per_device')) {
+    await recordDeviceClaim(input.offerId, input.userId).catch((e: any) => {
+      console.warn('[device_claims] insert error', e?.message || e);
+    });
+  }
+  return tx;
+}
+
+/** Throws NOT_ELIGIBLE with the reason when a rule fails. */
+async function assertEligible(userId: string, offerId: string, rules: EligibilityRule[]) {
+  const ctx = await fetchEligibilityContext(userId);
+  const reason = getEligibilityMismatch({ id: offerId, eligibility: rules }, ctx);
+  if (reason) {
+    const err: TransactionError = { code: 'NOT_ELIGIBLE', message: reason };
+    throw err;
+  }
+}
 
-  // 2) If exists and not paid, make sure it's pending and refresh updated_at
+async function reuseOrInsertTransaction(input: ActiveTransactionInput, existing: any | undefined): Promise<Transaction> {
+  // 2) If exists and not paid, make sure it's started and refresh updated_at
   if (existing) {
     const id = (existing as any).id as string;
     const patch: any = {
-      status: 'pending' as TransactionStatus,
+      status: 'started' as TransactionStatus,
+      // A re-opened conversion is a new click; re-tapping an open task keeps the advertiser's click id
+      click_id: normalizeStatus(existing.status) === 'started' && existing.click_id ? existing.click_id : newClickId(),
       offer_title: input.offerTitle ?? (existing as any).offer_title ?? null,
+      step_title: input.stepTitle ?? (existing as any).step_title ?? null,
       offer_icon_url: input.offerIconUrl ?? (existing as any).offer_icon_url ?? null,
       amount: input.amount ?? (existing as any).amount ?? null,
-      // Let DB trigger update updated_at; or set reviewed_at to null when going back to pending
+      // Let DB trigger update updated_at; or set reviewed_at to null when going back to started
       reviewed_at: null,
       reviewed_by: null,
     };
@@ -79,7 +269,7 @@ export async function createOrReuseActiveTransaction(input: {
       .eq('id', id)
       .select('*')
       .limit(1);
-    if (error) throw error;
+    if (error) throw toTransactionError(error);
     const row = (data as any[] | null)?.[0];
     // If RLS prevents returning the updated row, fall back to existing with patched fields
     if (!row) {
@@ -92,35 +282,44 @@ export async function createOrReuseActiveTransaction(input: {
     return tx;
   }
 
-  // 3) Otherwise insert a brand new pending row
+  // 3) Otherwise insert a brand new started row
   return await createPendingTransaction({
     userId: input.userId,
     offerId: input.offerId,
+    stepId: input.stepId,
     offerTitle: input.offerTitle,
+    stepTitle: input.stepTitle,
     offerIconUrl: input.offerIconUrl,
     amount: input.amount,
+    clickId: newClickId(),
   });
 }
 
 export async function createPendingTransaction(input: {
   userId: string;
   offerId?: string;
+  stepId?: string;
   offerTitle?: string;
+  stepTitle?: string;
   offerIconUrl?: string;
   amount?: number;
   proofUrl?: string;
+  clickId?: string;
 }) {
   const payload = {
     user_id: input.userId,
     offer_id: input.offerId ?? null,
+    step_id: input.stepId ?? null,
     offer_title: input.offerTitle ?? null,
+    step_title: input.stepTitle ?? null,
     offer_icon_url: input.offerIconUrl ?? null,
     amount: input.amount ?? null,
-    status: 'pending' as TransactionStatus,
+    status: 'started' as TransactionStatus,
     proof_url: input.proofUrl ?? null,
+    click_id: input.clickId ?? null,
   };
   const { data, error } = await supabase.from('transactions').insert(payload).select('*').limit(1);
-  if (error) throw error;
+  if (error) throw toTransactionError(error);
   const row = (data as any[] | null)?.[0];
   // If the DB didn't return the row (RLS), synthesize a minimal object
   if (!row) {
@@ -128,11 +327,14 @@ export async function createPendingTransaction(input: {
       id: 'unknown',
       user_id: payload.user_id,
       offer_id: payload.offer_id,
+      step_id: payload.step_id,
       offer_title: payload.offer_title,
+      step_title: payload.step_title,
       offer_icon_url: payload.offer_icon_url,
       amount: payload.amount,
       status: payload.status,
       proof_url: payload.proof_url,
+      click_id: payload.click_id,
       notes: null,
       reviewed_by: null,
       reviewed_at: null,
@@ -147,53 +349,191 @@ export async function createPendingTransaction(input: {
   return tx;
 }
 
+// Proof can be attached while the task is open, replaced before review, and re-sent after a rejection
+const PROOF_STATUSES: TransactionStatus[] = ['started', 'submitted', 'rejected'];
+
+export function canSubmitProof(tx: Pick<Transaction, 'status'>) {
+  return PROOF_STATUSES.includes(tx.status);
+}
+
+/** Attach screenshot proof (replacing any earlier proof) and send the transaction for review. */
+export async function submitTransactionProof(id: string, proofUrls: string[]) {
+  const patch = {
+    status: 'submitted' as TransactionStatus,
+    proof_url: proofUrls[0] ?? null,
+    proof_urls: proofUrls,
+    reviewed_at: null,
+    reviewed_by: null,
+  };
+  const { data, error } = await supabase
+    .from('transactions')
+    .update(patch)
+    .eq('id', id)
+    .in('status', dbStatuses(PROOF_STATUSES))
+    .select('*')
+    .limit(1);
+  if (error) throw toTransactionError(error);
+  const row = (data as any[] | null)?.[0];
+  if (!row) throw new Error('This task can no longer take proof.');
+  const tx = mapRow(row);
+  emitTransaction(tx);
+  return tx;
+}
+
+/** Moves a transaction to `status`; throws INVALID_TRANSITION when the lifecycle does not allow it. */
 export async function updateTransactionStatus(
   id: string,
   status: TransactionStatus,
   options?: { notes?: string | null; reviewed_by?: string | null; reviewed_at?: string | null }
 ) {
+  const { data: current, error: readErr } = await supabase.from('transactions').select('status').eq('id', id).single();
+  if (readErr) throw readErr;
+  const from = normalizeStatus((current as any).status);
+  assertTransition(from, status);
+
   const patch: any = { status };
   if (options) {
     if (options.notes !== undefined) patch.notes = options.notes;
     if (options.reviewed_by !== undefined) patch.reviewed_by = options.reviewed_by;
-    // default reviewed_at to now if not provided when setting non-pending status
+    // default reviewed_at to now if not provided when setting non-started status
     if (options.reviewed_at !== undefined) patch.reviewed_at = options.reviewed_at;
-    else if (status !== 'pending') patch.reviewed_at = new Date().toISOString();
+    else if (status !== 'started') patch.reviewed_at = new Date().toISOString();
+  }
+  // Only from the status checked above, so a concurrent change cannot be overwritten
+  const { data, error } = await supabase
+    .from('transactions')
+    .update(patch)
+    .eq('id', id)
+    .in('status', dbStatuses([from]))
+    .select('*')
+    .limit(1);
+  if (error) throw toTransactionError(error);
+  const row = (data as any[] | null)?.[0];
+  if (!row) {
+    const err: TransactionError = { code: 'INVALID_TRANSITION', message: 'The transaction changed meanwhile. Reload and try again.' };
+    throw err;
+  }
+  const tx = mapRow(row);
+  // A confirmed milestone checks its step off for the user
+  if (isTransactionComplete(tx) && tx.offer_id && tx.step_id) {
+    markStepVerified(tx.user_id, tx.offer_id, tx.step_id).catch((e: any) => {
+      console.warn('[step_progress] verify error', e?.message || e);
+    });
   }
-  const { data, error } = await supabase.from('transactions').update(patch).eq('id', id).select('*').single();
-  if (error) throw error;
-  const tx = mapRow(data);
   emitTransaction(tx);
   return tx;
 }
 
-export function subscribeTransactionsForUser(userId: string, cb: (items: Transaction[]) => void) {
-  let cancelled = false;
-  (async () => {
-    const { data, error } = await supabase
+/**
+ * Reject several transactions with the same note, e.g. duplicate proofs found during review. Each
+ * one is rejected on its own, so the result lists the rows that changed and those that could not.
+ */
+export async function rejectTransactions(ids: string[], options: { notes: string; reviewed_by: string | null }) {
+  const results = await Promise.allSettled(ids.map((id) => updateTransactionStatus(id, 'rejected', options)));
+  const rejected: Transaction[] = [];
+  const failed: { id: string; message: string }[] = [];
+  results.forEach((r, i) => {
+    if (r.status === 'fulfilled') rejected.push(r.value);
+    else failed.push({ id: ids[i], message: r.reason?.message || 'Failed to reject transaction' });
+  });
+  return { rejected, failed };
+}
+
+// Started conversions untouched for this long may be expired
+export const START_EXPIRY_DAYS = 30;
+
+/** Expires started transactions not updated for `days` days; resolves how many were expired. */
+export async function expireStaleTransactions(days = START_EXPIRY_DAYS): Promise<number> {
+  assertTransition('started', 'expired');
+  const cutoff = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+  const { data, error } = await supabase
+    .from('transactions')
+    .update({ status: 'expired' as TransactionStatus, reviewed_at: new Date().toISOString() })
+    .in('status', dbStatuses(['started']))
+    .lt('updated_at', cutoff)
+    .select('*');
+  if (error) throw toTransactionError(error);
+  const txs = ((data as any[] | null) ?? []).map(mapRow);
+  txs.forEach(emitTransaction);
+  return txs.length;
+}
+
+// Per-milestone state of a multi-stage offer, from the user's transactions
+export type MilestoneState = {
+  step: OfferStep;
+  status: TransactionStatus | 'not_started';
+  tx: Transaction | null; // latest transaction for the milestone
+};
+
+export type OfferProgress = {
+  milestones: MilestoneState[];
+  earned: number; // ₹ paid so far
+  total: number; // ₹ across all milestones
+  completed: boolean; // every milestone is approved or paid
+};
+
+export function getOfferProgress(offer: Pick<OfferItem, 'id' | 'steps'>, txs: Transaction[]): OfferProgress {
+  const latest = new Map<string, Transaction>();
+  const confirmed = new Map<string, TransactionStatus>(); // step -> paid, else approved
+  for (const t of txs) {
+    if (t.offer_id !== offer.id || !t.step_id) continue;
+    if (isTransactionComplete(t) && confirmed.get(t.step_id) !== 'paid') confirmed.set(t.step_id, t.status);
+    const prev = latest.get(t.step_id);
+    if (!prev || t.created_at > prev.created_at) latest.set(t.step_id, t);
+  }
+  const milestones = getMilestones(offer).map((step): MilestoneState => {
+    const tx = latest.get(step.id) ?? null;
+    // A confirmed milestone stays confirmed even if a later row for it exists
+    return { step, tx, status: confirmed.get(step.id) ?? tx?.status ?? 'not_started' };
+  });
+  return {
+    milestones,
+    earned: milestones.reduce((sum, m) => sum + (m.status === 'paid' ? m.step.reward ?? 0 : 0), 0),
+    total: milestones.reduce((sum, m) => sum + (m.step.reward ?? 0), 0),
+    completed: milestones.length > 0 && milestones.every(isMilestoneComplete),
+  };
+}
+
+export function isMilestoneComplete(m: Pick<MilestoneState, 'status'>) {
+  return m.status !== 'not_started' && COMPLETED_STATUSES.includes(m.status);
+}
+
+/** Whether the user has nothing left to do: confirmed once, or every milestone confirmed for multi-stage offers. */
+export function isOfferCompleted(offer: Pick<OfferItem, 'id' | 'steps'>, txs: Transaction[]) {
+  if (isMultiStageOffer(offer)) return getOfferProgress(offer, txs).completed;
+  return txs.some((t) => t.offer_id === offer.id && isTransactionComplete(t));
+}
+
+export function transactionsCacheKey(userId: string) {
+  return `transactions:user:${userId}`;
+}
+
+/** Last known transactions of a user from the offline cache ([] when none). */
+export function getCachedTransactions(userId: string): Transaction[] {
+  return readCachedRows(transactionsCacheKey(userId))?.map(mapRow) ?? [];
+}
+
+export function userTransactionsQuery(userId: string): LiveQuery<Transaction> {
+  return {
+    key: transactionsCacheKey(userId),
+    table: 'transactions',
+    filter: `user_id=eq.${userId}`,
+    label: 'transactions',
+    cache: true,
+    load: () => supabase
       .from('transactions')
-      .select('id,user_id,offer_id,offer_title,offer_icon_url,amount,status,proof_url,notes,reviewed_by,reviewed_at,created_at,updated_at')
+      .select('id,user_id,offer_id,step_id,offer_title,step_title,offer_icon_url,amount,status,proof_url,proof_urls,click_id,notes,reviewed_by,reviewed_at,created_at,updated_at')
       .eq('user_id', userId)
       .order('created_at', { ascending: false })
-      .limit(200);
-    if (!cancelled) cb((data as any[] | null)?.map(mapRow) ?? []);
-    if (error) console.warn('[transactions] load error', error.message);
-  })();
-
-  const channel = supabase
-    .channel(`transactions-user-${userId}`)
-    .on('postgres_changes', { event: '*', schema: 'public', table: 'transactions', filter: `user_id=eq.${userId}` }, async () => {
-      const { data } = await supabase
-        .from('transactions')
-        .select('id,user_id,offer_id,offer_title,offer_icon_url,amount,status,proof_url,notes,reviewed_by,reviewed_at,created_at,updated_at')
-        .eq('user_id', userId)
-        .order('created_at', { ascending: false })
-        .limit(200);
-      if (!cancelled) cb((data as any[] | null)?.map(mapRow) ?? []);
-    })
-    .subscribe();
-
-  return () => { cancelled = true; supabase.removeChannel(channel); };
+      .limit(200),
+    compare: byCreatedAtDesc,
+    limit: 200,
+    map: mapRow,
+  };
+}
+
+export function subscribeTransactionsForUser(userId: string, cb: (items: Transaction[]) => void) {
+  return subscribeLiveQuery(userTransactionsQuery(userId), cb);
 }
 
 // Cursor-paginated fetch with filters for admin explore UI
@@ -210,10 +550,10 @@ export async function fetchTransactions(q: TxnQuery) {
   const pageSize = Math.max(1, Math.min(q.pageSize ?? 50, 100));
   let query = supabase
     .from('transactions')
-    .select('id,user_id,offer_id,offer_title,offer_icon_url,amount,status,proof_url,notes,reviewed_by,reviewed_at,created_at,updated_at')
+    .select('id,user_id,offer_id,step_id,offer_title,step_title,offer_icon_url,amount,status,proof_url,proof_urls,click_id,notes,reviewed_by,reviewed_at,created_at,updated_at')
     .order('created_at', { ascending: false }) as any;
 
-  if (q.status && q.status !== 'all') query = query.eq('status', q.status);
+  if (q.status && q.status !== 'all') query = query.in('status', dbStatuses([q.status]));
   if (q.from) query = query.gte('created_at', q.from);
   if (q.to) query = query.lte('created_at', q.to);
   if (q.cursor) query = query.lt('created_at', q.cursor);
@@ -227,29 +567,52 @@ export async function fetchTransactions(q: TxnQuery) {
   return { items, nextCursor } as { items: Transaction[]; nextCursor?: string };
 }
 
+export async function fetchTransactionById(id: string): Promise<Transaction | null> {
+  const { data, error } = await supabase
+    .from('transactions')
+    .select('id,user_id,offer_id,step_id,offer_title,step_title,offer_icon_url,amount,status,proof_url,proof_urls,click_id,notes,reviewed_by,reviewed_at,created_at,updated_at')
+    .eq('id', id)
+    .limit(1);
+  if (error) throw error;
+  const row = (data as any[] | null)?.[0];
+  return row ? mapRow(row) : null;
+}
+
+// Proof review queue, oldest submission first (REVIEW_STATUSES)
+export async function fetchNextForReview(skipIds: string[] = []): Promise<Transaction | null> {
+  let query = supabase
+    .from('transactions')
+    .select('id,user_id,offer_id,step_id,offer_title,step_title,offer_icon_url,amount,status,proof_url,proof_urls,click_id,notes,reviewed_by,reviewed_at,created_at,updated_at')
+    .in('status', REVIEW_STATUSES)
+    .order('updated_at', { ascending: true });
+  if (skipIds.length) query = query.not('id', 'in', `(${skipIds.join(',')})`);
+  const { data, error } = await query.limit(1);
+  if (error) throw error;
+  const row = (data as any[] | null)?.[0];
+  return row ? mapRow(row) : null;
+}
+
+export async function fetchReviewQueueCount(): Promise<number> {
+  const { count, error } = await supabase
+    .from('transactions')
+    .select('id', { count: 'exact', head: true })
+    .in('status', REVIEW_STATUSES);
+  if (error) throw error;
+  return count ?? 0;
+}
+
 export function subscribeAllTransactions(cb: (items: Transaction[]) => void) {
-  let cancelled = false;
-  (async () => {
-    const { data, error } = await supabase
+  return subscribeLiveQuery<Transaction>({
+    key: 'transactions:all',
+    table: 'transactions',
+    label: 'transactions',
+    load: () => supabase
       .from('transactions')
-      .select('id,user_id,offer_id,offer_title,offer_icon_url,amount,status,proof_url,notes,reviewed_by,reviewed_at,created_at,updated_at')
+      .select('id,user_id,offer_id,step_id,offer_title,step_title,offer_icon_url,amount,status,proof_url,proof_urls,click_id,notes,reviewed_by,reviewed_at,created_at,updated_at')
       .order('created_at', { ascending: false })
-      .limit(300);
-    if (!cancelled) cb((data as any[] | null)?.map(mapRow) ?? []);
-    if (error) console.warn('[transactions] load all error', error.message);
-  })();
-
-  const channel = supabase
-    .channel('transactions-all')
-    .on('postgres_changes', { event: '*', schema: 'public', table: 'transactions' }, async () => {
-      const { data } = await supabase
-        .from('transactions')
-        .select('id,user_id,offer_id,offer_title,offer_icon_url,amount,status,proof_url,notes,reviewed_by,reviewed_at,created_at,updated_at')
-        .order('created_at', { ascending: false })
-        .limit(300);
-      if (!cancelled) cb((data as any[] | null)?.map(mapRow) ?? []);
-    })
-    .subscribe();
-
-  return () => { cancelled = true; supabase.removeChannel(channel); };
+      .limit(300),
+    compare: byCreatedAtDesc,
+    limit: 300,
+    map: mapRow,
+  }, cb);
 }
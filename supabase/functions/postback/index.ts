@@ -0,0 +1,72 @@
+// Attribution-network conversion postbacks: GET or POST /functions/v1/postback/<network>
+// (or ?network=<network>), where <network> is generic, appsflyer, adjust or branch; see lib/attribution
+// for each network's parameters and signing. Networks carry no Supabase JWT, so deploy with
+// `supabase functions deploy postback --no-verify-jwt`, and set POSTBACK_SECRET (or a per-network
+// POSTBACK_SECRET_<NETWORK>) with `supabase secrets set`.
+// POST /functions/v1/postback/simulate { clickId } plays a network's call for an admin (bearer JWT);
+// it is off unless POSTBACK_MODE=local is set, and the app never sees the secrets.
+import { createClient } from '@supabase/supabase-js';
+import { POSTBACK_HTTP_STATUS, processPostback } from '../../../lib/postback.ts';
+import { simulatePostback } from '../../../lib/postbackSimulation.ts';
+import type { PostbackRequest } from '../../../lib/attribution.ts';
+
+const client = createClient(Deno.env.get('SUPABASE_URL') ?? '', Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '', {
+  auth: { persistSession: false },
+});
+
+function json(body: unknown, status: number) {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+// The segment after "postback" in the path, else the `network` query field; generic by default
+function readNetwork(url: URL) {
+  const parts = url.pathname.split('/').filter(Boolean);
+  const at = parts.indexOf('postback');
+  return (at >= 0 ? parts[at + 1] : undefined) || url.searchParams.get('network') || 'generic';
+}
+
+function secretFor(network: string) {
+  return Deno.env.get(`POSTBACK_SECRET_${network.toUpperCase()}`) ?? Deno.env.get('POSTBACK_SECRET') ?? '';
+}
+
+// The caller's user when their JWT is valid and their profile is an admin's
+async function readAdmin(req: Request) {
+  const token = (req.headers.get('Authorization') ?? '').replace(/^Bearer\s+/i, '');
+  if (!token) return null;
+  const { data, error } = await client.auth.getUser(token);
+  if (error || !data.user) return null;
+  const { data: profile } = await client.from('profiles').select('is_admin').eq('id', data.user.id).maybeSingle();
+  return profile?.is_admin ? data.user : null;
+}
+
+async function simulate(req: Request) {
+  if (Deno.env.get('POSTBACK_MODE') !== 'local') return json({ ok: false, message: 'Postback simulation is off' }, 404);
+  if (req.method !== 'POST') return json({ ok: false, message: 'Method not allowed' }, 405);
+  if (!(await readAdmin(req))) return json({ ok: false, message: 'Admins only' }, 403);
+  const { clickId } = await req.json().catch(() => ({}));
+  if (typeof clickId !== 'string' || !clickId) return json({ ok: false, message: 'clickId is required' }, 400);
+  // Refused postbacks are answered with 200 too, so the admin sees the code and message
+  return json(await simulatePostback(client, clickId, secretFor), 200);
+}
+
+Deno.serve(async (req) => {
+  if (req.method !== 'GET' && req.method !== 'POST') return json({ ok: false, message: 'Method not allowed' }, 405);
+  const url = new URL(req.url);
+  const network = readNetwork(url);
+  try {
+    if (network === 'simulate') return await simulate(req);
+    const request: PostbackRequest = {
+      query: Object.fromEntries(url.searchParams),
+      // Signatures cover the raw body, so it is passed on unparsed
+      body: req.method === 'POST' ? await req.text() : '',
+      headers: Object.fromEntries(Array.from(req.headers, ([k, v]) => [k.toLowerCase(), v])),
+    };
+    const result = await processPostback(client, network, request, secretFor(network));
+    if (!result.ok) console.warn('[postback]', network, result.code, result.message);
+    return json(result, result.ok ? 200 : POSTBACK_HTTP_STATUS[result.code]);
+  } catch (e: any) {
+    // Only unexpected failures (database or network outages) end here; 500 makes the network retry
+    console.error('[postback] error', network, e?.message || e);
+    return json({ ok: false, message: 'Internal error' }, 500);
+  }
+});
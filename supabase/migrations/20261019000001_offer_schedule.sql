@@ -0,0 +1,9 @@
+-- Offer scheduling windows: an offer is shown from starts_at (inclusive) until ends_at (exclusive);
+-- either bound may be left open.
+alter table public.offers
+  add column if not exists starts_at timestamptz,
+  add column if not exists ends_at timestamptz;
+
+alter table public.offers drop constraint if exists offers_schedule_check;
+alter table public.offers add constraint offers_schedule_check
+  check (starts_at is null or ends_at is null or starts_at < ends_at);
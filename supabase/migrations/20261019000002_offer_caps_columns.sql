@@ -0,0 +1,19 @@
+-- Per-offer conversion caps (count) and budgets (₹), total and per UTC day; null = no limit.
+-- Usage is counted and enforced by offer_usage_counts / enforce_offer_caps (see *_offer_caps.sql).
+alter table public.offers
+  add column if not exists cap_total integer,
+  add column if not exists cap_daily integer,
+  add column if not exists budget_total numeric(12, 2),
+  add column if not exists budget_daily numeric(12, 2);
+
+alter table public.offers drop constraint if exists offers_caps_check;
+alter table public.offers add constraint offers_caps_check
+  check (
+    (cap_total is null or cap_total > 0)
+    and (cap_daily is null or cap_daily > 0)
+    and (budget_total is null or budget_total > 0)
+    and (budget_daily is null or budget_daily > 0)
+  );
+
+-- offer_usage_counts reads every transaction of an offer
+create index if not exists transactions_offer_id_created_at_idx on public.transactions (offer_id, created_at);
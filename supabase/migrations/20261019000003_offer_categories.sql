@@ -0,0 +1,9 @@
+-- Offer category (one of OFFER_CATEGORIES in lib/content) and free-form tags, stored trimmed and
+-- lowercase so Home filters them exactly.
+alter table public.offers
+  add column if not exists category text,
+  add column if not exists tags text[];
+
+alter table public.offers drop constraint if exists offers_category_check;
+alter table public.offers add constraint offers_category_check
+  check (category is null or category in ('games', 'finance', 'shopping', 'surveys', 'entertainment', 'other'));
@@ -0,0 +1,9 @@
+-- Device targeting: platforms an offer is shown on (null = all) and an inclusive app version range.
+alter table public.offers
+  add column if not exists platforms text[],
+  add column if not exists min_app_version text,
+  add column if not exists max_app_version text;
+
+alter table public.offers drop constraint if exists offers_platforms_check;
+alter table public.offers add constraint offers_platforms_check
+  check (platforms is null or platforms <@ array['android', 'ios', 'web']);
@@ -0,0 +1,7 @@
+-- Per-locale overrides of an offer's title, description and step texts, keyed by locale
+-- ({ "hi": { "title": ..., "description": ..., "steps": [...] } }); English stays in the base columns.
+alter table public.offers add column if not exists translations jsonb;
+
+alter table public.offers drop constraint if exists offers_translations_check;
+alter table public.offers add constraint offers_translations_check
+  check (translations is null or jsonb_typeof(translations) = 'object');
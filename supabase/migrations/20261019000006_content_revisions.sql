@@ -0,0 +1,38 @@
+-- Audit trail of admin edits to offers and slides: one row per create/update/delete/revert with the
+-- before/after snapshots in app shape (see lib/revisions). Only admins write and read it.
+create or replace function public.is_admin()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce((select p.is_admin from public.profiles p where p.id = auth.uid()), false);
+$$;
+
+grant execute on function public.is_admin() to authenticated;
+
+create table if not exists public.content_revisions (
+  id uuid primary key default gen_random_uuid(),
+  entity text not null check (entity in ('offer', 'slide')),
+  entity_id text not null,
+  action text not null check (action in ('create', 'update', 'delete', 'revert')),
+  before jsonb,
+  after jsonb,
+  actor_id uuid references auth.users (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists content_revisions_entity_idx on public.content_revisions (entity, entity_id, created_at desc);
+
+alter table public.content_revisions enable row level security;
+
+drop policy if exists "content_revisions: admins insert" on public.content_revisions;
+create policy "content_revisions: admins insert" on public.content_revisions
+  for insert to authenticated
+  with check (public.is_admin() and actor_id = auth.uid());
+
+drop policy if exists "content_revisions: admins read" on public.content_revisions;
+create policy "content_revisions: admins read" on public.content_revisions
+  for select to authenticated
+  using (public.is_admin());
@@ -0,0 +1,61 @@
+-- Editorial workflow for offers and carousel slides: draft -> in_review -> published. Public feeds
+-- only read published rows; null is a row from before the workflow and counts as published.
+alter table public.offers add column if not exists status text;
+alter table public.slides add column if not exists status text;
+
+alter table public.offers drop constraint if exists offers_status_check;
+alter table public.offers add constraint offers_status_check
+  check (status is null or status in ('draft', 'in_review', 'published'));
+
+alter table public.slides drop constraint if exists slides_status_check;
+alter table public.slides add constraint slides_status_check
+  check (status is null or status in ('draft', 'in_review', 'published'));
+
+-- Unpublished rows are hidden by the database, not only by the feeds' filters: restrictive policies
+-- narrow whatever read policies the tables already have, so drafts reach admins only
+drop policy if exists "offers: signed-out users read published" on public.offers;
+create policy "offers: signed-out users read published" on public.offers
+  as restrictive for select to anon
+  using (status is null or status = 'published');
+
+drop policy if exists "offers: only admins read unpublished" on public.offers;
+create policy "offers: only admins read unpublished" on public.offers
+  as restrictive for select to authenticated
+  using (status is null or status = 'published' or public.is_admin());
+
+drop policy if exists "slides: signed-out users read published" on public.slides;
+create policy "slides: signed-out users read published" on public.slides
+  as restrictive for select to anon
+  using (status is null or status = 'published');
+
+drop policy if exists "slides: only admins read unpublished" on public.slides;
+create policy "slides: only admins read unpublished" on public.slides
+  as restrictive for select to authenticated
+  using (status is null or status = 'published' or public.is_admin());
+
+-- A conversion starts only on a published offer (hint OFFER_UNAVAILABLE); conversions already
+-- running keep settling if the offer goes back to draft
+create or replace function public.enforce_offer_published()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.offer_id is null or new.status not in ('started', 'pending') then
+    return new;
+  end if;
+  if tg_op = 'UPDATE' and old.status in ('started', 'pending') then
+    return new;
+  end if;
+  if exists (select 1 from public.offers o where o.id = new.offer_id and o.status is not null and o.status <> 'published') then
+    raise exception using message = 'This offer is not available.', errcode = 'P0001', hint = 'OFFER_UNAVAILABLE';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists transactions_offer_published on public.transactions;
+create trigger transactions_offer_published
+  before insert or update of status on public.transactions
+  for each row execute function public.enforce_offer_published();
@@ -0,0 +1,10 @@
+-- Carousel order and scheduling: slides play by ascending position (unpositioned ones last, newest
+-- first) and are shown from starts_at (inclusive) until ends_at (exclusive).
+alter table public.slides
+  add column if not exists position integer,
+  add column if not exists starts_at timestamptz,
+  add column if not exists ends_at timestamptz;
+
+alter table public.slides drop constraint if exists slides_schedule_check;
+alter table public.slides add constraint slides_schedule_check
+  check ((position is null or position >= 0) and (starts_at is null or ends_at is null or starts_at < ends_at));
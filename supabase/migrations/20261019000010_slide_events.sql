@@ -0,0 +1,25 @@
+-- Carousel impressions and clicks, batched in by the app (lib/slideAnalytics) and aggregated by
+-- slide_stats (*_slide_stats.sql). Signed-in users insert only their own events and signed-out
+-- viewers only events without a user; only admins read them.
+create table if not exists public.slide_events (
+  id bigint generated always as identity primary key,
+  slide_id text not null,
+  user_id uuid references auth.users (id) on delete set null,
+  kind text not null check (kind in ('impression', 'click')),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists slide_events_created_at_idx on public.slide_events (created_at);
+create index if not exists slide_events_slide_id_created_at_idx on public.slide_events (slide_id, created_at);
+
+alter table public.slide_events enable row level security;
+
+drop policy if exists "slide_events: users insert their own" on public.slide_events;
+create policy "slide_events: users insert their own" on public.slide_events
+  for insert to anon, authenticated
+  with check ((auth.uid() is null and user_id is null) or user_id = auth.uid());
+
+drop policy if exists "slide_events: admins read" on public.slide_events;
+create policy "slide_events: admins read" on public.slide_events
+  for select to authenticated
+  using (public.is_admin());
@@ -0,0 +1,14 @@
+-- Uploaded images: offer icons and slide banners live in the public `media` bucket, and rows keep
+-- their public URLs next to a small thumbnail for dense admin lists. Anyone may read the bucket;
+-- only admins upload.
+alter table public.offers add column if not exists icon_thumb text;
+alter table public.slides add column if not exists thumbnail text;
+
+insert into storage.buckets (id, name, public)
+values ('media', 'media', true)
+on conflict (id) do update set public = true;
+
+drop policy if exists "media: admins upload" on storage.objects;
+create policy "media: admins upload" on storage.objects
+  for insert to authenticated
+  with check (bucket_id = 'media' and public.is_admin());
@@ -0,0 +1,8 @@
+-- Multi-stage offers: offers.steps holds step objects ({ id, text, reward, verification }), and
+-- every milestone a user reaches gets its own transaction, linked to the offer and to the step by
+-- its id. Single-payout transactions have no step.
+alter table public.transactions
+  add column if not exists step_id text,
+  add column if not exists step_title text;
+
+create index if not exists transactions_user_offer_step_idx on public.transactions (user_id, offer_id, step_id, created_at desc);
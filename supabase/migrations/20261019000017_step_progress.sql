@@ -0,0 +1,47 @@
+-- Which offer steps a user has completed, one row per (user, offer, step) (see lib/stepProgress).
+-- Users read their rows and tick steps off ('self') or undo them; only admins (review) and the
+-- postback function (service role) mark steps 'verified', and users cannot change a verified row.
+create table if not exists public.step_progress (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  offer_id text not null,
+  step_id text not null,
+  source text not null default 'self' check (source in ('self', 'verified')),
+  created_at timestamptz not null default now(),
+  unique (user_id, offer_id, step_id)
+);
+
+alter table public.step_progress enable row level security;
+
+drop policy if exists "step_progress: owners and admins read" on public.step_progress;
+create policy "step_progress: owners and admins read" on public.step_progress
+  for select to authenticated
+  using (user_id = auth.uid() or public.is_admin());
+
+drop policy if exists "step_progress: owners self-report" on public.step_progress;
+create policy "step_progress: owners self-report" on public.step_progress
+  for insert to authenticated
+  with check ((user_id = auth.uid() and source = 'self') or public.is_admin());
+
+drop policy if exists "step_progress: admins verify" on public.step_progress;
+create policy "step_progress: admins verify" on public.step_progress
+  for update to authenticated
+  using (public.is_admin())
+  with check (public.is_admin());
+
+drop policy if exists "step_progress: owners undo self-reported" on public.step_progress;
+create policy "step_progress: owners undo self-reported" on public.step_progress
+  for delete to authenticated
+  using (user_id = auth.uid() and source = 'self');
+
+-- The offer details screen follows its rows live
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'step_progress'
+  ) then
+    alter publication supabase_realtime add table public.step_progress;
+  end if;
+end;
+$$;
@@ -0,0 +1,44 @@
+-- Offer eligibility: declarative rules on an offer (jsonb array of { kind, ... }, see EligibilityRule
+-- in lib/content), and the offers taken on each device for `once_per_device` rules. A device claim is
+-- written by the user who started the offer. Claims are not readable: device_claim_conflicts only
+-- tells the caller which offers another user took on a device, never who.
+alter table public.offers add column if not exists eligibility jsonb;
+
+alter table public.offers drop constraint if exists offers_eligibility_check;
+alter table public.offers add constraint offers_eligibility_check
+  check (eligibility is null or jsonb_typeof(eligibility) = 'array');
+
+create table if not exists public.device_claims (
+  device_id text not null,
+  offer_id text not null,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (device_id, offer_id)
+);
+
+alter table public.device_claims enable row level security;
+
+drop policy if exists "device_claims: signed-in users read" on public.device_claims;
+
+drop policy if exists "device_claims: users claim for themselves" on public.device_claims;
+create policy "device_claims: users claim for themselves" on public.device_claims
+  for insert to authenticated
+  with check (user_id = auth.uid());
+
+-- Offers among offer_ids (all when null) taken on device_id by a user other than the caller
+create or replace function public.device_claim_conflicts(device_id text, offer_ids text[] default null)
+returns table (offer_id text)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select c.offer_id
+  from public.device_claims c
+  where c.device_id = device_claim_conflicts.device_id
+    and (device_claim_conflicts.offer_ids is null or c.offer_id = any(device_claim_conflicts.offer_ids))
+    and c.user_id <> auth.uid();
+$$;
+
+revoke execute on function public.device_claim_conflicts(text, text[]) from public, anon;
+grant execute on function public.device_claim_conflicts(text, text[]) to authenticated;
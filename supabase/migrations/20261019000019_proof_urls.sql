@@ -0,0 +1,3 @@
+-- Screenshot proof: every screenshot of a transaction's current submission, as object paths in the
+-- private `proofs` bucket (see *_private_proofs.sql). proof_url keeps the first one for older clients.
+alter table public.transactions add column if not exists proof_urls text[];
@@ -0,0 +1,76 @@
+-- Perceptual hashes of proof screenshots (see lib/proofHash): a 64-bit dHash as 16 hex chars and its
+-- 4 bands ("<index>:<4 hex chars>"), so near-duplicates are found with an index-backed overlap query
+-- (proof_duplicates, *_proof_duplicates.sql). created_at is when a screenshot was first seen, which
+-- decides the original, so users never write the table themselves: record_proof_hashes does, and
+-- screenshots taken out of a proof stay as evidence with replaced_at set. Admins read them all.
+create table if not exists public.proof_hashes (
+  id uuid primary key default gen_random_uuid(),
+  transaction_id uuid not null references public.transactions (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  offer_id text,
+  url text not null,
+  hash text not null check (hash ~ '^[0-9a-f]{16}$'),
+  bands text[] not null check (cardinality(bands) = 4),
+  created_at timestamptz not null default now(),
+  replaced_at timestamptz,
+  unique (transaction_id, hash)
+);
+
+create index if not exists proof_hashes_bands_idx on public.proof_hashes using gin (bands);
+
+alter table public.proof_hashes enable row level security;
+
+drop policy if exists "proof_hashes: owners and admins read" on public.proof_hashes;
+create policy "proof_hashes: owners and admins read" on public.proof_hashes
+  for select to authenticated
+  using (user_id = auth.uid() or public.is_admin());
+
+drop policy if exists "proof_hashes: owners insert" on public.proof_hashes;
+drop policy if exists "proof_hashes: owners update" on public.proof_hashes;
+drop policy if exists "proof_hashes: owners delete" on public.proof_hashes;
+
+-- Records the hashes of a submitted transaction's proof (entries: [{ url, hash }], url one of its
+-- proof_urls). Bands are derived here and created_at is the database's clock. A screenshot sent
+-- again keeps its row and first-seen time; one no longer in proof_urls is marked replaced.
+create or replace function public.record_proof_hashes(tx_id uuid, entries jsonb)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  tx record;
+begin
+  select t.user_id, t.offer_id, t.status, coalesce(t.proof_urls, array[]::text[]) as proof_urls into tx
+  from public.transactions t
+  where t.id = tx_id;
+  if not found or tx.user_id is distinct from auth.uid() then
+    raise exception using message = 'Not your transaction.', errcode = '42501';
+  end if;
+  if tx.status <> 'submitted' then
+    raise exception using message = 'Proof hashes are recorded only for submitted proof.', errcode = 'P0001';
+  end if;
+
+  update public.proof_hashes p
+  set replaced_at = now()
+  where p.transaction_id = tx_id
+    and p.replaced_at is null
+    and not (p.url = any(tx.proof_urls));
+
+  insert into public.proof_hashes (transaction_id, user_id, offer_id, url, hash, bands)
+  select distinct on (e->>'hash')
+    tx_id,
+    tx.user_id,
+    tx.offer_id,
+    e->>'url',
+    e->>'hash',
+    array(select format('%s:%s', i, substr(e->>'hash', i * 4 + 1, 4)) from generate_series(0, 3) i)
+  from jsonb_array_elements(coalesce(entries, '[]'::jsonb)) e
+  where e->>'url' = any(tx.proof_urls)
+  on conflict (transaction_id, hash) do update
+    set url = excluded.url, replaced_at = null;
+end;
+$$;
+
+revoke execute on function public.record_proof_hashes(uuid, jsonb) from public, anon;
+grant execute on function public.record_proof_hashes(uuid, jsonb) to authenticated;
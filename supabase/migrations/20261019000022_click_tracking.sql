@@ -0,0 +1,8 @@
+-- Click tracking: an offer may carry an advertiser tracking link template with {click_id},
+-- {user_id} and {offer_id}; starting the offer gives its transaction a fresh click id, which the
+-- `postback` edge function looks the conversion up by.
+alter table public.offers add column if not exists tracking_url text;
+
+alter table public.transactions add column if not exists click_id text;
+
+create unique index if not exists transactions_click_id_key on public.transactions (click_id) where click_id is not null;
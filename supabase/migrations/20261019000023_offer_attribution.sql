@@ -0,0 +1,8 @@
+-- Attribution networks: which network's postbacks settle an offer and which of its events count,
+-- as { network, completionEvent?, stepEvents? } (see lib/attribution). Null: generic postbacks only.
+alter table public.offers add column if not exists attribution jsonb;
+
+alter table public.offers drop constraint if exists offers_attribution_check;
+alter table public.offers
+  add constraint offers_attribution_check
+  check (attribution is null or attribution->>'network' in ('generic', 'appsflyer', 'adjust', 'branch'));
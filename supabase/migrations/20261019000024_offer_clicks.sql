@@ -0,0 +1,32 @@
+-- Offer CTA clicks, batched in by the app (lib/offerClicks) with device and session context and
+-- aggregated by offer_click_stats (*_offer_click_stats.sql). Signed-in users insert only their own
+-- clicks and signed-out viewers only clicks without a user; only admins read them.
+create table if not exists public.offer_clicks (
+  id bigint generated always as identity primary key,
+  offer_id text not null,
+  user_id uuid references auth.users (id) on delete set null,
+  device_id text not null,
+  session_id text not null,
+  platform text not null,
+  os_version text not null default '',
+  app_version text not null default '',
+  store_url text,
+  click_id text,
+  outcome text not null check (outcome in ('opened', 'blocked', 'open_failed', 'sign_in')),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists offer_clicks_created_at_idx on public.offer_clicks (created_at);
+create index if not exists offer_clicks_offer_id_created_at_idx on public.offer_clicks (offer_id, created_at);
+
+alter table public.offer_clicks enable row level security;
+
+drop policy if exists "offer_clicks: users insert their own" on public.offer_clicks;
+create policy "offer_clicks: users insert their own" on public.offer_clicks
+  for insert to anon, authenticated
+  with check ((auth.uid() is null and user_id is null) or user_id = auth.uid());
+
+drop policy if exists "offer_clicks: admins read" on public.offer_clicks;
+create policy "offer_clicks: admins read" on public.offer_clicks
+  for select to authenticated
+  using (public.is_admin());
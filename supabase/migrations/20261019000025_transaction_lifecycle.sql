@@ -0,0 +1,47 @@
+-- Transaction lifecycle (lib/transactionLifecycle): started → (submitted → under_review →) approved
+-- → paid, leaving through rejected, expired or reversed. 'pending' is the legacy spelling of
+-- 'started' still on older rows and written by older clients.
+alter table public.transactions drop constraint if exists transactions_status_check;
+alter table public.transactions add constraint transactions_status_check
+  check (status in ('started', 'pending', 'submitted', 'under_review', 'approved', 'paid', 'rejected', 'expired', 'reversed'));
+
+-- The transitions of TRANSACTION_TRANSITIONS, enforced for every writer (hint INVALID_TRANSITION):
+-- a conversion is inserted as started, and its status then only moves along the lifecycle. An update
+-- that leaves the status as it is changes no state and passes.
+create or replace function public.transaction_transition_allowed(from_status text, to_status text)
+returns boolean
+language sql
+immutable
+as $$
+  select case replace(from_status, 'pending', 'started')
+    when 'started' then replace(to_status, 'pending', 'started') in ('started', 'submitted', 'under_review', 'approved', 'rejected', 'expired')
+    when 'submitted' then to_status in ('submitted', 'under_review', 'approved', 'rejected', 'expired')
+    when 'under_review' then to_status in ('approved', 'rejected')
+    when 'approved' then to_status in ('paid', 'reversed')
+    when 'paid' then to_status in ('reversed')
+    when 'rejected' then replace(to_status, 'pending', 'started') in ('started', 'submitted')
+    when 'expired' then replace(to_status, 'pending', 'started') in ('started')
+    else false
+  end;
+$$;
+
+create or replace function public.enforce_transaction_transitions()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op = 'INSERT' and new.status not in ('started', 'pending') then
+    raise exception using message = format('A transaction cannot start as %s.', new.status), errcode = 'P0001', hint = 'INVALID_TRANSITION';
+  end if;
+  if tg_op = 'UPDATE' and new.status is distinct from old.status
+    and not public.transaction_transition_allowed(old.status, new.status) then
+    raise exception using message = format('A transaction that is %s cannot become %s.', old.status, new.status), errcode = 'P0001', hint = 'INVALID_TRANSITION';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists transactions_lifecycle on public.transactions;
+create trigger transactions_lifecycle
+  before insert or update of status on public.transactions
+  for each row execute function public.enforce_transaction_transitions();
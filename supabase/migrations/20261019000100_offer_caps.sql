@@ -0,0 +1,148 @@
+-- Conversion caps and budgets (offers.cap_total, cap_daily, budget_total, budget_daily), enforced in
+-- the database where every user's transactions are visible. Every transaction that is not rejected,
+-- expired or reversed consumes an offer's caps/budget; a multi-stage offer counts one conversion
+-- per user, however many milestones they reach, and every milestone spends its own reward from the
+-- budget. Days are UTC days. Raw usage is for the caps trigger and admins (offer_usage); users only
+-- see what is left (offer_availability).
+
+create or replace function public.offer_usage_counts(offer_ids text[])
+returns table (offer_id text, count bigint, count_today bigint, spent numeric, spent_today numeric)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    t.offer_id::text,
+    count(*) filter (where t.step_id is null)
+      + count(distinct t.user_id) filter (where t.step_id is not null),
+    count(*) filter (where t.step_id is null and t.created_at >= date_trunc('day', now(), 'UTC'))
+      + count(distinct t.user_id) filter (where t.step_id is not null and t.created_at >= date_trunc('day', now(), 'UTC')),
+    coalesce(sum(t.amount::numeric), 0),
+    coalesce(sum(t.amount::numeric) filter (where t.created_at >= date_trunc('day', now(), 'UTC')), 0)
+  from public.transactions t
+  where t.offer_id::text = any(offer_ids)
+    -- 'pending' is the legacy spelling of 'started'
+    and t.status in ('started', 'pending', 'submitted', 'under_review', 'approved', 'paid')
+  group by t.offer_id;
+$$;
+
+revoke execute on function public.offer_usage_counts(text[]) from public, anon, authenticated;
+
+-- Consumed caps and spend per offer, for the admin panel; empty for everyone else
+create or replace function public.offer_usage(offer_ids text[])
+returns table (offer_id text, count bigint, count_today bigint, spent numeric, spent_today numeric)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select u.* from public.offer_usage_counts(offer_ids) u where public.is_admin();
+$$;
+
+revoke execute on function public.offer_usage(text[]) from public, anon;
+grant execute on function public.offer_usage(text[]) to authenticated;
+
+-- What is left of each capped offer for the next conversion: slots and ₹ in total and today, null
+-- where the offer has no such cap. Enough for the app to explain a full campaign.
+create or replace function public.offer_availability(offer_ids text[])
+returns table (offer_id text, slots_left bigint, slots_left_today bigint, budget_left numeric, budget_left_today numeric)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    o.id::text,
+    greatest(o.cap_total - coalesce(u.count, 0), 0),
+    greatest(o.cap_daily - coalesce(u.count_today, 0), 0),
+    greatest(o.budget_total - coalesce(u.spent, 0), 0),
+    greatest(o.budget_daily - coalesce(u.spent_today, 0), 0)
+  from public.offers o
+  left join public.offer_usage_counts(offer_ids) u on u.offer_id = o.id::text
+  where o.id::text = any(offer_ids)
+    and (o.status is null or o.status = 'published' or public.is_admin());
+$$;
+
+revoke execute on function public.offer_availability(text[]) from public, anon;
+grant execute on function public.offer_availability(text[]) to authenticated;
+
+-- Rejects a transaction that would start a conversion past the offer's caps (hint CAMPAIGN_FULL),
+-- and switches the offer off when a conversion takes its last lifetime slot or budget.
+create or replace function public.enforce_offer_caps()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  consuming text[] := array['started', 'pending', 'submitted', 'under_review', 'approved', 'paid'];
+  o record;
+  used bigint;
+  used_today bigint;
+  spent numeric;
+  spent_today numeric;
+  conversion_amount numeric := coalesce(new.amount::numeric, 0);
+  counted boolean;
+  reason text;
+begin
+  if new.offer_id is null or not (new.status = any(consuming)) then
+    return new;
+  end if;
+  -- Moving between consuming statuses keeps the slot already taken
+  if tg_op = 'UPDATE' and old.status = any(consuming) then
+    return new;
+  end if;
+
+  -- Locking the offer serializes its conversions, so two users cannot both take the last slot
+  select cap_total, cap_daily, budget_total, budget_daily into o
+  from public.offers
+  where id = new.offer_id
+  for update;
+  if not found or (o.cap_total is null and o.cap_daily is null and o.budget_total is null and o.budget_daily is null) then
+    return new;
+  end if;
+
+  -- Later milestones belong to a conversion that is already counted: they take no slot, but their
+  -- reward still has to fit the budget
+  counted := new.step_id is not null and exists (
+    select 1 from public.transactions t
+    where t.offer_id = new.offer_id
+      and t.user_id = new.user_id
+      and t.step_id is not null
+      and t.status = any(consuming)
+      and t.id <> new.id
+  );
+  if counted and o.budget_total is null and o.budget_daily is null then
+    return new;
+  end if;
+
+  select coalesce(sum(x.count), 0), coalesce(sum(x.count_today), 0), coalesce(sum(x.spent), 0), coalesce(sum(x.spent_today), 0)
+  into used, used_today, spent, spent_today
+  from public.offer_usage_counts(array[new.offer_id::text]) x;
+
+  if not counted and o.cap_total is not null and used >= o.cap_total then
+    reason := 'All slots for this campaign are taken.';
+  elsif o.budget_total is not null and spent + conversion_amount > o.budget_total then
+    reason := 'This campaign has used its budget.';
+  elsif not counted and o.cap_daily is not null and used_today >= o.cap_daily then
+    reason := 'Today''s slots are taken. Come back tomorrow.';
+  elsif o.budget_daily is not null and spent_today + conversion_amount > o.budget_daily then
+    reason := 'Today''s budget is used up. Come back tomorrow.';
+  end if;
+  if reason is not null then
+    raise exception using message = reason, errcode = 'P0001', hint = 'CAMPAIGN_FULL';
+  end if;
+
+  if (not counted and o.cap_total is not null and used + 1 >= o.cap_total)
+    or (o.budget_total is not null and spent + conversion_amount >= o.budget_total) then
+    update public.offers set active = false where id = new.offer_id;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists transactions_offer_caps on public.transactions;
+create trigger transactions_offer_caps
+  before insert or update of status on public.transactions
+  for each row execute function public.enforce_offer_caps();
@@ -0,0 +1,20 @@
+-- Carousel analytics aggregated in the database, so the admin panel never reads raw slide_events
+-- (PostgREST caps a plain select at its max rows). Runs with the caller's rights: slide_events RLS
+-- decides who may see the numbers, as it did for the raw rows.
+create or replace function public.slide_stats(from_ts timestamptz default null, to_ts timestamptz default null)
+returns table (slide_id text, impressions bigint, clicks bigint, viewers bigint)
+language sql
+stable
+as $$
+  select
+    e.slide_id::text,
+    count(*) filter (where e.kind = 'impression'),
+    count(*) filter (where e.kind = 'click'),
+    count(distinct e.user_id) filter (where e.kind = 'impression')
+  from public.slide_events e
+  where (from_ts is null or e.created_at >= from_ts)
+    and (to_ts is null or e.created_at < to_ts)
+  group by e.slide_id;
+$$;
+
+grant execute on function public.slide_stats(timestamptz, timestamptz) to authenticated;
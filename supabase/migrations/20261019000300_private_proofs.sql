@@ -0,0 +1,17 @@
+-- Proof screenshots show names, UPI ids and order details, so they live in a private bucket.
+-- Users upload under a folder named after their id and may read their own proofs; admins read all.
+-- The app shows them through signed URLs (lib/media resolveProofUrls). is_admin() comes from
+-- *_content_revisions.sql.
+insert into storage.buckets (id, name, public)
+values ('proofs', 'proofs', false)
+on conflict (id) do update set public = false;
+
+drop policy if exists "proofs: owners upload" on storage.objects;
+create policy "proofs: owners upload" on storage.objects
+  for insert to authenticated
+  with check (bucket_id = 'proofs' and (storage.foldername(name))[1] = auth.uid()::text);
+
+drop policy if exists "proofs: owners and admins read" on storage.objects;
+create policy "proofs: owners and admins read" on storage.objects
+  for select to authenticated
+  using (bucket_id = 'proofs' and ((storage.foldername(name))[1] = auth.uid()::text or public.is_admin()));
@@ -0,0 +1,41 @@
+-- Near-duplicate proof screenshots found in the database: candidates share a hash band (see
+-- lib/proofHash), and the Hamming distance of the 64-bit hashes is computed here, so no candidate
+-- is dropped by a row limit. A match is reported only against proof submitted earlier: the first
+-- submitter is the original, the later transaction is the copy. created_at is when a screenshot was
+-- first seen (a resubmitted screenshot keeps its row). Only a transaction's current screenshots are
+-- checked, against every earlier one, replaced ones included. Runs with the caller's rights.
+create or replace function public.proof_duplicates(transaction_ids text[], max_distance int default 3)
+returns table (
+  transaction_id text,
+  url text,
+  match_transaction_id text,
+  match_user_id text,
+  match_offer_id text,
+  match_url text,
+  distance int,
+  same_user boolean
+)
+language sql
+stable
+as $$
+  select
+    o.transaction_id::text,
+    o.url,
+    c.transaction_id::text,
+    c.user_id::text,
+    c.offer_id::text,
+    c.url,
+    bit_count(('x' || o.hash)::bit(64) # ('x' || c.hash)::bit(64))::int,
+    c.user_id = o.user_id
+  from public.proof_hashes o
+  join public.proof_hashes c
+    on c.bands && o.bands
+    and c.transaction_id <> o.transaction_id
+    and c.created_at < o.created_at
+  where o.transaction_id::text = any(transaction_ids)
+    and o.replaced_at is null
+    and bit_count(('x' || o.hash)::bit(64) # ('x' || c.hash)::bit(64)) <= max_distance
+  order by o.transaction_id, c.created_at;
+$$;
+
+grant execute on function public.proof_duplicates(text[], int) to authenticated;
@@ -0,0 +1,34 @@
+-- Offer CTA analytics aggregated in the database, so the admin panel never reads raw offer_clicks or
+-- transactions (PostgREST caps a plain select at its max rows). A clicker is a user, or a device for
+-- signed-out taps; one converts with an approved or paid transaction for the offer started in the
+-- same range. Runs with the caller's rights, as slide_stats does.
+create or replace function public.offer_click_stats(from_ts timestamptz default null, to_ts timestamptz default null)
+returns table (offer_id text, clicks bigint, clickers bigint, conversions bigint)
+language sql
+stable
+as $$
+  with clicks as (
+    select c.offer_id::text as offer_id, c.user_id, coalesce('u:' || c.user_id::text, 'd:' || c.device_id) as clicker
+    from public.offer_clicks c
+    where (from_ts is null or c.created_at >= from_ts)
+      and (to_ts is null or c.created_at < to_ts)
+  ),
+  converted as (
+    select distinct t.offer_id::text as offer_id, t.user_id
+    from public.transactions t
+    where t.offer_id is not null
+      and t.status in ('approved', 'paid')
+      and (from_ts is null or t.created_at >= from_ts)
+      and (to_ts is null or t.created_at < to_ts)
+  )
+  select
+    k.offer_id,
+    count(*),
+    count(distinct k.clicker),
+    count(distinct k.user_id) filter (where v.user_id is not null)
+  from clicks k
+  left join converted v on v.offer_id = k.offer_id and v.user_id = k.user_id
+  group by k.offer_id;
+$$;
+
+grant execute on function public.offer_click_stats(timestamptz, timestamptz) to authenticated;